@@ -0,0 +1,223 @@
+/**
+ * OpenSCAD abstract syntax tree
+ *
+ * Every node carries its source span so callers can map back to the original
+ * code (e.g. to rewrite a parameter value in place or report a line number).
+ */
+
+import type { Comment, SourcePosition } from './tokenizer.ts';
+
+type Node<T extends string> = {
+  type: T;
+  start: SourcePosition;
+  end: SourcePosition;
+};
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+export type NumberLiteral = Node<'Number'> & { value: number };
+export type StringLiteral = Node<'String'> & { value: string };
+export type BooleanLiteral = Node<'Boolean'> & { value: boolean };
+export type UndefLiteral = Node<'Undef'>;
+export type Identifier = Node<'Identifier'> & { name: string };
+
+export type VectorExpression = Node<'Vector'> & {
+  elements: (Expression | ComprehensionElement)[];
+};
+
+export type RangeExpression = Node<'Range'> & {
+  from: Expression;
+  step?: Expression;
+  to: Expression;
+};
+
+export type UnaryExpression = Node<'Unary'> & {
+  operator: '!' | '-' | '+';
+  operand: Expression;
+};
+
+export type BinaryOperator =
+  | '||'
+  | '&&'
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '^';
+
+export type BinaryExpression = Node<'Binary'> & {
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+};
+
+export type TernaryExpression = Node<'Ternary'> & {
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+};
+
+export type Argument = {
+  name?: string;
+  value: Expression;
+};
+
+export type CallExpression = Node<'Call'> & {
+  callee: Expression;
+  args: Argument[];
+};
+
+export type IndexExpression = Node<'Index'> & {
+  object: Expression;
+  index: Expression;
+};
+
+export type MemberExpression = Node<'Member'> & {
+  object: Expression;
+  property: string;
+};
+
+export type LetExpression = Node<'Let'> & {
+  assignments: Argument[];
+  body: Expression;
+};
+
+// `echo(...) expr` and `assert(...) expr` evaluate to their body
+export type EchoExpression = Node<'Echo'> & {
+  args: Argument[];
+  body?: Expression;
+};
+
+export type AssertExpression = Node<'Assert'> & {
+  args: Argument[];
+  body?: Expression;
+};
+
+export type FunctionLiteral = Node<'FunctionLiteral'> & {
+  params: ParameterDeclaration[];
+  body: Expression;
+};
+
+export type Expression =
+  | NumberLiteral
+  | StringLiteral
+  | BooleanLiteral
+  | UndefLiteral
+  | Identifier
+  | VectorExpression
+  | RangeExpression
+  | UnaryExpression
+  | BinaryExpression
+  | TernaryExpression
+  | CallExpression
+  | IndexExpression
+  | MemberExpression
+  | LetExpression
+  | EchoExpression
+  | AssertExpression
+  | FunctionLiteral;
+
+// ============================================================================
+// List comprehensions (only valid inside vectors)
+// ============================================================================
+
+export type ForComprehension = Node<'ForComprehension'> & {
+  assignments: Argument[];
+  body: Expression | ComprehensionElement;
+};
+
+export type IfComprehension = Node<'IfComprehension'> & {
+  condition: Expression;
+  consequent: Expression | ComprehensionElement;
+  alternate?: Expression | ComprehensionElement;
+};
+
+export type LetComprehension = Node<'LetComprehension'> & {
+  assignments: Argument[];
+  body: Expression | ComprehensionElement;
+};
+
+export type EachComprehension = Node<'EachComprehension'> & {
+  body: Expression | ComprehensionElement;
+};
+
+export type ComprehensionElement =
+  | ForComprehension
+  | IfComprehension
+  | LetComprehension
+  | EachComprehension;
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+export type ParameterDeclaration = {
+  name: string;
+  defaultValue?: Expression;
+};
+
+export type Assignment = Node<'Assignment'> & {
+  name: string;
+  value: Expression;
+};
+
+export type ModuleDefinition = Node<'ModuleDefinition'> & {
+  name: string;
+  params: ParameterDeclaration[];
+  body: Statement[];
+};
+
+export type FunctionDefinition = Node<'FunctionDefinition'> & {
+  name: string;
+  params: ParameterDeclaration[];
+  body: Expression;
+};
+
+export type Modifier = '*' | '!' | '#' | '%';
+
+// Covers primitives (`cube()`), transforms, `for`, `let`, `echo` and user
+// modules. `children` holds the statement(s) the instantiation applies to.
+export type ModuleInstantiation = Node<'ModuleInstantiation'> & {
+  name: string;
+  args: Argument[];
+  modifiers: Modifier[];
+  children: Statement[];
+};
+
+export type IfStatement = Node<'If'> & {
+  condition: Expression;
+  consequent: Statement[];
+  alternate?: Statement[];
+};
+
+export type Block = Node<'Block'> & { body: Statement[] };
+
+export type IncludeStatement = Node<'Include'> & {
+  kind: 'include' | 'use';
+  path: string;
+};
+
+export type Statement =
+  | Assignment
+  | ModuleDefinition
+  | FunctionDefinition
+  | ModuleInstantiation
+  | IfStatement
+  | Block
+  | IncludeStatement;
+
+export type Program = {
+  body: Statement[];
+  comments: Comment[];
+  // Statements that could not be parsed are skipped; their errors end up here
+  errors: { message: string; line: number; column: number }[];
+};
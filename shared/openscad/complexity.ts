@@ -0,0 +1,782 @@
+/**
+ * Static complexity estimate of an OpenSCAD design
+ *
+ * Expands the design the way OpenSCAD instantiates it - `for` loops are
+ * unrolled, user modules are expanded with their arguments and `if` branches
+ * are evaluated - and counts the primitives and operations that come out.
+ * Only expressions are evaluated, no geometry, so this is cheap enough to run
+ * before every compile. Each risk points at the statement responsible.
+ */
+
+import type {
+  Argument,
+  ModuleDefinition,
+  ModuleInstantiation,
+  Statement,
+} from './ast.ts';
+import {
+  evaluate,
+  evaluateProgramScope,
+  isRange,
+  rangeToArray,
+  Scope,
+  type ScadValue,
+} from './evaluate.ts';
+import { parse } from './parser.ts';
+
+export type ComplexityRiskKind =
+  | 'primitives'
+  | 'facets'
+  | 'booleans'
+  | 'minkowski'
+  | 'loop'
+  | 'recursion'
+  | 'instances';
+
+export type ComplexityRisk = {
+  kind: ComplexityRiskKind;
+  message: string;
+  // 1-based position of the statement responsible
+  line: number;
+  column: number;
+};
+
+export type ComplexityReport = {
+  primitives: number;
+  // union(), difference(), intersection() and intersection_for()
+  booleans: number;
+  hulls: number;
+  minkowskis: number;
+  // Estimated triangles of all primitives, before booleans
+  facets: number;
+  risks: ComplexityRisk[];
+  // The expansion stopped early, all counts are lower bounds
+  truncated: boolean;
+};
+
+export const COMPLEXITY_LIMITS = {
+  primitives: 5000,
+  facets: 2000000,
+  booleans: 2000,
+  // Product of the operand triangles of a single minkowski()
+  minkowskiFacets: 1000000,
+  loopIterations: 10000,
+  recursionDepth: 100,
+} as const;
+
+// Loops longer than this are sampled instead of unrolled
+const UNROLL_LIMIT = 256;
+const LOOP_SAMPLES = 64;
+// Statements expanded before giving up
+const MAX_INSTANCES = 200000;
+
+const PRIMITIVES = new Set([
+  'cube',
+  'sphere',
+  'cylinder',
+  'polyhedron',
+  'square',
+  'circle',
+  'polygon',
+  'text',
+  'import',
+  'surface',
+]);
+
+const BOOLEANS = new Set(['union', 'difference', 'intersection']);
+
+// Modules that only pass their children through
+const GROUPS = new Set([
+  'translate',
+  'rotate',
+  'scale',
+  'resize',
+  'mirror',
+  'multmatrix',
+  'color',
+  'offset',
+  'projection',
+  'render',
+  'group',
+  'echo',
+  'assert',
+]);
+
+// Triangles assumed for library modules and imported files
+const UNKNOWN_FACETS = 100;
+
+type Counts = {
+  primitives: number;
+  booleans: number;
+  facets: number;
+  instances: number;
+};
+
+type ModuleEntry = { definition: ModuleDefinition; scope: Scope };
+
+class ModuleEnv {
+  definitions = new Map<string, ModuleEntry>();
+
+  constructor(public parent: ModuleEnv | null = null) {}
+
+  lookup(name: string): ModuleEntry | undefined {
+    return this.definitions.get(name) ?? this.parent?.lookup(name);
+  }
+}
+
+type Frame = {
+  modules: ModuleEnv;
+  // What `children()` refers to inside the module being expanded
+  children: Statement[];
+  childrenScope: Scope | null;
+  childrenFrame: Frame | null;
+  depth: number;
+};
+
+function truthy(value: ScadValue): boolean {
+  if (value === undefined) return false;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return !!value;
+}
+
+function asNumber(value: ScadValue): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function loopValues(value: ScadValue): ScadValue[] {
+  if (Array.isArray(value)) return value;
+  if (isRange(value)) return rangeToArray(value);
+  if (typeof value === 'string') return [...value];
+  return [value];
+}
+
+// Number of values a loop variable takes, without expanding huge ranges
+function loopLength(value: ScadValue): number {
+  if (isRange(value)) {
+    if (value.step === 0) return 0;
+    const length = Math.floor((value.to - value.from) / value.step + 1e-9) + 1;
+    return Math.max(length, 0);
+  }
+  return loopValues(value).length;
+}
+
+/**
+ * Fragments of a circle of radius `r`, as computed by OpenSCAD's
+ * `get_fragments_from_r`
+ */
+function fragments(r: number, scope: Scope): number {
+  const fn = asNumber(scope.lookup('$fn')) ?? 0;
+  const fa = asNumber(scope.lookup('$fa')) ?? 12;
+  const fs = asNumber(scope.lookup('$fs')) ?? 2;
+  if (r < 1e-5) return 3;
+  if (fn > 0) return Math.max(Math.floor(fn), 3);
+  return Math.ceil(Math.max(Math.min(360 / fa, (r * 2 * Math.PI) / fs), 5));
+}
+
+type BoundArguments = {
+  named: Map<string, ScadValue>;
+  positional: ScadValue[];
+};
+
+function bindArguments(args: Argument[], scope: Scope): BoundArguments {
+  const named = new Map<string, ScadValue>();
+  const positional: ScadValue[] = [];
+  args.forEach((arg) => {
+    const value = evaluate(arg.value, scope);
+    if (arg.name) named.set(arg.name, value);
+    else positional.push(value);
+  });
+  return { named, positional };
+}
+
+// First numeric value among named arguments or the positional one
+function numberArgument(
+  args: BoundArguments,
+  names: string[],
+  position?: number,
+): number | undefined {
+  for (const name of names) {
+    const value = asNumber(args.named.get(name));
+    if (value !== undefined) return value;
+  }
+  return position === undefined
+    ? undefined
+    : asNumber(args.positional[position]);
+}
+
+function listArgument(
+  args: BoundArguments,
+  name: string,
+  position: number,
+): ScadValue[] {
+  const value = args.named.get(name) ?? args.positional[position];
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Triangles of a 3D primitive, or edges of a 2D one (extrusion turns those
+ * into triangles)
+ */
+function primitiveFacets(
+  name: string,
+  args: BoundArguments,
+  scope: Scope,
+): number {
+  switch (name) {
+    case 'cube':
+      return 12;
+    case 'square':
+      return 4;
+    case 'sphere': {
+      const d = numberArgument(args, ['d']);
+      const r = numberArgument(args, ['r'], 0) ?? (d ?? 2) / 2;
+      const f = fragments(Math.abs(r), scope);
+      return 2 * f * Math.floor((f + 1) / 2);
+    }
+    case 'cylinder': {
+      const radii = [
+        numberArgument(args, ['r', 'r1'], 1),
+        numberArgument(args, ['r2'], 2),
+        ...['d', 'd1', 'd2'].map((name) => {
+          const d = numberArgument(args, [name]);
+          return d === undefined ? undefined : d / 2;
+        }),
+      ].filter((r): r is number => r !== undefined);
+      const r = radii.length > 0 ? Math.max(...radii.map(Math.abs)) : 1;
+      return 4 * fragments(r, scope);
+    }
+    case 'circle': {
+      const d = numberArgument(args, ['d']);
+      const r = numberArgument(args, ['r'], 0) ?? (d ?? 2) / 2;
+      return fragments(Math.abs(r), scope);
+    }
+    case 'polygon':
+      return Math.max(listArgument(args, 'points', 0).length, 3);
+    case 'polyhedron':
+      return Math.max(listArgument(args, 'faces', 1).length * 2, 4);
+    case 'text': {
+      const text = args.named.get('text') ?? args.positional[0];
+      return (typeof text === 'string' ? text.length : 1) * 50;
+    }
+    default:
+      return UNKNOWN_FACETS;
+  }
+}
+
+type Hotspot = { node: ModuleInstantiation; counts: Counts };
+
+class Analyzer {
+  totals: Counts = { primitives: 0, booleans: 0, facets: 0, instances: 0 };
+  hulls = 0;
+  minkowskis = 0;
+  truncated = false;
+  // Statements actually expanded, sampled loops expand fewer than they count
+  visits = 0;
+  risks: ComplexityRisk[] = [];
+
+  // Expansion totals per `for` statement and per leaf (primitive or boolean)
+  private loops = new Map<number, Hotspot>();
+  private leaves = new Map<number, Hotspot>();
+  // Statements already reported, so loops don't repeat a risk per iteration
+  private reported = new Set<string>();
+
+  report(kind: ComplexityRiskKind, node: ModuleInstantiation, message: string) {
+    const key = `${kind}:${node.start.offset}`;
+    if (this.reported.has(key)) return;
+    this.reported.add(key);
+    this.risks.push({
+      kind,
+      message,
+      line: node.start.line,
+      column: node.start.column,
+    });
+  }
+
+  /**
+   * The statement most responsible for a total: the outermost loop producing
+   * the most of it, or the single statement if no loop is involved
+   */
+  hotspot(metric: keyof Counts): ModuleInstantiation | undefined {
+    const pick = (spots: Map<number, Hotspot>) =>
+      [...spots.values()]
+        .filter((spot) => spot.counts[metric] > 0)
+        .sort(
+          (a, b) =>
+            b.counts[metric] - a.counts[metric] ||
+            a.node.start.offset - b.node.start.offset,
+        )[0]?.node;
+    return pick(this.loops) ?? pick(this.leaves);
+  }
+
+  private record(
+    spots: Map<number, Hotspot>,
+    node: ModuleInstantiation,
+    delta: Counts,
+  ) {
+    const spot = spots.get(node.start.offset) ?? {
+      node,
+      counts: { primitives: 0, booleans: 0, facets: 0, instances: 0 },
+    };
+    (Object.keys(delta) as (keyof Counts)[]).forEach((key) => {
+      spot.counts[key] += delta[key];
+    });
+    spots.set(node.start.offset, spot);
+  }
+
+  private snapshot(): Counts {
+    return { ...this.totals };
+  }
+
+  private since(before: Counts): Counts {
+    return {
+      primitives: this.totals.primitives - before.primitives,
+      booleans: this.totals.booleans - before.booleans,
+      facets: this.totals.facets - before.facets,
+      instances: this.totals.instances - before.instances,
+    };
+  }
+
+  /**
+   * Expand a list of statements and return the triangles they produce, each
+   * statement counted `weight` times
+   */
+  walkStatements(
+    statements: Statement[],
+    scope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    let inner = scope;
+    let innerFrame = frame;
+
+    // Definitions are visible in the whole block, like in OpenSCAD
+    const definitions = statements.filter(
+      (statement) => statement.type === 'ModuleDefinition',
+    );
+    const functions = statements.filter(
+      (statement) => statement.type === 'FunctionDefinition',
+    );
+    const assignments = statements.filter(
+      (statement) => statement.type === 'Assignment',
+    );
+    if (functions.length > 0 || assignments.length > 0) {
+      inner = new Scope(scope);
+      functions.forEach((statement) =>
+        inner.functions.set(statement.name, statement),
+      );
+      assignments.forEach((statement) =>
+        inner.variables.set(statement.name, evaluate(statement.value, inner)),
+      );
+    }
+    if (definitions.length > 0) {
+      const modules = new ModuleEnv(frame.modules);
+      definitions.forEach((definition) =>
+        modules.definitions.set(definition.name, { definition, scope: inner }),
+      );
+      innerFrame = { ...frame, modules };
+    }
+
+    let facets = 0;
+    for (const statement of statements) {
+      if (this.truncated) break;
+      facets += this.walkStatement(statement, inner, innerFrame, weight);
+    }
+    return facets;
+  }
+
+  private walkStatement(
+    statement: Statement,
+    scope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    switch (statement.type) {
+      case 'ModuleInstantiation':
+        return this.instantiate(statement, scope, frame, weight);
+      case 'If': {
+        const branch = truthy(evaluate(statement.condition, scope))
+          ? statement.consequent
+          : statement.alternate;
+        return branch ? this.walkStatements(branch, scope, frame, weight) : 0;
+      }
+      case 'Block':
+        return this.walkStatements(statement.body, scope, frame, weight);
+      default:
+        return 0;
+    }
+  }
+
+  private instantiate(
+    node: ModuleInstantiation,
+    scope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    // Disabled and background objects are not rendered
+    if (node.modifiers.includes('*') || node.modifiers.includes('%')) {
+      return 0;
+    }
+
+    this.totals.instances += weight;
+    if (++this.visits > MAX_INSTANCES) {
+      this.truncated = true;
+      return 0;
+    }
+
+    // Special variables passed as arguments apply to the whole subtree
+    const specials = node.args.filter((arg) => arg.name?.startsWith('$'));
+    let local = scope;
+    if (specials.length > 0) {
+      local = new Scope(scope);
+      specials.forEach((arg) =>
+        local.variables.set(arg.name!, evaluate(arg.value, scope)),
+      );
+    }
+
+    const walkChildren = (childWeight = weight, childScope = local) =>
+      this.walkStatements(node.children, childScope, frame, childWeight);
+
+    const { name } = node;
+
+    if (name === 'for' || name === 'intersection_for') {
+      if (name === 'intersection_for') this.totals.booleans += weight;
+      const before = this.snapshot();
+      const facets = this.walkLoop(node, node.args, local, frame, weight);
+      this.record(this.loops, node, this.since(before));
+      return facets;
+    }
+
+    if (name === 'let' || name === 'assign') {
+      const inner = new Scope(local);
+      node.args.forEach((arg) => {
+        if (arg.name) inner.variables.set(arg.name, evaluate(arg.value, inner));
+      });
+      return walkChildren(weight, inner);
+    }
+
+    if (name === 'children') {
+      return this.walkChildrenCall(node, local, frame, weight);
+    }
+
+    if (PRIMITIVES.has(name)) {
+      const facets =
+        weight * primitiveFacets(name, bindArguments(node.args, local), local);
+      this.totals.primitives += weight;
+      this.totals.facets += facets;
+      this.record(this.leaves, node, {
+        primitives: weight,
+        booleans: 0,
+        facets,
+        instances: weight,
+      });
+      return facets;
+    }
+
+    if (BOOLEANS.has(name)) {
+      this.totals.booleans += weight;
+      this.record(this.leaves, node, {
+        primitives: 0,
+        booleans: weight,
+        facets: 0,
+        instances: weight,
+      });
+      return walkChildren();
+    }
+
+    if (name === 'hull') {
+      this.hulls += weight;
+      return walkChildren();
+    }
+
+    if (name === 'minkowski') {
+      return this.walkMinkowski(node, local, frame, weight);
+    }
+
+    if (name === 'linear_extrude' || name === 'rotate_extrude') {
+      return this.walkExtrusion(node, local, frame, weight);
+    }
+
+    if (GROUPS.has(name)) {
+      return walkChildren();
+    }
+
+    const module = frame.modules.lookup(name);
+    if (module) {
+      return this.expandModule(node, module, local, frame, weight);
+    }
+
+    // A library module (BOSL2, MCAD, ...) or an unknown builtin: count it as
+    // a single shape
+    this.totals.primitives += weight;
+    this.totals.facets += weight * UNKNOWN_FACETS;
+    return weight * UNKNOWN_FACETS + walkChildren();
+  }
+
+  private walkLoop(
+    node: ModuleInstantiation,
+    variables: Argument[],
+    scope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    const [first, ...rest] = variables;
+    if (!first) return this.walkStatements(node.children, scope, frame, weight);
+    if (!first.name) return 0;
+
+    const value = evaluate(first.value, scope);
+    const length = loopLength(value);
+    if (length > COMPLEXITY_LIMITS.loopIterations) {
+      this.report(
+        'loop',
+        node,
+        `Loop over '${first.name}' runs ${length.toLocaleString('en-US')} times (more than ${COMPLEXITY_LIMITS.loopIterations.toLocaleString('en-US')})`,
+      );
+    }
+
+    // Long loops are estimated from evenly spaced iterations
+    let items: ScadValue[];
+    let itemWeight = weight;
+    if (length > UNROLL_LIMIT && isRange(value)) {
+      items = Array.from(
+        { length: LOOP_SAMPLES },
+        (_, i) =>
+          value.from +
+          Math.floor((i * (length - 1)) / (LOOP_SAMPLES - 1)) * value.step,
+      );
+      itemWeight = (weight * length) / LOOP_SAMPLES;
+    } else if (length > UNROLL_LIMIT) {
+      const all = loopValues(value);
+      items = Array.from(
+        { length: LOOP_SAMPLES },
+        (_, i) => all[Math.floor((i * (all.length - 1)) / (LOOP_SAMPLES - 1))],
+      );
+      itemWeight = (weight * length) / LOOP_SAMPLES;
+    } else {
+      items = loopValues(value);
+    }
+
+    let facets = 0;
+    for (const item of items) {
+      if (this.truncated) break;
+      const inner = new Scope(scope);
+      inner.variables.set(first.name, item);
+      facets += this.walkLoop(node, rest, inner, frame, itemWeight);
+    }
+    return facets;
+  }
+
+  private walkChildrenCall(
+    node: ModuleInstantiation,
+    scope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    if (!frame.childrenScope || !frame.childrenFrame) return 0;
+
+    let children = frame.children;
+    if (node.args.length > 0) {
+      const selection = evaluate(node.args[0].value, scope);
+      const indices = loopValues(selection).filter(
+        (index): index is number => typeof index === 'number',
+      );
+      children = indices
+        .map((index) => frame.children[Math.floor(index)])
+        .filter((child): child is Statement => child !== undefined);
+    }
+
+    return this.walkStatements(
+      children,
+      frame.childrenScope,
+      frame.childrenFrame,
+      weight,
+    );
+  }
+
+  private expandModule(
+    node: ModuleInstantiation,
+    { definition, scope: definitionScope }: ModuleEntry,
+    callerScope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    if (frame.depth >= COMPLEXITY_LIMITS.recursionDepth) {
+      this.report(
+        'recursion',
+        node,
+        `Module '${definition.name}' nests more than ${COMPLEXITY_LIMITS.recursionDepth} levels deep`,
+      );
+      return 0;
+    }
+
+    const scope = new Scope(definitionScope);
+    // Special variables are dynamically scoped
+    ['$fn', '$fa', '$fs'].forEach((special) => {
+      if (callerScope.has(special)) {
+        scope.variables.set(special, callerScope.lookup(special));
+      }
+    });
+
+    const positional = node.args.filter((arg) => !arg.name);
+    definition.params.forEach((param, i) => {
+      const argument =
+        node.args.find((arg) => arg.name === param.name) ?? positional[i];
+      const value = argument
+        ? evaluate(argument.value, callerScope)
+        : param.defaultValue
+          ? evaluate(param.defaultValue, scope)
+          : undefined;
+      scope.variables.set(param.name, value);
+    });
+    node.args.forEach((arg) => {
+      if (arg.name?.startsWith('$')) {
+        scope.variables.set(arg.name, evaluate(arg.value, callerScope));
+      }
+    });
+
+    return this.walkStatements(
+      definition.body,
+      scope,
+      {
+        modules: frame.modules,
+        children: node.children,
+        childrenScope: callerScope,
+        childrenFrame: frame,
+        depth: frame.depth + 1,
+      },
+      weight,
+    );
+  }
+
+  private walkMinkowski(
+    node: ModuleInstantiation,
+    scope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    this.minkowskis += weight;
+
+    // Operand sizes of a single minkowski(), the cost grows with their product
+    const operands = node.children
+      .map((child) => this.walkStatement(child, scope, frame, weight) / weight)
+      .filter((facets) => facets > 0);
+    const product = operands.reduce((total, facets) => total * facets, 1);
+
+    if (operands.length > 1 && product > COMPLEXITY_LIMITS.minkowskiFacets) {
+      this.report(
+        'minkowski',
+        node,
+        `minkowski() of shapes with ${operands.map((facets) => Math.round(facets).toLocaleString('en-US')).join(' × ')} triangles`,
+      );
+    }
+
+    return weight * operands.reduce((total, facets) => total + facets, 0);
+  }
+
+  private walkExtrusion(
+    node: ModuleInstantiation,
+    scope: Scope,
+    frame: Frame,
+    weight: number,
+  ): number {
+    const args = bindArguments(node.args, scope);
+    const edges = this.walkStatements(node.children, scope, frame, weight);
+
+    // The 2D outline becomes a band of two triangles per edge and slice
+    const slices =
+      node.name === 'linear_extrude'
+        ? Math.max(numberArgument(args, ['slices']) ?? 1, 1)
+        : fragments(10, scope) *
+          ((numberArgument(args, ['angle']) ?? 360) / 360);
+    const facets = edges * (2 * Math.ceil(slices) + 2);
+
+    // Edges were counted as facets of the 2D shapes, replace them
+    this.totals.facets += facets - edges;
+    return facets;
+  }
+}
+
+function formatCount(count: number): string {
+  return Math.round(count).toLocaleString('en-US');
+}
+
+/**
+ * Estimate how much geometry the code produces and flag anything likely to
+ * hang or crash the renderer. `overrides` replace top-level assignments, like
+ * OpenSCAD's `-D` flags.
+ */
+export function analyzeComplexity(
+  code: string,
+  overrides: Record<string, ScadValue> = {},
+): ComplexityReport {
+  const program = parse(code);
+  const scope = evaluateProgramScope(program, overrides);
+  const analyzer = new Analyzer();
+
+  // Top-level assignments are already in the program scope
+  analyzer.walkStatements(
+    program.body.filter((statement) => statement.type !== 'Assignment'),
+    scope,
+    {
+      modules: new ModuleEnv(),
+      children: [],
+      childrenScope: null,
+      childrenFrame: null,
+      depth: 0,
+    },
+    1,
+  );
+
+  const { totals } = analyzer;
+  const reportTotal = (
+    kind: ComplexityRiskKind,
+    metric: keyof Counts,
+    limit: number,
+    message: string,
+  ) => {
+    if (totals[metric] <= limit) return;
+    const node = analyzer.hotspot(metric);
+    if (node) analyzer.report(kind, node, message);
+  };
+
+  reportTotal(
+    'primitives',
+    'primitives',
+    COMPLEXITY_LIMITS.primitives,
+    `Generates about ${formatCount(totals.primitives)} shapes (more than ${formatCount(COMPLEXITY_LIMITS.primitives)})`,
+  );
+  reportTotal(
+    'booleans',
+    'booleans',
+    COMPLEXITY_LIMITS.booleans,
+    `Generates about ${formatCount(totals.booleans)} boolean operations (more than ${formatCount(COMPLEXITY_LIMITS.booleans)})`,
+  );
+  reportTotal(
+    'facets',
+    'facets',
+    COMPLEXITY_LIMITS.facets,
+    `Generates about ${formatCount(totals.facets)} triangles (more than ${formatCount(COMPLEXITY_LIMITS.facets)}), try a lower $fn`,
+  );
+  if (analyzer.truncated) {
+    reportTotal(
+      'instances',
+      'instances',
+      0,
+      `Expands to more than ${formatCount(MAX_INSTANCES)} statements`,
+    );
+  }
+
+  return {
+    primitives: Math.round(totals.primitives),
+    booleans: Math.round(totals.booleans),
+    hulls: Math.round(analyzer.hulls),
+    minkowskis: Math.round(analyzer.minkowskis),
+    facets: Math.round(totals.facets),
+    risks: analyzer.risks.sort((a, b) => a.line - b.line),
+    truncated: analyzer.truncated,
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeParameters, dependentsOf } from './derived.ts';
+
+const code = `
+outer_d = 20; // [0:50]
+wall = 2; // [0:10]
+function half(x) = x / 2;
+inner_d = outer_d - 2 * wall;
+inner_r = half(inner_d);
+`;
+
+describe('analyzeParameters', () => {
+  it('lists derived parameters with their dependencies', () => {
+    const { derived } = analyzeParameters(code);
+    expect(derived).toEqual([
+      {
+        name: 'inner_d',
+        displayName: 'Inner D',
+        expression: 'outer_d - 2 * wall',
+        dependencies: ['outer_d', 'wall'],
+        value: 16,
+      },
+      {
+        name: 'inner_r',
+        displayName: 'Inner R',
+        expression: 'half(inner_d)',
+        dependencies: ['inner_d'],
+        value: 8,
+      },
+    ]);
+  });
+
+  it('evaluates with the given values', () => {
+    const { derived } = analyzeParameters(code, { wall: 5 });
+    expect(derived.map(({ value }) => value)).toEqual([10, 5]);
+  });
+
+  it('finds transitive dependents', () => {
+    const { graph } = analyzeParameters(code);
+    expect(dependentsOf(graph, 'wall').sort()).toEqual(['inner_d', 'inner_r']);
+  });
+
+  describe('violations', () => {
+    it('allows every value the annotation permits', () => {
+      expect(analyzeParameters(code, { wall: 0 }).violations).toEqual([]);
+      expect(
+        analyzeParameters('height = 0; // [0:10]\nwidth = -5;').violations,
+      ).toEqual([]);
+    });
+
+    it('reports values outside the annotated range', () => {
+      const { violations } = analyzeParameters(
+        'a = 5; // [0:10]\nb = [1, 2]; // [0:10]\nc = 1; // [1:0.5:20]',
+        { a: 12, b: [3, -1], c: 0 },
+      );
+      expect(violations).toEqual([
+        { name: 'a', message: 'A is 12, it must be between 0 and 10', line: 1 },
+        { name: 'b', message: 'B is -1, it must be between 0 and 10', line: 2 },
+        { name: 'c', message: 'C is 0, it must be between 1 and 20', line: 3 },
+      ]);
+    });
+
+    it('reports derived sizes of zero', () => {
+      expect(analyzeParameters(code, { wall: 10 }).violations).toEqual([
+        {
+          name: 'inner_d',
+          message: 'Inner D is 0, it must be greater than 0',
+          line: 5,
+        },
+        {
+          name: 'inner_r',
+          message: 'Inner R is 0, it must be greater than 0',
+          line: 6,
+        },
+      ]);
+    });
+
+    it('reports derived sizes that become negative', () => {
+      expect(
+        analyzeParameters(code, { outer_d: 10, wall: 6 }).violations,
+      ).toEqual([
+        {
+          name: 'inner_d',
+          message: 'Inner D is -2, it must be greater than 0',
+          line: 5,
+        },
+        {
+          name: 'inner_r',
+          message: 'Inner R is -1, it must be greater than 0',
+          line: 6,
+        },
+      ]);
+    });
+
+    it('reports failed top-level asserts', () => {
+      const { violations } = analyzeParameters(
+        'wall = 2;\nassert(wall < 1, "Wall too thick");',
+      );
+      expect(violations).toEqual([{ message: 'Wall too thick', line: 2 }]);
+    });
+  });
+});
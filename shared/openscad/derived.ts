@@ -0,0 +1,249 @@
+/**
+ * Derived parameters and constraint validation
+ *
+ * A derived parameter is a top-level assignment computed from other values
+ * (`inner_d = outer_d - 2 * wall;`). It cannot be edited directly, but its
+ * value follows the Customizer parameters it depends on.
+ */
+
+import type { Parameter, ParameterRange } from '../types.ts';
+import type { Assignment, FunctionDefinition, Program } from './ast.ts';
+import {
+  evaluate,
+  evaluateProgramScope,
+  type ScadValue,
+  type Scope,
+} from './evaluate.ts';
+import { literalValue, parseParameters, toDisplayName } from './parameters.ts';
+import { parse } from './parser.ts';
+import { walkExpression, type ExpressionNode } from './walk.ts';
+
+export type DerivedParameter = {
+  name: string;
+  displayName: string;
+  // Source text of the expression, e.g. `outer_d - 2 * wall`
+  expression: string;
+  // Top-level variables the expression reads, directly or via functions
+  dependencies: string[];
+  value: ScadValue;
+};
+
+export type ConstraintViolation = {
+  message: string;
+  line: number;
+  // Variable the violation is about (absent for failed asserts)
+  name?: string;
+};
+
+// Variable name -> top-level variables it depends on directly
+export type DependencyGraph = Map<string, string[]>;
+
+export type ParameterAnalysis = {
+  derived: DerivedParameter[];
+  graph: DependencyGraph;
+  violations: ConstraintViolation[];
+};
+
+// Names that describe a physical size and therefore must be positive
+const DIMENSION_NAME =
+  /(^|_)(d|r|w|h|l|diameter|radius|width|height|length|depth|thickness|wall|size)(_|$|\d)/i;
+
+function collectDependencies(
+  root: ExpressionNode,
+  variables: Set<string>,
+  functions: Map<string, FunctionDefinition>,
+): string[] {
+  const dependencies = new Set<string>();
+  const visitedFunctions = new Set<string>();
+
+  const visit = (node: ExpressionNode) => {
+    if (node.type !== 'Identifier') return;
+    if (variables.has(node.name)) {
+      dependencies.add(node.name);
+    }
+    const definition = functions.get(node.name);
+    if (definition && !visitedFunctions.has(node.name)) {
+      // Functions read top-level variables from their definition scope
+      visitedFunctions.add(node.name);
+      walkExpression(definition.body, visit);
+    }
+  };
+
+  walkExpression(root, visit);
+  return [...dependencies];
+}
+
+function isDerived(assignment: Assignment): boolean {
+  return (
+    !literalValue(assignment.value) &&
+    assignment.value.type !== 'FunctionLiteral'
+  );
+}
+
+function describeRange({ min, max }: ParameterRange): string {
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}`;
+  }
+  return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
+
+// First number of the value outside the range, if any
+function outOfRange(
+  value: ScadValue,
+  { min, max }: ParameterRange,
+): number | undefined {
+  return (Array.isArray(value) ? value : [value]).find(
+    (item): item is number =>
+      typeof item === 'number' &&
+      ((min !== undefined && item < min) || (max !== undefined && item > max)),
+  );
+}
+
+function findViolations(
+  program: Program,
+  scope: Scope,
+  parameters: Parameter[],
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  program.body.forEach((statement) => {
+    // Top-level `assert(condition, message);`
+    if (
+      statement.type === 'ModuleInstantiation' &&
+      statement.name === 'assert'
+    ) {
+      const condition =
+        statement.args.find((arg) => arg.name === 'condition') ??
+        statement.args.find((arg) => !arg.name);
+      const message =
+        statement.args.find((arg) => arg.name === 'message') ??
+        statement.args.filter((arg) => !arg.name)[1];
+      if (condition && evaluate(condition.value, scope) === false) {
+        const text = message ? evaluate(message.value, scope) : undefined;
+        violations.push({
+          message:
+            typeof text === 'string' ? text : 'Assertion failed in the model',
+          line: statement.start.line,
+        });
+      }
+    }
+  });
+
+  const ranges = new Map(
+    parameters.flatMap((parameter) =>
+      parameter.range &&
+      (parameter.range.min !== undefined || parameter.range.max !== undefined)
+        ? [[parameter.name, parameter.range] as const]
+        : [],
+    ),
+  );
+
+  const reported = new Set<string>();
+  [...program.body].reverse().forEach((statement) => {
+    // Only the last assignment of a name counts, as in OpenSCAD
+    if (statement.type !== 'Assignment' || reported.has(statement.name)) return;
+    reported.add(statement.name);
+    const value = scope.lookup(statement.name);
+    const displayName = toDisplayName(statement.name);
+
+    // Parameters are only held to the range their annotation allows
+    const range = ranges.get(statement.name);
+    const outside = range && outOfRange(value, range);
+    if (range && outside !== undefined) {
+      violations.push({
+        name: statement.name,
+        message: `${displayName} is ${outside}, it must be ${describeRange(range)}`,
+        line: statement.start.line,
+      });
+    } else if (
+      isDerived(statement) &&
+      typeof value === 'number' &&
+      value <= 0 &&
+      DIMENSION_NAME.test(statement.name)
+    ) {
+      violations.push({
+        name: statement.name,
+        message: `${displayName} is ${value}, it must be greater than 0`,
+        line: statement.start.line,
+      });
+    }
+  });
+
+  return violations.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Analyze the top-level variables of a program with the given parameter
+ * values (defaults to the values in the code).
+ */
+export function analyzeParameters(
+  code: string,
+  values: Record<string, Parameter['value']> = {},
+): ParameterAnalysis {
+  const program = parse(code);
+  const scope = evaluateProgramScope(program, values);
+
+  const assignments = new Map<string, Assignment>();
+  program.body.forEach((statement) => {
+    if (statement.type === 'Assignment') {
+      assignments.set(statement.name, statement);
+    }
+  });
+  const functions = new Map<string, FunctionDefinition>();
+  program.body.forEach((statement) => {
+    if (statement.type === 'FunctionDefinition') {
+      functions.set(statement.name, statement);
+    }
+  });
+
+  const variables = new Set(assignments.keys());
+  const graph: DependencyGraph = new Map();
+  const derived: DerivedParameter[] = [];
+
+  assignments.forEach((assignment, name) => {
+    const dependencies = collectDependencies(
+      assignment.value,
+      variables,
+      functions,
+    );
+    graph.set(name, dependencies);
+
+    if (!isDerived(assignment)) return;
+
+    derived.push({
+      name,
+      displayName: toDisplayName(name),
+      expression: code.slice(
+        assignment.value.start.offset,
+        assignment.value.end.offset,
+      ),
+      dependencies,
+      value: scope.lookup(name),
+    });
+  });
+
+  return {
+    derived,
+    graph,
+    violations: findViolations(program, scope, parseParameters(code)),
+  };
+}
+
+/**
+ * All variables whose value changes when `name` changes (transitively).
+ */
+export function dependentsOf(graph: DependencyGraph, name: string): string[] {
+  const dependents = new Set<string>();
+  const queue = [name];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    graph.forEach((dependencies, variable) => {
+      if (dependencies.includes(current) && !dependents.has(variable)) {
+        dependents.add(variable);
+        queue.push(variable);
+      }
+    });
+  }
+  dependents.delete(name);
+  return [...dependents];
+}
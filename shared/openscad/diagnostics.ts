@@ -0,0 +1,121 @@
+/**
+ * Structured diagnostics from OpenSCAD's console output
+ *
+ * OpenSCAD reports problems as prefixed lines, followed by the call stack:
+ *   ERROR: Assertion 'w > 0' failed in file input.scad, line 2
+ *   TRACE: called by 'wall', in file input.scad, line 7.
+ *   WARNING: Ignoring unknown variable 'x' in file input.scad, line 4
+ *   ERROR: Parser error in file "/input.scad", line 3: syntax error
+ */
+
+import type { Diagnostic, DiagnosticFrame } from '../types.ts';
+
+const PREFIX = /^(ERROR|WARNING|DEPRECATED|TRACE):\s*/;
+
+// `in file input.scad, line 3` with optional quotes, column and full stop
+const LOCATION =
+  /,?\s*in file "?([^",]*)"?,\s*line (\d+)(?:,\s*column (\d+))?\.?/;
+
+const FRAME_NAME = /^(?:called by|call of)\s+'([^']*)'/;
+
+type Location = { line?: number; column?: number; file?: string };
+
+function normalizePath(path: string): string {
+  return path.replace(/^\.?\//, '');
+}
+
+/**
+ * Split the location off a message. Locations in the compiled file only keep
+ * their line and column, other files are named.
+ */
+function extractLocation(
+  text: string,
+  inputFile: string,
+): { text: string; location: Location } {
+  const match = LOCATION.exec(text);
+  if (!match) {
+    return { text, location: {} };
+  }
+
+  const file = normalizePath(match[1]);
+  return {
+    text: (
+      text.slice(0, match.index) + text.slice(match.index + match[0].length)
+    )
+      .replace(/\.$/, '')
+      .trim(),
+    location: {
+      line: Number(match[2]),
+      column: match[3] ? Number(match[3]) : undefined,
+      file: file === normalizePath(inputFile) ? undefined : file,
+    },
+  };
+}
+
+/**
+ * Parse OpenSCAD's stderr into diagnostics. TRACE lines become the call stack
+ * of the error or warning before them, everything else is ignored.
+ */
+export function parseDiagnostics(
+  stdErr: string[],
+  inputFile = '/input.scad',
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  stdErr.forEach((raw) => {
+    const line = raw.trim();
+    const prefix = PREFIX.exec(line);
+    if (!prefix) return;
+
+    const { text, location } = extractLocation(
+      line.slice(prefix[0].length),
+      inputFile,
+    );
+
+    if (prefix[1] === 'TRACE') {
+      const current = diagnostics[diagnostics.length - 1];
+      if (!current) return;
+
+      const frame: DiagnosticFrame = {
+        name: FRAME_NAME.exec(text)?.[1] ?? text,
+        ...location,
+      };
+      current.callStack.push(frame);
+      return;
+    }
+
+    diagnostics.push({
+      severity: prefix[1] === 'ERROR' ? 'error' : 'warning',
+      // "Parser error: syntax error" reads better without the colon dangling
+      message: text.replace(/:\s*$/, ''),
+      ...location,
+      callStack: [],
+    });
+  });
+
+  return diagnostics;
+}
+
+function formatLocation({ line, column, file }: Location): string {
+  if (line === undefined) return '';
+  const position =
+    column !== undefined ? `line ${line}:${column}` : `line ${line}`;
+  return file ? ` (${file}, ${position})` : ` (${position})`;
+}
+
+/**
+ * Plain text form of the diagnostics for prompts and logs, one per line with
+ * its call stack indented below
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map((diagnostic) =>
+      [
+        `${diagnostic.severity.toUpperCase()}${formatLocation(diagnostic)}: ${diagnostic.message}`,
+        ...diagnostic.callStack.map(
+          (frame) => `  called by '${frame.name}'${formatLocation(frame)}`,
+        ),
+      ].join('\n'),
+    )
+    .join('\n');
+}
@@ -0,0 +1,109 @@
+/**
+ * Draft quality renders
+ *
+ * Curved surfaces are what makes most designs slow to render: every circle,
+ * sphere and cylinder gets as many segments as `$fn`, `$fa` and `$fs` ask
+ * for. A draft clamps these special variables wherever the code sets them,
+ * so the shape can be shown while the full quality render still runs.
+ */
+
+import type {
+  Argument,
+  Expression,
+  ParameterDeclaration,
+  Statement,
+} from './ast.ts';
+import { parse } from './parser.ts';
+import {
+  ExpressionNode,
+  statementChildren,
+  statementExpressions,
+  walkExpression,
+} from './walk.ts';
+
+// Most segments per circle, and the smallest angle and size per segment.
+// `$fa` and `$fs` are OpenSCAD's own defaults.
+const DRAFT_LIMITS: Record<string, (value: string) => string> = {
+  $fn: (value) => `min(${value}, 24)`,
+  $fa: (value) => `max(${value}, 12)`,
+  $fs: (value) => `max(${value}, 2)`,
+};
+
+type Named = { name?: string; value?: Expression };
+
+const fromArguments = (args: Argument[]): Named[] => args;
+
+const fromParameters = (params: ParameterDeclaration[]): Named[] =>
+  params.map(({ name, defaultValue }) => ({ name, value: defaultValue }));
+
+// Names and values a node binds, like `$fn = 64` in `sphere(r, $fn = 64)`
+function expressionBindings(node: ExpressionNode): Named[] {
+  switch (node.type) {
+    case 'Call':
+    case 'Echo':
+    case 'Assert':
+      return fromArguments(node.args);
+    case 'Let':
+    case 'LetComprehension':
+    case 'ForComprehension':
+      return fromArguments(node.assignments);
+    case 'FunctionLiteral':
+      return fromParameters(node.params);
+    default:
+      return [];
+  }
+}
+
+function statementBindings(statement: Statement): Named[] {
+  switch (statement.type) {
+    case 'Assignment':
+      return [statement];
+    case 'ModuleInstantiation':
+      return fromArguments(statement.args);
+    case 'ModuleDefinition':
+    case 'FunctionDefinition':
+      return fromParameters(statement.params);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Rewrite the code so every `$fn`, `$fa` and `$fs` it sets is clamped to
+ * draft quality. Code that can't be parsed is returned as it is, so is code
+ * that doesn't set any of them.
+ */
+export function toDraft(code: string): string {
+  const program = parse(code);
+  if (program.errors.length > 0) return code;
+
+  const clamped: { name: string; value: Expression }[] = [];
+  const collect = (bindings: Named[]) => {
+    bindings.forEach(({ name, value }) => {
+      if (name && value && name in DRAFT_LIMITS) clamped.push({ name, value });
+    });
+  };
+  const visit = (statement: Statement) => {
+    collect(statementBindings(statement));
+    statementExpressions(statement).forEach((expression) =>
+      walkExpression(expression, (node) => collect(expressionBindings(node))),
+    );
+    statementChildren(statement).forEach(visit);
+  };
+  program.body.forEach(visit);
+
+  let draft = '';
+  let offset = 0;
+  clamped
+    .sort((a, b) => a.value.start.offset - b.value.start.offset)
+    .forEach(({ name, value }) => {
+      // Values nested in another clamped value are clamped with it
+      if (value.start.offset < offset) return;
+      draft += code.slice(offset, value.start.offset);
+      draft += DRAFT_LIMITS[name](
+        code.slice(value.start.offset, value.end.offset),
+      );
+      offset = value.end.offset;
+    });
+  return draft + code.slice(offset);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluate,
+  evaluateProgramScope,
+  rangeToArray,
+  Scope,
+  toDisplayString,
+} from './evaluate.ts';
+import { parse, parseExpression } from './parser.ts';
+
+const run = (source: string) => evaluate(parseExpression(source), new Scope());
+
+describe('evaluate', () => {
+  it('evaluates arithmetic, comparisons and conditionals', () => {
+    expect(run('1 + 2 * 3 ^ 2')).toBe(19);
+    expect(run('7 % 3 == 1 && !(2 > 3)')).toBe(true);
+    expect(run('1 < 2 ? "yes" : "no"')).toBe('yes');
+  });
+
+  it('evaluates vectors, indexing and comprehensions', () => {
+    expect(run('[1, 2] + [3, 4]')).toEqual([4, 6]);
+    expect(run('[for (i = [1:3]) i * i]')).toEqual([1, 4, 9]);
+    expect(run('[[1, 2], [3, 4]][1].y')).toBe(4);
+  });
+
+  it('returns undef for invalid operations', () => {
+    expect(run('"a" * 2')).toBeUndefined();
+    expect(run('[1, 2][5]')).toBeUndefined();
+  });
+
+  it('evaluates builtins', () => {
+    expect(run('max([3, 9, 4])')).toBe(9);
+    expect(run('str("w=", 2)')).toBe('w=2');
+    expect(run('len("abc")')).toBe(3);
+    expect(run('chr([72, 105])')).toBe('Hi');
+    expect(run('ord("A")')).toBe(65);
+  });
+
+  it('leaves out numbers that are not characters', () => {
+    expect(run('chr([72, -1, 1.5, 1114112, 105])')).toBe('Hi');
+  });
+});
+
+describe('evaluateProgramScope', () => {
+  it('uses the last assignment and the overrides', () => {
+    const program = parse(
+      'function twice(x) = 2 * x;\na = 1;\na = 3;\nb = twice(a);',
+    );
+    expect(evaluateProgramScope(program).lookup('a')).toBe(3);
+    expect(evaluateProgramScope(program).lookup('b')).toBe(6);
+    expect(evaluateProgramScope(program, { a: 5 }).lookup('b')).toBe(10);
+  });
+});
+
+describe('ranges', () => {
+  it('expands ranges with and without a step', () => {
+    expect(rangeToArray({ kind: 'range', from: 0, step: 2, to: 6 })).toEqual([
+      0, 2, 4, 6,
+    ]);
+    expect(rangeToArray({ kind: 'range', from: 3, step: 1, to: 1 })).toEqual(
+      [],
+    );
+  });
+
+  it('displays values like OpenSCAD', () => {
+    expect(toDisplayString(run('[1:2:5]'))).toBe('[1 : 2 : 5]');
+    expect(toDisplayString(run('[1, "a", undef, true]'))).toBe(
+      '[1, "a", undef, true]',
+    );
+  });
+});
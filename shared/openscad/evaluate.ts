@@ -0,0 +1,600 @@
+/**
+ * OpenSCAD expression evaluator
+ *
+ * Evaluates AST expressions with OpenSCAD semantics (degrees for trig,
+ * `undef` for anything invalid, vector arithmetic). Only expressions are
+ * evaluated - geometry is the job of the WASM worker.
+ */
+
+import type {
+  Argument,
+  ComprehensionElement,
+  Expression,
+  FunctionDefinition,
+  ParameterDeclaration,
+  Program,
+} from './ast.ts';
+
+export type ScadRange = {
+  kind: 'range';
+  from: number;
+  step: number;
+  to: number;
+};
+
+export type ScadFunction = {
+  kind: 'function';
+  params: ParameterDeclaration[];
+  body: Expression;
+  closure: Scope;
+};
+
+export type ScadValue =
+  | number
+  | boolean
+  | string
+  | undefined
+  | ScadValue[]
+  | ScadRange
+  | ScadFunction;
+
+// Guards against runaway recursion and huge ranges in user code
+const MAX_CALL_DEPTH = 256;
+const MAX_RANGE_ITEMS = 100000;
+
+export class Scope {
+  variables = new Map<string, ScadValue>();
+  functions = new Map<string, FunctionDefinition>();
+
+  constructor(public parent: Scope | null = null) {}
+
+  lookup(name: string): ScadValue {
+    if (this.variables.has(name)) return this.variables.get(name);
+    return this.parent ? this.parent.lookup(name) : undefined;
+  }
+
+  has(name: string): boolean {
+    return this.variables.has(name) || !!this.parent?.has(name);
+  }
+
+  lookupFunction(name: string): FunctionDefinition | undefined {
+    return this.functions.get(name) ?? this.parent?.lookupFunction(name);
+  }
+
+  static fromRecord(record: Record<string, ScadValue>): Scope {
+    const scope = new Scope();
+    Object.entries(record).forEach(([name, value]) =>
+      scope.variables.set(name, value),
+    );
+    return scope;
+  }
+}
+
+export function isRange(value: ScadValue): value is ScadRange {
+  return (
+    typeof value === 'object' && !Array.isArray(value) && value.kind === 'range'
+  );
+}
+
+function isFunction(value: ScadValue): value is ScadFunction {
+  return (
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    value.kind === 'function'
+  );
+}
+
+function isNumber(value: ScadValue): value is number {
+  return typeof value === 'number' && !Number.isNaN(value);
+}
+
+function toBoolean(value: ScadValue): boolean {
+  if (value === undefined) return false;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (typeof value === 'string') return value.length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (isRange(value)) return true;
+  return !!value;
+}
+
+export function rangeToArray(range: ScadRange): number[] {
+  const values: number[] = [];
+  if (range.step === 0) return values;
+  if (range.step > 0 ? range.from > range.to : range.from < range.to) {
+    return values;
+  }
+  for (
+    let i = 0, value = range.from;
+    range.step > 0 ? value <= range.to + 1e-9 : value >= range.to - 1e-9;
+    i++, value = range.from + i * range.step
+  ) {
+    if (i >= MAX_RANGE_ITEMS) break;
+    values.push(value);
+  }
+  return values;
+}
+
+function iterate(value: ScadValue): ScadValue[] {
+  if (Array.isArray(value)) return value;
+  if (isRange(value)) return rangeToArray(value);
+  if (typeof value === 'string') return [...value];
+  return [value];
+}
+
+function equals(a: ScadValue, b: ScadValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  }
+  if (isRange(a) && isRange(b)) {
+    return a.from === b.from && a.step === b.step && a.to === b.to;
+  }
+  return a === b;
+}
+
+function compare(a: ScadValue, b: ScadValue): number | undefined {
+  if (isNumber(a) && isNumber(b)) return a - b;
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    if (typeof a === 'object' || typeof b === 'object') return undefined;
+    return Number(a) - Number(b);
+  }
+  return undefined;
+}
+
+function arithmetic(
+  operator: '+' | '-' | '*' | '/' | '%' | '^',
+  a: ScadValue,
+  b: ScadValue,
+): ScadValue {
+  if (isNumber(a) && isNumber(b)) {
+    switch (operator) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      case '/':
+        return a / b;
+      case '%':
+        return a % b;
+      case '^':
+        return Math.pow(a, b);
+    }
+  }
+
+  // Element-wise vector addition and subtraction
+  if (
+    (operator === '+' || operator === '-') &&
+    Array.isArray(a) &&
+    Array.isArray(b)
+  ) {
+    const length = Math.min(a.length, b.length);
+    return a
+      .slice(0, length)
+      .map((item, i) => arithmetic(operator, item, b[i]));
+  }
+
+  if (operator === '*' || operator === '/') {
+    // Scalar * vector and vector * scalar
+    if (Array.isArray(a) && isNumber(b)) {
+      return a.map((item) => arithmetic(operator, item, b));
+    }
+    if (isNumber(a) && Array.isArray(b) && operator === '*') {
+      return b.map((item) => arithmetic(operator, a, item));
+    }
+    // Dot product and matrix products
+    if (operator === '*' && Array.isArray(a) && Array.isArray(b)) {
+      const aIsMatrix = a.every(Array.isArray);
+      const bIsMatrix = b.every(Array.isArray);
+      if (!aIsMatrix && !bIsMatrix) {
+        if (a.length !== b.length) return undefined;
+        return a.reduce<ScadValue>(
+          (sum, item, i) => arithmetic('+', sum, arithmetic('*', item, b[i])),
+          0,
+        );
+      }
+      if (aIsMatrix && !bIsMatrix) {
+        return a.map((row) => arithmetic('*', row, b));
+      }
+      if (!aIsMatrix && bIsMatrix) {
+        const columns = (b[0] as ScadValue[]).length;
+        return Array.from({ length: columns }, (_, column) =>
+          arithmetic(
+            '*',
+            a,
+            b.map((row) => (row as ScadValue[])[column]),
+          ),
+        );
+      }
+      return a.map((row) => arithmetic('*', row, b));
+    }
+  }
+
+  return undefined;
+}
+
+const DEGREES = Math.PI / 180;
+
+type Builtin = (args: ScadValue[]) => ScadValue;
+
+const numeric =
+  (fn: (...values: number[]) => number): Builtin =>
+  (args) =>
+    args.every(isNumber) ? fn(...(args as number[])) : undefined;
+
+const BUILTIN_FUNCTIONS: Record<string, Builtin> = {
+  sin: numeric((x) => Math.sin(x * DEGREES)),
+  cos: numeric((x) => Math.cos(x * DEGREES)),
+  tan: numeric((x) => Math.tan(x * DEGREES)),
+  asin: numeric((x) => Math.asin(x) / DEGREES),
+  acos: numeric((x) => Math.acos(x) / DEGREES),
+  atan: numeric((x) => Math.atan(x) / DEGREES),
+  atan2: numeric((y, x) => Math.atan2(y, x) / DEGREES),
+  abs: numeric(Math.abs),
+  ceil: numeric(Math.ceil),
+  floor: numeric(Math.floor),
+  round: numeric((x) => (x < 0 ? -Math.round(-x) : Math.round(x))),
+  sign: numeric(Math.sign),
+  sqrt: numeric(Math.sqrt),
+  exp: numeric(Math.exp),
+  ln: numeric(Math.log),
+  log: numeric((a, b) =>
+    b === undefined ? Math.log10(a) : Math.log(b) / Math.log(a),
+  ),
+  pow: numeric(Math.pow),
+  min: (args) => {
+    const values = args.length === 1 ? iterate(args[0]) : args;
+    return values.length > 0 && values.every(isNumber)
+      ? Math.min(...(values as number[]))
+      : undefined;
+  },
+  max: (args) => {
+    const values = args.length === 1 ? iterate(args[0]) : args;
+    return values.length > 0 && values.every(isNumber)
+      ? Math.max(...(values as number[]))
+      : undefined;
+  },
+  norm: ([vector]) =>
+    Array.isArray(vector) && vector.every(isNumber)
+      ? Math.sqrt((vector as number[]).reduce((sum, x) => sum + x * x, 0))
+      : undefined,
+  cross: ([a, b]) => {
+    if (!Array.isArray(a) || !Array.isArray(b)) return undefined;
+    if (!a.every(isNumber) || !b.every(isNumber)) return undefined;
+    const [ax, ay, az = 0] = a as number[];
+    const [bx, by, bz = 0] = b as number[];
+    if (a.length === 2 && b.length === 2) return ax * by - ay * bx;
+    return [ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx];
+  },
+  len: ([value]) =>
+    Array.isArray(value) || typeof value === 'string'
+      ? value.length
+      : undefined,
+  concat: (args) =>
+    args.flatMap((value) => (Array.isArray(value) ? value : [value])),
+  str: (args) => args.map(toDisplayString).join(''),
+  chr: (args) =>
+    args
+      .flatMap(iterate)
+      .filter(isNumber)
+      // Not a character, OpenSCAD leaves it out
+      .filter((code) => Number.isInteger(code) && code > 0 && code <= 0x10ffff)
+      .map((code) => String.fromCodePoint(code))
+      .join(''),
+  ord: ([value]) =>
+    typeof value === 'string' && value.length === 1
+      ? value.codePointAt(0)
+      : undefined,
+  is_undef: ([value]) => value === undefined,
+  is_bool: ([value]) => typeof value === 'boolean',
+  is_num: ([value]) => isNumber(value),
+  is_string: ([value]) => typeof value === 'string',
+  is_list: ([value]) => Array.isArray(value),
+  is_function: ([value]) => value !== undefined && isFunction(value),
+  lookup: ([key, table]) => {
+    if (!isNumber(key) || !Array.isArray(table)) return undefined;
+    const rows = table.filter(
+      (row): row is number[] =>
+        Array.isArray(row) && isNumber(row[0]) && isNumber(row[1]),
+    );
+    if (rows.length === 0) return undefined;
+    rows.sort((a, b) => a[0] - b[0]);
+    if (key <= rows[0][0]) return rows[0][1];
+    const last = rows[rows.length - 1];
+    if (key >= last[0]) return last[1];
+    for (let i = 1; i < rows.length; i++) {
+      if (key <= rows[i][0]) {
+        const [x0, y0] = rows[i - 1];
+        const [x1, y1] = rows[i];
+        return y0 + ((key - x0) / (x1 - x0)) * (y1 - y0);
+      }
+    }
+    return undefined;
+  },
+};
+
+export const BUILTIN_CONSTANTS: Record<string, ScadValue> = {
+  PI: Math.PI,
+  $fn: 0,
+  $fa: 12,
+  $fs: 2,
+  $t: 0,
+};
+
+export function toDisplayString(value: ScadValue): string {
+  if (value === undefined) return 'undef';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) =>
+        typeof item === 'string' ? JSON.stringify(item) : toDisplayString(item),
+      )
+      .join(', ')}]`;
+  }
+  if (isRange(value)) return `[${value.from} : ${value.step} : ${value.to}]`;
+  return 'function';
+}
+
+class Evaluator {
+  private depth = 0;
+
+  evaluate(expression: Expression, scope: Scope): ScadValue {
+    switch (expression.type) {
+      case 'Number':
+      case 'String':
+      case 'Boolean':
+        return expression.value;
+      case 'Undef':
+        return undefined;
+      case 'Identifier':
+        if (scope.has(expression.name)) return scope.lookup(expression.name);
+        return BUILTIN_CONSTANTS[expression.name];
+      case 'Vector':
+        return expression.elements.flatMap((element) =>
+          this.evaluateElement(element, scope),
+        );
+      case 'Range': {
+        const from = this.evaluate(expression.from, scope);
+        const step = expression.step
+          ? this.evaluate(expression.step, scope)
+          : 1;
+        const to = this.evaluate(expression.to, scope);
+        if (!isNumber(from) || !isNumber(step) || !isNumber(to)) {
+          return undefined;
+        }
+        return { kind: 'range', from, step, to };
+      }
+      case 'Unary': {
+        const operand = this.evaluate(expression.operand, scope);
+        if (expression.operator === '!') return !toBoolean(operand);
+        if (expression.operator === '+') return operand;
+        return arithmetic('*', -1, operand);
+      }
+      case 'Binary': {
+        const { operator } = expression;
+        // Logical operators short-circuit
+        if (operator === '&&') {
+          return (
+            toBoolean(this.evaluate(expression.left, scope)) &&
+            toBoolean(this.evaluate(expression.right, scope))
+          );
+        }
+        if (operator === '||') {
+          return (
+            toBoolean(this.evaluate(expression.left, scope)) ||
+            toBoolean(this.evaluate(expression.right, scope))
+          );
+        }
+        const left = this.evaluate(expression.left, scope);
+        const right = this.evaluate(expression.right, scope);
+        switch (operator) {
+          case '==':
+            return equals(left, right);
+          case '!=':
+            return !equals(left, right);
+          case '<':
+          case '<=':
+          case '>':
+          case '>=': {
+            const result = compare(left, right);
+            if (result === undefined) return undefined;
+            if (operator === '<') return result < 0;
+            if (operator === '<=') return result <= 0;
+            if (operator === '>') return result > 0;
+            return result >= 0;
+          }
+          default:
+            return arithmetic(operator, left, right);
+        }
+      }
+      case 'Ternary':
+        return toBoolean(this.evaluate(expression.test, scope))
+          ? this.evaluate(expression.consequent, scope)
+          : this.evaluate(expression.alternate, scope);
+      case 'Index': {
+        const object = this.evaluate(expression.object, scope);
+        const index = this.evaluate(expression.index, scope);
+        if (!isNumber(index)) return undefined;
+        if (Array.isArray(object) || typeof object === 'string') {
+          return object[Math.floor(index)];
+        }
+        return undefined;
+      }
+      case 'Member': {
+        const object = this.evaluate(expression.object, scope);
+        const index = ['x', 'y', 'z'].indexOf(expression.property);
+        if (isRange(object)) {
+          return (
+            { begin: object.from, step: object.step, end: object.to } as Record<
+              string,
+              number
+            >
+          )[expression.property];
+        }
+        return Array.isArray(object) && index >= 0 ? object[index] : undefined;
+      }
+      case 'Let':
+        return this.evaluate(
+          expression.body,
+          this.bindSequential(expression.assignments, scope),
+        );
+      case 'Echo':
+      case 'Assert':
+        return expression.body
+          ? this.evaluate(expression.body, scope)
+          : undefined;
+      case 'FunctionLiteral':
+        return {
+          kind: 'function',
+          params: expression.params,
+          body: expression.body,
+          closure: scope,
+        };
+      case 'Call':
+        return this.evaluateCall(expression.callee, expression.args, scope);
+    }
+  }
+
+  private evaluateCall(
+    callee: Expression,
+    args: Argument[],
+    scope: Scope,
+  ): ScadValue {
+    if (this.depth >= MAX_CALL_DEPTH) return undefined;
+
+    // Function values stored in variables shadow named functions
+    if (callee.type === 'Identifier' && !scope.has(callee.name)) {
+      const definition = scope.lookupFunction(callee.name);
+      if (definition) {
+        return this.invoke(
+          definition.params,
+          definition.body,
+          args,
+          scope,
+          scope,
+        );
+      }
+      const builtin = BUILTIN_FUNCTIONS[callee.name];
+      if (builtin) {
+        return builtin(args.map((arg) => this.evaluate(arg.value, scope)));
+      }
+      return undefined;
+    }
+
+    const value = this.evaluate(callee, scope);
+    if (value === undefined || !isFunction(value)) return undefined;
+    return this.invoke(value.params, value.body, args, scope, value.closure);
+  }
+
+  private invoke(
+    params: ParameterDeclaration[],
+    body: Expression,
+    args: Argument[],
+    callerScope: Scope,
+    definitionScope: Scope,
+  ): ScadValue {
+    const scope = new Scope(definitionScope);
+    const positional = args.filter((arg) => !arg.name);
+    params.forEach((param, i) => {
+      const named = args.find((arg) => arg.name === param.name);
+      const argument = named ?? positional[i];
+      const value = argument
+        ? this.evaluate(argument.value, callerScope)
+        : param.defaultValue
+          ? this.evaluate(param.defaultValue, scope)
+          : undefined;
+      scope.variables.set(param.name, value);
+    });
+
+    this.depth++;
+    try {
+      return this.evaluate(body, scope);
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private bindSequential(assignments: Argument[], scope: Scope): Scope {
+    const inner = new Scope(scope);
+    assignments.forEach(({ name, value }) => {
+      if (name) inner.variables.set(name, this.evaluate(value, inner));
+    });
+    return inner;
+  }
+
+  private evaluateElement(
+    element: Expression | ComprehensionElement,
+    scope: Scope,
+  ): ScadValue[] {
+    switch (element.type) {
+      case 'ForComprehension': {
+        const [first, ...rest] = element.assignments;
+        if (!first?.name) return [];
+        return iterate(this.evaluate(first.value, scope)).flatMap((item) => {
+          const inner = new Scope(scope);
+          inner.variables.set(first.name!, item);
+          const nested: ComprehensionElement =
+            rest.length > 0 ? { ...element, assignments: rest } : element;
+          return rest.length > 0
+            ? this.evaluateElement(nested, inner)
+            : this.evaluateElement(element.body, inner);
+        });
+      }
+      case 'IfComprehension':
+        if (toBoolean(this.evaluate(element.condition, scope))) {
+          return this.evaluateElement(element.consequent, scope);
+        }
+        return element.alternate
+          ? this.evaluateElement(element.alternate, scope)
+          : [];
+      case 'LetComprehension':
+        return this.evaluateElement(
+          element.body,
+          this.bindSequential(element.assignments, scope),
+        );
+      case 'EachComprehension':
+        return this.evaluateElement(element.body, scope).flatMap(iterate);
+      default:
+        return [this.evaluate(element, scope)];
+    }
+  }
+}
+
+/**
+ * Evaluate an expression in the given scope. Never throws; invalid operations
+ * evaluate to `undefined` (OpenSCAD's `undef`).
+ */
+export function evaluate(expression: Expression, scope: Scope): ScadValue {
+  return new Evaluator().evaluate(expression, scope);
+}
+
+/**
+ * Build the top-level scope of a program: function definitions plus every
+ * top-level assignment evaluated in order. Like OpenSCAD, a later assignment
+ * to the same name overrides the earlier one.
+ */
+export function evaluateProgramScope(
+  program: Program,
+  overrides: Record<string, ScadValue> = {},
+): Scope {
+  const scope = new Scope();
+  program.body.forEach((statement) => {
+    if (statement.type === 'FunctionDefinition') {
+      scope.functions.set(statement.name, statement);
+    }
+  });
+  program.body.forEach((statement) => {
+    if (statement.type !== 'Assignment') return;
+    const value =
+      statement.name in overrides
+        ? overrides[statement.name]
+        : evaluate(statement.value, scope);
+    scope.variables.set(statement.name, value);
+  });
+  return scope;
+}
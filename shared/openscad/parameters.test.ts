@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Parameter } from '../types.ts';
+import {
+  isHiddenParameter,
+  parseParameters,
+  updateParameter,
+} from './parameters.ts';
+
+const byName = (script: string) =>
+  Object.fromEntries(
+    parseParameters(script).map((parameter) => [parameter.name, parameter]),
+  );
+
+describe('parseParameters', () => {
+  it('reads literal top-level assignments only', () => {
+    const parameters = byName('w = 10;\nd = w * 2;\nmodule m() { x = 1; }');
+    expect(Object.keys(parameters)).toEqual(['w']);
+    expect(parameters.w).toMatchObject({
+      type: 'number',
+      value: 10,
+      defaultValue: 10,
+      displayName: 'W',
+    });
+  });
+
+  it('reads descriptions and groups', () => {
+    const parameters = byName(
+      '/* [Size] */\n// Width of the box\nwidth = 10;\n/* [Hidden] */\nid = 1;',
+    );
+    expect(parameters.width).toMatchObject({
+      group: 'Size',
+      description: 'Width of the box',
+    });
+    expect(isHiddenParameter(parameters.id)).toBe(true);
+  });
+
+  describe('annotations', () => {
+    it('reads slider ranges', () => {
+      const parameters = byName(
+        'a = 5; // [10]\nb = 5; // [0:100]\nc = 5; // [1:0.5:20]\nd = -1; // [-5:5]',
+      );
+      expect(parameters.a.range).toEqual({ min: 0, max: 10 });
+      expect(parameters.b.range).toEqual({ min: 0, max: 100 });
+      expect(parameters.c.range).toEqual({ min: 1, step: 0.5, max: 20 });
+      expect(parameters.d.range).toEqual({ min: -5, max: 5 });
+    });
+
+    it('applies a range to every component of a vector', () => {
+      const { size } = byName('size = [1, 2]; // [0:10]');
+      expect(size).toMatchObject({ type: 'number[]', range: { max: 10 } });
+    });
+
+    it('reads a step for numbers and a maximum length for strings', () => {
+      const parameters = byName('n = 5; // 0.5\ns = "ab"; // 8');
+      expect(parameters.n.range).toEqual({ step: 0.5 });
+      expect(parameters.s.maxLength).toBe(8);
+    });
+
+    it('reads dropdown options with and without labels', () => {
+      const parameters = byName(
+        'shape = "round"; // [round:Round, square:Square]\ncount = 2; // [1, 2, 3]',
+      );
+      expect(parameters.shape.options).toEqual([
+        { value: 'round', label: 'Round' },
+        { value: 'square', label: 'Square' },
+      ]);
+      expect(parameters.count.options?.map(({ value }) => value)).toEqual([
+        1, 2, 3,
+      ]);
+    });
+  });
+});
+
+describe('updateParameter', () => {
+  const width: Parameter = {
+    name: 'width',
+    displayName: 'Width',
+    type: 'number',
+    value: 20,
+    defaultValue: 10,
+  };
+
+  it('rewrites the value and keeps the annotation', () => {
+    expect(updateParameter('width = 10; // [0:100]\nh = 5;', width)).toBe(
+      'width = 20; // [0:100]\nh = 5;',
+    );
+  });
+
+  it('keeps values that do not change as they are written', () => {
+    const code =
+      'width = 20.0;\nsize = [40,20,10];\nscale = .5;\nlabel = "a\\x41";';
+    const unchanged = (name: string, value: Parameter['value']) =>
+      updateParameter(code, { ...width, name, value });
+    expect(unchanged('width', 20)).toBe(code);
+    expect(unchanged('size', [40, 20, 10])).toBe(code);
+    expect(unchanged('scale', 0.5)).toBe(code);
+    expect(unchanged('label', 'aA')).toBe(code);
+  });
+
+  it('rewrites the last of several assignments', () => {
+    expect(updateParameter('width = 1;\nwidth = 2;', width)).toBe(
+      'width = 1;\nwidth = 20;',
+    );
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Customizer parameter extraction for OpenSCAD source
+ *
+ * Every `Parameter` in a `ParametricArtifact` comes from here, both in the
+ * edge functions (`parseParameters`) and in the browser (`updateParameter`).
+ */
+
+import type {
+  Parameter,
+  ParameterOption,
+  ParameterRange,
+  ParameterType,
+} from '../types.ts';
+import type { Assignment, Expression, Program } from './ast.ts';
+import { parse } from './parser.ts';
+import type { Comment } from './tokenizer.ts';
+
+type LiteralValue = { value: Parameter['value']; type: ParameterType };
+
+/**
+ * Convert a literal expression to a parameter value. Returns `undefined` for
+ * anything that is not a Customizer-compatible literal (expressions, variable
+ * references, mixed or empty vectors).
+ */
+export function literalValue(expression: Expression): LiteralValue | undefined {
+  switch (expression.type) {
+    case 'Number':
+      return { value: expression.value, type: 'number' };
+    case 'Boolean':
+      return { value: expression.value, type: 'boolean' };
+    case 'String':
+      return { value: expression.value, type: 'string' };
+    case 'Unary': {
+      if (expression.operator === '!') return undefined;
+      const operand = literalValue(expression.operand);
+      if (operand?.type !== 'number') return undefined;
+      const value = operand.value as number;
+      return {
+        value: expression.operator === '-' ? -value : value,
+        type: 'number',
+      };
+    }
+    case 'Vector': {
+      const items = expression.elements.map((element) =>
+        element.type.endsWith('Comprehension')
+          ? undefined
+          : literalValue(element as Expression),
+      );
+      if (items.length === 0 || items.some((item) => !item)) return undefined;
+      const type = items[0]!.type;
+      if (
+        !['number', 'string', 'boolean'].includes(type) ||
+        items.some((item) => item!.type !== type)
+      ) {
+        return undefined;
+      }
+      return {
+        value: items.map((item) => item!.value) as Parameter['value'],
+        type: `${type}[]` as ParameterType,
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Format a parameter value as OpenSCAD source.
+ */
+export function formatValue(value: Parameter['value']): string {
+  if (Array.isArray(value)) {
+    return `[${(value as (string | number | boolean)[])
+      .map((item) => formatValue(item))
+      .join(', ')}]`;
+  }
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+export function isSameValue(
+  a: Parameter['value'],
+  b: Parameter['value'],
+): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function toDisplayName(name: string): string {
+  if (name === '$fn') return 'Resolution';
+  return name
+    .replace(/_/g, ' ')
+    .split(' ')
+    .filter((word) => word.length > 0)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+type Annotation = {
+  range: ParameterRange;
+  options: ParameterOption[];
+  maxLength?: number;
+};
+
+/**
+ * Interpret the Customizer comment after a parameter:
+ * - `// 5` step for numbers, maximum length for strings
+ * - `// [a:Label A, b:Label B]` or `// [1, 2, 3]` dropdown options
+ * - `// [max]`, `// [min:max]` or `// [min:step:max]` slider range (applies to
+ *   every component of a vector)
+ */
+function parseAnnotation(rawComment: string, type: ParameterType): Annotation {
+  const comment = rawComment.trim();
+  const cleaned = comment.replace(/^\[+|\]+$/g, '');
+  const isNumeric = type === 'number' || type === 'number[]';
+
+  if (comment.length > 0 && !isNaN(Number(comment))) {
+    if (type === 'string') {
+      return { range: {}, options: [], maxLength: parseInt(cleaned, 10) };
+    }
+    return { range: { step: parseFloat(cleaned) }, options: [] };
+  }
+
+  if (comment.startsWith('[') && cleaned.includes(',')) {
+    // Comma separated values are options for a select element
+    const options = cleaned.split(',').map((option) => {
+      const separator = option.indexOf(':');
+      const rawValue = (
+        separator === -1 ? option : option.slice(0, separator)
+      ).trim();
+      const label =
+        separator === -1 ? rawValue : option.slice(separator + 1).trim();
+      const text = rawValue.replace(/^"(.*)"$/, '$1');
+      const value: ParameterOption['value'] = isNumeric
+        ? parseFloat(text)
+        : text;
+      return { value, label: label.replace(/^"(.*)"$/, '$1') || text };
+    });
+    return { range: {}, options };
+  }
+
+  if (/^-?[0-9.]+(:-?[0-9.]+){0,2}$/.test(cleaned.trim())) {
+    const [min, maxOrStep, max] = cleaned.trim().split(':');
+    if (max !== undefined) {
+      return {
+        range: {
+          min: parseFloat(min),
+          step: parseFloat(maxOrStep),
+          max: parseFloat(max),
+        },
+        options: [],
+      };
+    }
+    if (maxOrStep !== undefined) {
+      return {
+        range: { min: parseFloat(min), max: parseFloat(maxOrStep) },
+        options: [],
+      };
+    }
+    return { range: { min: 0, max: parseFloat(min) }, options: [] };
+  }
+
+  return { range: {}, options: [] };
+}
+
+/**
+ * Parameters in a `/* [Hidden] *\/` group are passed to OpenSCAD but never
+ * shown in the Customizer.
+ */
+export function isHiddenParameter(parameter: Parameter): boolean {
+  return parameter.group?.trim().toLowerCase() === 'hidden';
+}
+
+/**
+ * Helpers for locating the comments that belong to a top-level statement.
+ */
+function createCommentIndex(program: Program, script: string) {
+  const lines = script.split('\n');
+  const statementStarts = program.body.map(
+    (statement) => statement.start.offset,
+  );
+
+  // Trailing `// ...` comment on the same line as the end of the assignment
+  const trailing = (assignment: Assignment): Comment | undefined =>
+    program.comments.find(
+      (comment) =>
+        comment.kind === 'line' &&
+        comment.start.line === assignment.end.line &&
+        comment.start.offset >= assignment.end.offset &&
+        !statementStarts.some(
+          (offset) =>
+            offset >= assignment.end.offset && offset < comment.start.offset,
+        ),
+    );
+
+  // `// ...` comment on its own line directly above the assignment
+  const above = (assignment: Assignment): Comment | undefined => {
+    const line = assignment.start.line - 1;
+    if (line < 1 || !lines[line - 1].trim().startsWith('//')) return undefined;
+    return program.comments.find(
+      (comment) => comment.kind === 'line' && comment.start.line === line,
+    );
+  };
+
+  // `/* [Group] */` sections
+  const groups = program.comments
+    .filter((comment) => comment.kind === 'block')
+    .map((comment) => ({
+      offset: comment.start.offset,
+      match: /^\s*\[([^\]]+)\]\s*$/.exec(comment.text),
+    }))
+    .filter((group) => !!group.match)
+    .map((group) => ({ offset: group.offset, name: group.match![1].trim() }));
+
+  const groupOf = (assignment: Assignment): string =>
+    groups.filter((group) => group.offset < assignment.start.offset).pop()
+      ?.name ?? '';
+
+  return { trailing, above, groupOf };
+}
+
+/**
+ * Extract Customizer parameters from OpenSCAD source. Parameters are
+ * top-level assignments with literal values, wherever they appear in the file.
+ */
+export function parseParameters(script: string): Parameter[] {
+  const program = parse(script);
+  const comments = createCommentIndex(program, script);
+  const parameters: Record<string, Parameter> = {};
+
+  program.body.forEach((statement) => {
+    if (statement.type !== 'Assignment') return;
+
+    const typeAndValue = literalValue(statement.value);
+    // If type and value cannot be determined, we do not use that parameter
+    if (!typeAndValue) return;
+
+    const trailing = comments.trailing(statement);
+    const { range, options, maxLength } = trailing
+      ? parseAnnotation(trailing.text, typeAndValue.type)
+      : { range: {}, options: [], maxLength: undefined };
+
+    let description: Parameter['description'] = comments
+      .above(statement)
+      ?.text.replace(/^\/*\s*/, '');
+    if (description !== undefined && description.length === 0) {
+      description = undefined;
+    }
+
+    // Using names as keys to avoid duplicates
+    parameters[statement.name] = {
+      description,
+      group: comments.groupOf(statement),
+      name: statement.name,
+      displayName: toDisplayName(statement.name),
+      defaultValue: typeAndValue.value,
+      range,
+      options,
+      maxLength,
+      ...typeAndValue,
+    };
+  });
+
+  return Object.values(parameters);
+}
+
+/**
+ * Rewrite the value of a top-level parameter assignment in place, keeping
+ * comments and formatting of the rest of the file intact. When a name is
+ * assigned more than once the last assignment wins, as in OpenSCAD. A value
+ * that doesn't change keeps the way it is written (`10.0`, `.5`, ...).
+ */
+export function updateParameter(code: string, parameter: Parameter): string {
+  const program = parse(code);
+  const assignment = program.body
+    .filter(
+      (statement): statement is Assignment =>
+        statement.type === 'Assignment' && statement.name === parameter.name,
+    )
+    .pop();
+
+  if (!assignment) return code;
+
+  const current = literalValue(assignment.value);
+  if (current && isSameValue(current.value, parameter.value)) return code;
+
+  const { start, end } = assignment.value;
+  return (
+    code.slice(0, start.offset) +
+    formatValue(parameter.value) +
+    code.slice(end.offset)
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parse, parseExpression } from './parser.ts';
+
+describe('parse', () => {
+  it('parses statements with their source spans', () => {
+    const program = parse('a = 1;\nmodule m(x = 2) { cube(x); }\nm();');
+    expect(program.errors).toEqual([]);
+    expect(program.body.map((statement) => statement.type)).toEqual([
+      'Assignment',
+      'ModuleDefinition',
+      'ModuleInstantiation',
+    ]);
+    expect(program.body[1].start.line).toBe(2);
+  });
+
+  it('skips statements it cannot parse and keeps going', () => {
+    const program = parse('a = ;\nb = 2;');
+    expect(program.errors).toHaveLength(1);
+    expect(program.errors[0].line).toBe(1);
+    expect(program.body).toHaveLength(1);
+    expect(program.body[0]).toMatchObject({ type: 'Assignment', name: 'b' });
+  });
+
+  it('does not throw on malformed string escapes', () => {
+    expect(() => parse('s = "\\uZZZZ";')).not.toThrow();
+  });
+});
+
+describe('parseExpression', () => {
+  it('respects operator precedence', () => {
+    expect(parseExpression('1 + 2 * 3')).toMatchObject({
+      type: 'Binary',
+      operator: '+',
+      right: { type: 'Binary', operator: '*' },
+    });
+  });
+});
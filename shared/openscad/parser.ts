@@ -0,0 +1,719 @@
+/**
+ * OpenSCAD parser
+ *
+ * Recursive descent parser producing the AST in `ast.ts`. The parser is
+ * tolerant at statement level: a statement that fails to parse is skipped and
+ * recorded in `Program.errors`, so one unsupported construct does not hide
+ * every parameter defined after it.
+ */
+
+import type {
+  Argument,
+  BinaryOperator,
+  ComprehensionElement,
+  Expression,
+  Modifier,
+  ParameterDeclaration,
+  Program,
+  Statement,
+} from './ast.ts';
+import {
+  OpenSCADSyntaxError,
+  tokenize,
+  type SourcePosition,
+  type Token,
+} from './tokenizer.ts';
+
+// Binary operators from lowest to highest precedence. `^` is handled
+// separately because it binds tighter than unary minus.
+const BINARY_PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const MODIFIERS = new Set(['*', '!', '#', '%']);
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  // ==========================================================================
+  // Token helpers
+  // ==========================================================================
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peek(offset = 1): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private get previousEnd(): SourcePosition {
+    return this.tokens[Math.max(this.index - 1, 0)].end;
+  }
+
+  private is(value: string, token: Token = this.current): boolean {
+    return (
+      (token.type === 'punctuation' || token.type === 'keyword') &&
+      token.value === value
+    );
+  }
+
+  private consume(value: string): Token {
+    if (!this.is(value)) {
+      throw new OpenSCADSyntaxError(
+        `Expected '${value}' but found '${this.current.value || 'end of file'}'`,
+        this.current.start,
+      );
+    }
+    return this.tokens[this.index++];
+  }
+
+  private consumeIdentifier(): Token {
+    if (this.current.type !== 'identifier') {
+      throw new OpenSCADSyntaxError(
+        `Expected identifier but found '${this.current.value || 'end of file'}'`,
+        this.current.start,
+      );
+    }
+    return this.tokens[this.index++];
+  }
+
+  private match(value: string): boolean {
+    if (this.is(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  get atEnd(): boolean {
+    return this.current.type === 'eof';
+  }
+
+  // ==========================================================================
+  // Statements
+  // ==========================================================================
+
+  parseProgram(): Omit<Program, 'comments'> {
+    const body: Statement[] = [];
+    const errors: Program['errors'] = [];
+
+    while (!this.atEnd) {
+      const startIndex = this.index;
+      try {
+        const statement = this.parseStatement();
+        if (statement) body.push(statement);
+      } catch (error) {
+        if (!(error instanceof OpenSCADSyntaxError)) throw error;
+        errors.push({
+          message: error.message,
+          line: error.line,
+          column: error.column,
+        });
+        this.recover(startIndex);
+      }
+    }
+
+    return { body, errors };
+  }
+
+  /**
+   * Skip the remainder of a broken statement: everything up to and including
+   * the next `;` or the closing `}` of a block opened by the statement.
+   */
+  private recover(startIndex: number) {
+    this.index = startIndex;
+    let depth = 0;
+    do {
+      const token = this.current;
+      if (token.type === 'punctuation') {
+        if (['(', '[', '{'].includes(token.value)) depth++;
+        if ([')', ']', '}'].includes(token.value)) depth--;
+        if (token.value === ';' && depth <= 0) {
+          this.index++;
+          return;
+        }
+        if (token.value === '}' && depth <= 0) {
+          this.index++;
+          return;
+        }
+      }
+      this.index++;
+    } while (!this.atEnd);
+  }
+
+  private parseStatement(): Statement | null {
+    const token = this.current;
+
+    if (this.match(';')) return null;
+
+    if (this.is('{')) {
+      const start = token.start;
+      const body = this.parseBlock();
+      return { type: 'Block', body, start, end: this.previousEnd };
+    }
+
+    if (this.is('module')) return this.parseModuleDefinition();
+    if (this.is('function')) return this.parseFunctionDefinition();
+
+    if (this.is('include') || this.is('use')) {
+      this.index++;
+      const path = this.current;
+      if (path.type !== 'path') {
+        throw new OpenSCADSyntaxError('Expected <path>', path.start);
+      }
+      this.index++;
+      this.match(';');
+      return {
+        type: 'Include',
+        kind: token.value as 'include' | 'use',
+        path: path.value,
+        start: token.start,
+        end: this.previousEnd,
+      };
+    }
+
+    if (this.is('if')) return this.parseIfStatement();
+
+    if (token.type === 'identifier' && this.is('=', this.peek())) {
+      this.index += 2;
+      const value = this.parseExpression();
+      this.consume(';');
+      return {
+        type: 'Assignment',
+        name: token.value,
+        value,
+        start: token.start,
+        end: this.previousEnd,
+      };
+    }
+
+    return this.parseModuleInstantiation();
+  }
+
+  private parseBlock(): Statement[] {
+    this.consume('{');
+    const body: Statement[] = [];
+    while (!this.is('}')) {
+      if (this.atEnd) {
+        throw new OpenSCADSyntaxError("Expected '}'", this.current.start);
+      }
+      const statement = this.parseStatement();
+      if (statement) body.push(statement);
+    }
+    this.consume('}');
+    return body;
+  }
+
+  // A child statement is either a block or a single statement
+  private parseChildStatements(): Statement[] {
+    if (this.is('{')) return this.parseBlock();
+    const statement = this.parseStatement();
+    return statement ? [statement] : [];
+  }
+
+  private parseModuleDefinition(): Statement {
+    const start = this.consume('module').start;
+    const name = this.consumeIdentifier().value;
+    const params = this.parseParameterDeclarations();
+    const body = this.parseChildStatements();
+    return {
+      type: 'ModuleDefinition',
+      name,
+      params,
+      body,
+      start,
+      end: this.previousEnd,
+    };
+  }
+
+  private parseFunctionDefinition(): Statement {
+    const start = this.consume('function').start;
+    const name = this.consumeIdentifier().value;
+    const params = this.parseParameterDeclarations();
+    this.consume('=');
+    const body = this.parseExpression();
+    this.consume(';');
+    return {
+      type: 'FunctionDefinition',
+      name,
+      params,
+      body,
+      start,
+      end: this.previousEnd,
+    };
+  }
+
+  private parseParameterDeclarations(): ParameterDeclaration[] {
+    this.consume('(');
+    const params: ParameterDeclaration[] = [];
+    while (!this.is(')')) {
+      const name = this.consumeIdentifier().value;
+      const defaultValue = this.match('=') ? this.parseExpression() : undefined;
+      params.push({ name, defaultValue });
+      if (!this.match(',')) break;
+    }
+    this.consume(')');
+    return params;
+  }
+
+  private parseIfStatement(): Statement {
+    const start = this.consume('if').start;
+    this.consume('(');
+    const condition = this.parseExpression();
+    this.consume(')');
+    const consequent = this.parseChildStatements();
+    const alternate = this.match('else')
+      ? this.parseChildStatements()
+      : undefined;
+    return {
+      type: 'If',
+      condition,
+      consequent,
+      alternate,
+      start,
+      end: this.previousEnd,
+    };
+  }
+
+  private parseModuleInstantiation(): Statement {
+    const start = this.current.start;
+    const modifiers: Modifier[] = [];
+    while (
+      this.current.type === 'punctuation' &&
+      MODIFIERS.has(this.current.value)
+    ) {
+      modifiers.push(this.current.value as Modifier);
+      this.index++;
+    }
+
+    // Modifiers may also prefix `if` statements; keep them on a wrapper block
+    if (this.is('if')) {
+      const statement = this.parseIfStatement();
+      return modifiers.length > 0
+        ? {
+            type: 'ModuleInstantiation',
+            name: 'if',
+            args: [],
+            modifiers,
+            children: [statement],
+            start,
+            end: this.previousEnd,
+          }
+        : statement;
+    }
+
+    const nameToken = this.current;
+    if (
+      nameToken.type !== 'identifier' &&
+      !this.is('for') &&
+      !this.is('let') &&
+      !this.is('each')
+    ) {
+      throw new OpenSCADSyntaxError(
+        `Unexpected '${nameToken.value || 'end of file'}'`,
+        nameToken.start,
+      );
+    }
+    this.index++;
+
+    const args = this.parseArguments();
+    const children = this.match(';') ? [] : this.parseChildStatements();
+
+    return {
+      type: 'ModuleInstantiation',
+      name: nameToken.value,
+      args,
+      modifiers,
+      children,
+      start,
+      end: this.previousEnd,
+    };
+  }
+
+  private parseArguments(): Argument[] {
+    this.consume('(');
+    const args: Argument[] = [];
+    while (!this.is(')')) {
+      if (
+        (this.current.type === 'identifier' || this.is('each')) &&
+        this.is('=', this.peek())
+      ) {
+        const name = this.current.value;
+        this.index += 2;
+        args.push({ name, value: this.parseExpression() });
+      } else {
+        args.push({ value: this.parseExpression() });
+      }
+      if (!this.match(',')) break;
+    }
+    this.consume(')');
+    return args;
+  }
+
+  // ==========================================================================
+  // Expressions
+  // ==========================================================================
+
+  parseExpression(): Expression {
+    const start = this.current.start;
+
+    if (this.is('let')) {
+      this.index++;
+      const assignments = this.parseArguments();
+      const body = this.parseExpression();
+      return { type: 'Let', assignments, body, start, end: this.previousEnd };
+    }
+
+    if (this.is('function')) {
+      this.index++;
+      const params = this.parseParameterDeclarations();
+      const body = this.parseExpression();
+      return {
+        type: 'FunctionLiteral',
+        params,
+        body,
+        start,
+        end: this.previousEnd,
+      };
+    }
+
+    if (
+      this.current.type === 'identifier' &&
+      (this.current.value === 'echo' || this.current.value === 'assert') &&
+      this.is('(', this.peek())
+    ) {
+      const kind = this.current.value === 'echo' ? 'Echo' : 'Assert';
+      this.index++;
+      const args = this.parseArguments();
+      const body = this.startsExpression() ? this.parseExpression() : undefined;
+      return { type: kind, args, body, start, end: this.previousEnd };
+    }
+
+    return this.parseTernary();
+  }
+
+  private startsExpression(): boolean {
+    const token = this.current;
+    if (['number', 'string', 'identifier'].includes(token.type)) return true;
+    return [
+      'true',
+      'false',
+      'undef',
+      'let',
+      'function',
+      '(',
+      '[',
+      '!',
+      '-',
+      '+',
+    ].some((value) => this.is(value));
+  }
+
+  private parseTernary(): Expression {
+    const start = this.current.start;
+    const test = this.parseBinary(0);
+    if (!this.match('?')) return test;
+    const consequent = this.parseExpression();
+    this.consume(':');
+    const alternate = this.parseExpression();
+    return {
+      type: 'Ternary',
+      test,
+      consequent,
+      alternate,
+      start,
+      end: this.previousEnd,
+    };
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level >= BINARY_PRECEDENCE.length) return this.parseUnary();
+
+    const start = this.current.start;
+    let left = this.parseBinary(level + 1);
+    while (
+      this.current.type === 'punctuation' &&
+      (BINARY_PRECEDENCE[level] as string[]).includes(this.current.value)
+    ) {
+      const operator = this.current.value as BinaryOperator;
+      this.index++;
+      const right = this.parseBinary(level + 1);
+      left = {
+        type: 'Binary',
+        operator,
+        left,
+        right,
+        start,
+        end: this.previousEnd,
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    const start = this.current.start;
+    if (this.is('!') || this.is('-') || this.is('+')) {
+      const operator = this.current.value as '!' | '-' | '+';
+      this.index++;
+      const operand = this.parseUnary();
+      return { type: 'Unary', operator, operand, start, end: this.previousEnd };
+    }
+    return this.parseExponent();
+  }
+
+  private parseExponent(): Expression {
+    const start = this.current.start;
+    const left = this.parsePostfix();
+    if (!this.match('^')) return left;
+    // Right associative: 2^3^2 == 2^(3^2)
+    const right = this.parseUnary();
+    return {
+      type: 'Binary',
+      operator: '^',
+      left,
+      right,
+      start,
+      end: this.previousEnd,
+    };
+  }
+
+  private parsePostfix(): Expression {
+    const start = this.current.start;
+    let expression = this.parsePrimary();
+
+    while (true) {
+      if (this.is('(')) {
+        const args = this.parseArguments();
+        expression = {
+          type: 'Call',
+          callee: expression,
+          args,
+          start,
+          end: this.previousEnd,
+        };
+      } else if (this.match('[')) {
+        const index = this.parseExpression();
+        this.consume(']');
+        expression = {
+          type: 'Index',
+          object: expression,
+          index,
+          start,
+          end: this.previousEnd,
+        };
+      } else if (this.match('.')) {
+        const property = this.consumeIdentifier().value;
+        expression = {
+          type: 'Member',
+          object: expression,
+          property,
+          start,
+          end: this.previousEnd,
+        };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.current;
+    const start = token.start;
+
+    switch (token.type) {
+      case 'number':
+        this.index++;
+        return {
+          type: 'Number',
+          value: parseFloat(token.value),
+          start,
+          end: token.end,
+        };
+      case 'string':
+        this.index++;
+        return { type: 'String', value: token.value, start, end: token.end };
+      case 'identifier':
+        this.index++;
+        return { type: 'Identifier', name: token.value, start, end: token.end };
+    }
+
+    if (this.match('true') || this.match('false')) {
+      return {
+        type: 'Boolean',
+        value: token.value === 'true',
+        start,
+        end: token.end,
+      };
+    }
+    if (this.match('undef')) {
+      return { type: 'Undef', start, end: token.end };
+    }
+
+    if (this.match('(')) {
+      const expression = this.parseExpression();
+      this.consume(')');
+      return expression;
+    }
+
+    if (this.is('[')) return this.parseVectorOrRange();
+
+    throw new OpenSCADSyntaxError(
+      `Unexpected '${token.value || 'end of file'}' in expression`,
+      token.start,
+    );
+  }
+
+  private parseVectorOrRange(): Expression {
+    const start = this.consume('[').start;
+
+    if (this.match(']')) {
+      return { type: 'Vector', elements: [], start, end: this.previousEnd };
+    }
+
+    const first = this.parseVectorElement();
+
+    if (!isComprehension(first) && this.match(':')) {
+      // [begin:end] or [begin:step:end]
+      const second = this.parseExpression();
+      const third = this.match(':') ? this.parseExpression() : undefined;
+      this.consume(']');
+      return {
+        type: 'Range',
+        from: first,
+        step: third ? second : undefined,
+        to: third ?? second,
+        start,
+        end: this.previousEnd,
+      };
+    }
+
+    const elements = [first];
+    while (this.match(',')) {
+      // Trailing commas are allowed
+      if (this.is(']')) break;
+      elements.push(this.parseVectorElement());
+    }
+    this.consume(']');
+    return { type: 'Vector', elements, start, end: this.previousEnd };
+  }
+
+  private parseVectorElement(): Expression | ComprehensionElement {
+    const start = this.current.start;
+
+    if (this.match('for')) {
+      this.consume('(');
+      const assignments: Argument[] = [];
+      while (!this.is(')')) {
+        const name = this.consumeIdentifier().value;
+        this.consume('=');
+        assignments.push({ name, value: this.parseExpression() });
+        if (this.is(';')) {
+          throw new OpenSCADSyntaxError(
+            'C-style for comprehensions are not supported',
+            this.current.start,
+          );
+        }
+        if (!this.match(',')) break;
+      }
+      this.consume(')');
+      const body = this.parseVectorElement();
+      return {
+        type: 'ForComprehension',
+        assignments,
+        body,
+        start,
+        end: this.previousEnd,
+      };
+    }
+
+    if (this.match('if')) {
+      this.consume('(');
+      const condition = this.parseExpression();
+      this.consume(')');
+      const consequent = this.parseVectorElement();
+      const alternate = this.match('else')
+        ? this.parseVectorElement()
+        : undefined;
+      return {
+        type: 'IfComprehension',
+        condition,
+        consequent,
+        alternate,
+        start,
+        end: this.previousEnd,
+      };
+    }
+
+    if (this.match('let')) {
+      const assignments = this.parseArguments();
+      const body = this.parseVectorElement();
+      return {
+        type: 'LetComprehension',
+        assignments,
+        body,
+        start,
+        end: this.previousEnd,
+      };
+    }
+
+    if (this.match('each')) {
+      const body = this.parseVectorElement();
+      return { type: 'EachComprehension', body, start, end: this.previousEnd };
+    }
+
+    return this.parseExpression();
+  }
+}
+
+function isComprehension(
+  element: Expression | ComprehensionElement,
+): element is ComprehensionElement {
+  return element.type.endsWith('Comprehension');
+}
+
+/**
+ * Parse a complete OpenSCAD file.
+ */
+export function parse(source: string): Program {
+  let tokenized: ReturnType<typeof tokenize>;
+  try {
+    tokenized = tokenize(source);
+  } catch (error) {
+    if (!(error instanceof OpenSCADSyntaxError)) throw error;
+    return {
+      body: [],
+      comments: [],
+      errors: [
+        { message: error.message, line: error.line, column: error.column },
+      ],
+    };
+  }
+
+  const { body, errors } = new Parser(tokenized.tokens).parseProgram();
+  return { body, comments: tokenized.comments, errors };
+}
+
+/**
+ * Parse a single expression, e.g. `outer_d - 2 * wall`.
+ * Throws an `OpenSCADSyntaxError` if the input is not exactly one expression.
+ */
+export function parseExpression(source: string): Expression {
+  const parser = new Parser(tokenize(source).tokens);
+  const expression = parser.parseExpression();
+  if (!parser.atEnd) {
+    throw new OpenSCADSyntaxError('Unexpected input after expression', {
+      offset: expression.end.offset,
+      line: expression.end.line,
+      column: expression.end.column,
+    });
+  }
+  return expression;
+}
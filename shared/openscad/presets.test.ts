@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { Parameter, ParameterPreset } from '../types.ts';
+import {
+  carryOverPresets,
+  createPreset,
+  exportParameterSets,
+  importParameterSets,
+  matchesPreset,
+  mergePresets,
+  PresetImportError,
+} from './presets.ts';
+
+const parameters: Parameter[] = [
+  {
+    name: 'width',
+    displayName: 'Width',
+    type: 'number',
+    value: 10,
+    defaultValue: 10,
+  },
+  {
+    name: 'label',
+    displayName: 'Label',
+    type: 'string',
+    value: 'Hi',
+    defaultValue: 'Hi',
+  },
+  {
+    name: 'rounded',
+    displayName: 'Rounded',
+    type: 'boolean',
+    value: true,
+    defaultValue: true,
+  },
+  {
+    name: 'size',
+    displayName: 'Size',
+    type: 'number[]',
+    value: [1, 2],
+    defaultValue: [1, 2],
+  },
+];
+
+const file = (parameterSets: unknown) =>
+  JSON.stringify({ parameterSets, fileFormatVersion: '1' });
+
+describe('exportParameterSets', () => {
+  it('round trips through importParameterSets', () => {
+    const presets = [
+      createPreset('current', parameters),
+      { name: 'small', values: { width: 2.5, label: 'A "b"', size: [3, 4] } },
+    ];
+    expect(
+      importParameterSets(exportParameterSets(presets), parameters),
+    ).toEqual(presets);
+  });
+
+  it('stores every value as a string', () => {
+    const json = JSON.parse(
+      exportParameterSets([createPreset('a', parameters)]),
+    );
+    expect(json.parameterSets.a).toEqual({
+      width: '10',
+      label: 'Hi',
+      rounded: 'true',
+      size: '[1, 2]',
+    });
+  });
+});
+
+describe('importParameterSets', () => {
+  it('drops unknown parameters and values of the wrong type', () => {
+    const [preset] = importParameterSets(
+      file({
+        a: {
+          width: 'wide',
+          label: 'x',
+          rounded: 'yes',
+          size: '[1]',
+          other: '1',
+        },
+      }),
+      parameters,
+    );
+    expect(preset).toEqual({ name: 'a', values: { label: 'x', size: [1] } });
+  });
+
+  it('rejects files that are not parameter sets', () => {
+    expect(() => importParameterSets('{', parameters)).toThrow(
+      PresetImportError,
+    );
+    expect(() => importParameterSets('null', parameters)).toThrow(
+      PresetImportError,
+    );
+    expect(() => importParameterSets('{}', parameters)).toThrow(
+      PresetImportError,
+    );
+    expect(() => importParameterSets(file(null), parameters)).toThrow(
+      PresetImportError,
+    );
+    expect(() => importParameterSets(file([]), parameters)).toThrow(
+      PresetImportError,
+    );
+  });
+
+  it('skips sets that are not objects', () => {
+    const presets = importParameterSets(
+      file({ a: 1, b: 'text', c: null, d: ['10'], e: { width: '5' } }),
+      parameters,
+    );
+    expect(presets).toEqual([{ name: 'e', values: { width: 5 } }]);
+  });
+});
+
+describe('mergePresets', () => {
+  it('replaces presets by name and appends new ones', () => {
+    const a: ParameterPreset = { name: 'a', values: { width: 1 } };
+    const b: ParameterPreset = { name: 'b', values: { width: 2 } };
+    const newA: ParameterPreset = { name: 'a', values: { width: 3 } };
+    const c: ParameterPreset = { name: 'c', values: { width: 4 } };
+    expect(mergePresets([a, b], [c, newA])).toEqual([newA, b, c]);
+  });
+});
+
+describe('matchesPreset', () => {
+  it('compares only the values the preset sets', () => {
+    expect(
+      matchesPreset(parameters, { name: 'a', values: { width: 10 } }),
+    ).toBe(true);
+    expect(
+      matchesPreset(parameters, { name: 'a', values: { size: [1, 3] } }),
+    ).toBe(false);
+  });
+});
+
+describe('carryOverPresets', () => {
+  it('drops values that no longer fit and empty presets', () => {
+    const presets: ParameterPreset[] = [
+      { name: 'a', values: { width: 'wide', label: 'x' } },
+      { name: 'b', values: { size: 3, gone: 1 } },
+    ];
+    expect(carryOverPresets(presets, parameters)).toEqual([
+      { name: 'a', values: { label: 'x' } },
+    ]);
+  });
+});
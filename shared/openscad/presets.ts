@@ -0,0 +1,187 @@
+/**
+ * Parameter presets in OpenSCAD's Customizer `parameterSets` JSON format
+ *
+ * OpenSCAD stores every value as a string:
+ * {
+ *   "parameterSets": { "small": { "width": "10", "label": "Hi", "size": "[1, 2]" } },
+ *   "fileFormatVersion": "1"
+ * }
+ */
+
+import type { Parameter, ParameterPreset } from '../types.ts';
+import { formatValue, literalValue } from './parameters.ts';
+import { parseExpression } from './parser.ts';
+
+export type ParameterSetsFile = {
+  parameterSets: Record<string, Record<string, string>>;
+  fileFormatVersion: string;
+};
+
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+function toSetValue(value: Parameter['value']): string {
+  // Strings are stored without quotes, everything else as OpenSCAD source
+  return typeof value === 'string' ? value : formatValue(value);
+}
+
+/**
+ * Convert a `parameterSets` value back to a value of the parameter's type.
+ * Returns `undefined` if the value does not fit the parameter.
+ */
+function fromSetValue(
+  raw: unknown,
+  parameter: Parameter,
+): Parameter['value'] | undefined {
+  const text = String(raw);
+  const type = parameter.type ?? 'string';
+
+  if (type === 'string') return text;
+  if (type === 'number') {
+    const value = parseFloat(text);
+    return isNaN(value) ? undefined : value;
+  }
+  if (type === 'boolean') {
+    if (text === 'true' || text === 'false') return text === 'true';
+    return undefined;
+  }
+
+  // Vectors
+  try {
+    const literal = literalValue(parseExpression(text));
+    return literal?.type === type ? literal.value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function createPreset(
+  name: string,
+  parameters: Parameter[],
+): ParameterPreset {
+  return {
+    name,
+    values: Object.fromEntries(parameters.map((p) => [p.name, p.value])),
+  };
+}
+
+/**
+ * Whether the parameters currently hold exactly the values of the preset.
+ */
+export function matchesPreset(
+  parameters: Parameter[],
+  preset: ParameterPreset,
+): boolean {
+  return parameters.every(
+    (parameter) =>
+      !(parameter.name in preset.values) ||
+      JSON.stringify(preset.values[parameter.name]) ===
+        JSON.stringify(parameter.value),
+  );
+}
+
+export function exportParameterSets(presets: ParameterPreset[]): string {
+  const file: ParameterSetsFile = {
+    parameterSets: Object.fromEntries(
+      presets.map((preset) => [
+        preset.name,
+        Object.fromEntries(
+          Object.entries(preset.values).map(([name, value]) => [
+            name,
+            toSetValue(value),
+          ]),
+        ),
+      ]),
+    ),
+    fileFormatVersion: '1',
+  };
+  return JSON.stringify(file, null, 4);
+}
+
+/**
+ * Parse a `parameterSets` JSON file. Sets that aren't objects, values for
+ * unknown parameters and values that don't match the parameter's type are
+ * dropped.
+ */
+export function importParameterSets(
+  json: string,
+  parameters: Parameter[],
+): ParameterPreset[] {
+  let file: Partial<ParameterSetsFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new PresetImportError('File is not valid JSON');
+  }
+
+  if (
+    !file ||
+    typeof file.parameterSets !== 'object' ||
+    file.parameterSets === null ||
+    Array.isArray(file.parameterSets)
+  ) {
+    throw new PresetImportError('File does not contain any parameterSets');
+  }
+
+  return Object.entries<unknown>(file.parameterSets)
+    .filter(
+      (entry): entry is [string, Record<string, unknown>] =>
+        typeof entry[1] === 'object' &&
+        entry[1] !== null &&
+        !Array.isArray(entry[1]),
+    )
+    .map(([name, set]) => {
+      const values: ParameterPreset['values'] = {};
+      parameters.forEach((parameter) => {
+        if (!(parameter.name in set)) return;
+        const value = fromSetValue(set[parameter.name], parameter);
+        if (value !== undefined) values[parameter.name] = value;
+      });
+      return { name, values };
+    });
+}
+
+/**
+ * Add or replace presets by name, keeping the order of existing presets.
+ */
+export function mergePresets(
+  existing: ParameterPreset[],
+  incoming: ParameterPreset[],
+): ParameterPreset[] {
+  const merged = existing.map(
+    (preset) => incoming.find((p) => p.name === preset.name) ?? preset,
+  );
+  incoming.forEach((preset) => {
+    if (!merged.some((p) => p.name === preset.name)) merged.push(preset);
+  });
+  return merged;
+}
+
+/**
+ * Keep presets usable after the code was regenerated: values for parameters
+ * that no longer exist or changed type are dropped, empty presets removed.
+ */
+export function carryOverPresets(
+  presets: ParameterPreset[],
+  parameters: Parameter[],
+): ParameterPreset[] {
+  return presets
+    .map((preset) => ({
+      name: preset.name,
+      values: Object.fromEntries(
+        Object.entries(preset.values).filter(([name, value]) => {
+          const parameter = parameters.find((p) => p.name === name);
+          return (
+            parameter &&
+            typeof parameter.value === typeof value &&
+            Array.isArray(parameter.value) === Array.isArray(value)
+          );
+        }),
+      ),
+    }))
+    .filter((preset) => Object.keys(preset.values).length > 0);
+}
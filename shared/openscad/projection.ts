@@ -0,0 +1,49 @@
+/**
+ * Cross-sections of 3D models
+ *
+ * OpenSCAD can only write DXF/SVG for 2D geometry. To export a 3D model as a
+ * flat drawing, its geometry is wrapped in `projection(cut = true)` so the
+ * outline at a given Z height is exported instead.
+ */
+
+import type { Statement } from './ast.ts';
+import { parse } from './parser.ts';
+
+// Statements that define something rather than produce geometry
+const isDefinition = (statement: Statement) =>
+  statement.type === 'Assignment' ||
+  statement.type === 'ModuleDefinition' ||
+  statement.type === 'FunctionDefinition' ||
+  statement.type === 'Include';
+
+/**
+ * Rewrite the code so it produces the cross-section of the model at `z`.
+ * Definitions stay at the top level; all top-level geometry moves into the
+ * projection.
+ */
+export function crossSectionAt(code: string, z: number): string {
+  const program = parse(code);
+  const geometry = program.body.filter((statement) => !isDefinition(statement));
+
+  let definitions = '';
+  let offset = 0;
+  geometry.forEach((statement) => {
+    definitions += code.slice(offset, statement.start.offset);
+    offset = statement.end.offset;
+  });
+  definitions += code.slice(offset);
+
+  const body = geometry
+    .map((statement) =>
+      code.slice(statement.start.offset, statement.end.offset),
+    )
+    .join('\n');
+
+  return `${definitions}
+
+projection(cut = true)
+translate([0, 0, ${-z}]) {
+${body}
+}
+`;
+}
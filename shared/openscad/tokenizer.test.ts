@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { OpenSCADSyntaxError, tokenize } from './tokenizer.ts';
+
+const stringValue = (source: string) =>
+  tokenize(source).tokens.find((token) => token.type === 'string')?.value;
+
+describe('tokenize', () => {
+  it('reads numbers, identifiers, keywords and operators', () => {
+    const { tokens } = tokenize('$fn = .5e2 <= x && true;');
+    expect(tokens.map(({ type, value }) => [type, value])).toEqual([
+      ['identifier', '$fn'],
+      ['punctuation', '='],
+      ['number', '.5e2'],
+      ['punctuation', '<='],
+      ['identifier', 'x'],
+      ['punctuation', '&&'],
+      ['keyword', 'true'],
+      ['punctuation', ';'],
+      ['eof', ''],
+    ]);
+  });
+
+  it('collects comments apart from the tokens', () => {
+    const { tokens, comments } = tokenize('/* [Size] */\nw = 1; // [0:10]');
+    expect(tokens).toHaveLength(5);
+    expect(comments.map(({ kind, text }) => [kind, text])).toEqual([
+      ['block', ' [Size] '],
+      ['line', ' [0:10]'],
+    ]);
+  });
+
+  it('tracks lines and columns', () => {
+    const { tokens } = tokenize('a = 1;\n  b = 2;');
+    expect(tokens[4].start).toEqual({ offset: 9, line: 2, column: 3 });
+  });
+
+  it('reads include paths', () => {
+    const { tokens } = tokenize('include <BOSL2/std.scad>');
+    expect(tokens[1]).toMatchObject({ type: 'path', value: 'BOSL2/std.scad' });
+  });
+
+  describe('string escapes', () => {
+    it('decodes character escapes', () => {
+      expect(stringValue(String.raw`"a\nb\t\"c\\"`)).toBe('a\nb\t"c\\');
+    });
+
+    it('decodes hex and unicode escapes', () => {
+      expect(stringValue(String.raw`"\x41é\U01F600"`)).toBe('Aé😀');
+    });
+
+    it('keeps malformed escapes as written', () => {
+      expect(stringValue(String.raw`"\uZZZZ"`)).toBe(String.raw`\uZZZZ`);
+      expect(stringValue(String.raw`"\xG1"`)).toBe(String.raw`\xG1`);
+      expect(stringValue(String.raw`"\u12"`)).toBe(String.raw`\u12`);
+    });
+
+    it('keeps out of range code points as written', () => {
+      expect(stringValue(String.raw`"\U110000"`)).toBe(String.raw`\U110000`);
+    });
+  });
+
+  it('reports unterminated strings and comments', () => {
+    expect(() => tokenize('"abc')).toThrow(OpenSCADSyntaxError);
+    expect(() => tokenize('/* abc')).toThrow(OpenSCADSyntaxError);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * OpenSCAD tokenizer
+ *
+ * Splits OpenSCAD source into tokens with source positions. Comments are not
+ * part of the token stream but are collected separately, because the
+ * Customizer annotations (`// [0:10]`, `/* [Group] *\/`) live in comments.
+ */
+
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'identifier'
+  | 'keyword'
+  | 'path'
+  | 'punctuation'
+  | 'eof';
+
+export type SourcePosition = {
+  offset: number;
+  line: number; // 1-based
+  column: number; // 1-based
+};
+
+export type Token = {
+  type: TokenType;
+  value: string;
+  start: SourcePosition;
+  end: SourcePosition;
+};
+
+export type Comment = {
+  kind: 'line' | 'block';
+  // Comment text without the `//` or `/* */` delimiters
+  text: string;
+  start: SourcePosition;
+  end: SourcePosition;
+};
+
+export const KEYWORDS = new Set([
+  'module',
+  'function',
+  'if',
+  'else',
+  'for',
+  'let',
+  'each',
+  'true',
+  'false',
+  'undef',
+  'include',
+  'use',
+]);
+
+// Longest operators first so that `<=` wins over `<`
+const OPERATORS = [
+  '<=',
+  '>=',
+  '==',
+  '!=',
+  '&&',
+  '||',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ',',
+  ';',
+  '=',
+  ':',
+  '?',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '^',
+  '<',
+  '>',
+  '.',
+  '#',
+];
+
+export class OpenSCADSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, position: SourcePosition) {
+    super(`${message} (line ${position.line}, column ${position.column})`);
+    this.name = 'OpenSCADSyntaxError';
+    this.line = position.line;
+    this.column = position.column;
+  }
+}
+
+export function tokenize(source: string): {
+  tokens: Token[];
+  comments: Comment[];
+} {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): SourcePosition => ({ offset, line, column });
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  const push = (type: TokenType, value: string, start: SourcePosition) => {
+    tokens.push({ type, value, start, end: position() });
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const next = source[offset + 1];
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      advance();
+      continue;
+    }
+
+    // Line comment
+    if (char === '/' && next === '/') {
+      const start = position();
+      advance(2);
+      const textStart = offset;
+      while (offset < source.length && source[offset] !== '\n') {
+        advance();
+      }
+      comments.push({
+        kind: 'line',
+        text: source.slice(textStart, offset),
+        start,
+        end: position(),
+      });
+      continue;
+    }
+
+    // Block comment
+    if (char === '/' && next === '*') {
+      const start = position();
+      advance(2);
+      const textStart = offset;
+      while (
+        offset < source.length &&
+        !(source[offset] === '*' && source[offset + 1] === '/')
+      ) {
+        advance();
+      }
+      if (offset >= source.length) {
+        throw new OpenSCADSyntaxError('Unterminated block comment', start);
+      }
+      const text = source.slice(textStart, offset);
+      advance(2);
+      comments.push({ kind: 'block', text, start, end: position() });
+      continue;
+    }
+
+    // Number: 12, 1.5, .5, 1e-3
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(next ?? ''))) {
+      const start = position();
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(
+        source.slice(offset),
+      );
+      const text = match ? match[0] : char;
+      advance(text.length);
+      push('number', text, start);
+      continue;
+    }
+
+    // Identifier or keyword ($fn, $children, etc. are identifiers)
+    if (/[A-Za-z_$]/.test(char)) {
+      const start = position();
+      const match = /^\$?[A-Za-z0-9_]+|^\$/.exec(source.slice(offset));
+      const text = match ? match[0] : char;
+      advance(text.length);
+      push(KEYWORDS.has(text) ? 'keyword' : 'identifier', text, start);
+
+      // `include <file>` and `use <file>` take a path, not an expression
+      if (text === 'include' || text === 'use') {
+        while (offset < source.length && /[ \t]/.test(source[offset])) {
+          advance();
+        }
+        if (source[offset] === '<') {
+          const pathStart = position();
+          advance();
+          const valueStart = offset;
+          while (
+            offset < source.length &&
+            source[offset] !== '>' &&
+            source[offset] !== '\n'
+          ) {
+            advance();
+          }
+          if (source[offset] !== '>') {
+            throw new OpenSCADSyntaxError(
+              'Unterminated include path',
+              pathStart,
+            );
+          }
+          const value = source.slice(valueStart, offset);
+          advance();
+          push('path', value, pathStart);
+        }
+      }
+      continue;
+    }
+
+    // String literal
+    if (char === '"') {
+      const start = position();
+      advance();
+      let value = '';
+      while (offset < source.length && source[offset] !== '"') {
+        if (source[offset] === '\\') {
+          const escaped = source[offset + 1];
+          if (escaped === 'n') value += '\n';
+          else if (escaped === 't') value += '\t';
+          else if (escaped === 'r') value += '\r';
+          else if (escaped === 'x' || escaped === 'u' || escaped === 'U') {
+            const length = { x: 2, u: 4, U: 6 }[escaped];
+            const hex = source.slice(offset + 2, offset + 2 + length);
+            const codePoint = new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)
+              ? parseInt(hex, 16)
+              : NaN;
+            // Malformed or out of range escapes stay as they are written
+            if (codePoint <= 0x10ffff) {
+              value += String.fromCodePoint(codePoint);
+              advance(length);
+            } else {
+              value += `\\${escaped}`;
+            }
+          } else value += escaped ?? '';
+          advance(2);
+          continue;
+        }
+        value += source[offset];
+        advance();
+      }
+      if (offset >= source.length) {
+        throw new OpenSCADSyntaxError('Unterminated string', start);
+      }
+      advance();
+      push('string', value, start);
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, offset));
+    if (operator) {
+      const start = position();
+      advance(operator.length);
+      push('punctuation', operator, start);
+      continue;
+    }
+
+    throw new OpenSCADSyntaxError(`Unexpected character '${char}'`, position());
+  }
+
+  const end = position();
+  tokens.push({ type: 'eof', value: '', start: end, end });
+
+  return { tokens, comments };
+}
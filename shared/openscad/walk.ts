@@ -0,0 +1,112 @@
+/**
+ * Generic traversal helpers for the OpenSCAD AST
+ */
+
+import type {
+  Argument,
+  ComprehensionElement,
+  Expression,
+  ParameterDeclaration,
+  Statement,
+} from './ast.ts';
+
+export type ExpressionNode = Expression | ComprehensionElement;
+
+const argumentValues = (args: Argument[]) => args.map((arg) => arg.value);
+
+const defaultValues = (params: ParameterDeclaration[]) =>
+  params
+    .map((param) => param.defaultValue)
+    .filter((value): value is Expression => value !== undefined);
+
+/**
+ * Direct child expressions of an expression or comprehension element.
+ */
+export function expressionChildren(node: ExpressionNode): ExpressionNode[] {
+  switch (node.type) {
+    case 'Vector':
+      return node.elements;
+    case 'Range':
+      return node.step ? [node.from, node.step, node.to] : [node.from, node.to];
+    case 'Unary':
+      return [node.operand];
+    case 'Binary':
+      return [node.left, node.right];
+    case 'Ternary':
+      return [node.test, node.consequent, node.alternate];
+    case 'Call':
+      return [node.callee, ...argumentValues(node.args)];
+    case 'Index':
+      return [node.object, node.index];
+    case 'Member':
+      return [node.object];
+    case 'Let':
+    case 'LetComprehension':
+    case 'ForComprehension':
+      return [...argumentValues(node.assignments), node.body];
+    case 'Echo':
+    case 'Assert':
+      return node.body
+        ? [...argumentValues(node.args), node.body]
+        : argumentValues(node.args);
+    case 'FunctionLiteral':
+      return [...defaultValues(node.params), node.body];
+    case 'IfComprehension':
+      return node.alternate
+        ? [node.condition, node.consequent, node.alternate]
+        : [node.condition, node.consequent];
+    case 'EachComprehension':
+      return [node.body];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Visit an expression and all of its descendants, depth-first.
+ */
+export function walkExpression(
+  node: ExpressionNode,
+  visit: (node: ExpressionNode) => void,
+): void {
+  visit(node);
+  expressionChildren(node).forEach((child) => walkExpression(child, visit));
+}
+
+/**
+ * Expressions directly contained in a statement (not those of nested
+ * statements).
+ */
+export function statementExpressions(statement: Statement): Expression[] {
+  switch (statement.type) {
+    case 'Assignment':
+      return [statement.value];
+    case 'FunctionDefinition':
+      return [...defaultValues(statement.params), statement.body];
+    case 'ModuleDefinition':
+      return defaultValues(statement.params);
+    case 'ModuleInstantiation':
+      return argumentValues(statement.args);
+    case 'If':
+      return [statement.condition];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Nested statements of a statement.
+ */
+export function statementChildren(statement: Statement): Statement[] {
+  switch (statement.type) {
+    case 'ModuleDefinition':
+    case 'Block':
+      return statement.body;
+    case 'ModuleInstantiation':
+      return statement.children;
+    case 'If':
+      return [...statement.consequent, ...(statement.alternate ?? [])];
+    default:
+      return [];
+  }
+}
@@ -13,9 +13,11 @@ export type CoreMessage = Pick<Message, 'id' | 'role' | 'content'>;
 
 export type ToolCall = {
   name: string;
-  status: 'pending' | 'error';
+  status: 'pending' | 'success' | 'error';
   id?: string;
   result?: { id: string };
+  // Short explanation shown with the status, e.g. the first compile error
+  detail?: string;
 };
 
 export type Content = {
@@ -30,13 +32,57 @@ export type Content = {
   stl_files?: string[];
   // For streaming support - shows in-progress tool calls
   toolCalls?: ToolCall[];
+  // Requested design mode, falls back to the mode of the previous artifact
+  mode?: DesignMode;
+  // Partial output while the assistant is still generating
+  draft?: DraftContent;
+  // The user stopped the generation before it finished
+  cancelled?: boolean;
+  // Parsed compiler output sent along with a fix with AI request
+  diagnostics?: Diagnostic[];
 };
 
+// A located frame of an OpenSCAD TRACE, innermost call first
+export type DiagnosticFrame = {
+  // Called module or function, e.g. `cube` or `wall()`
+  name: string;
+  line?: number;
+  file?: string;
+};
+
+export type Diagnostic = {
+  severity: 'error' | 'warning';
+  message: string;
+  // Lines and columns are 1-based and refer to the compiled code, unless the
+  // message comes from another file such as an included library
+  line?: number;
+  column?: number;
+  file?: string;
+  callStack: DiagnosticFrame[];
+};
+
+export type DraftContent = {
+  status: 'thinking' | 'writing';
+  // Code written so far, may end mid-statement
+  code: string;
+};
+
+// '2d' designs are flat vector shapes (laser cutting, CNC), rendered as SVG
+export type DesignMode = '3d' | '2d';
+
 export type ParametricArtifact = {
   title: string;
   version: string;
   code: string;
   parameters: Parameter[];
+  presets?: ParameterPreset[];
+  mode?: DesignMode;
+};
+
+// Named set of parameter values ("small", "printer A", ...)
+export type ParameterPreset = {
+  name: string;
+  values: Record<string, Parameter['value']>;
 };
 
 export type ParameterOption = { value: string | number; label: string };
@@ -116,7 +162,16 @@ export type QualityMetrics = {
 };
 
 export type FeedbackType = 'star_rating' | 'thumbs_up' | 'thumbs_down' | 'comment' | 'export';
-export type ExportType = 'stl' | 'scad' | 'png' | 'svg';
+export type ExportType =
+  | 'stl' // binary STL
+  | 'asciistl'
+  | '3mf'
+  | 'off'
+  | 'amf'
+  | 'dxf'
+  | 'svg'
+  | 'scad'
+  | 'png';
 
 export type UserFeedback = {
   id?: string;
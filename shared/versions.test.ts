@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from './types.ts';
+import {
+  artifactVersions,
+  formatVersion,
+  isParameterOnlyChange,
+  nextArtifactVersion,
+} from './versions.ts';
+
+let clock = 0;
+
+function message(
+  id: string,
+  parent: string | null,
+  code?: string,
+): Pick<
+  Message,
+  'id' | 'parent_message_id' | 'role' | 'content' | 'created_at'
+> {
+  clock += 1;
+  return {
+    id,
+    parent_message_id: parent,
+    role: code === undefined ? 'user' : 'assistant',
+    content:
+      code === undefined
+        ? { text: id }
+        : {
+            text: id,
+            artifact: { title: id, version: '', code, parameters: [] },
+          },
+    created_at: new Date(clock * 1000).toISOString(),
+  };
+}
+
+const box = 'width = 10; // [0:100]\ncube(width);';
+const wideBox = 'width = 20; // [0:100]\ncube(width);';
+const sphere = 'r = 5;\nsphere(r);';
+
+describe('formatVersion', () => {
+  it('leaves out minor version 0', () => {
+    expect(formatVersion({ major: 2, minor: 0 })).toBe('v2');
+    expect(formatVersion({ major: 2, minor: 1 })).toBe('v2.1');
+  });
+});
+
+describe('isParameterOnlyChange', () => {
+  it('accepts changed values and number formatting', () => {
+    expect(isParameterOnlyChange(box, wideBox)).toBe(true);
+    expect(
+      isParameterOnlyChange(box, 'width = 10.0; // [0:100]\ncube(width);'),
+    ).toBe(true);
+  });
+
+  it('rejects changed geometry or parameters', () => {
+    expect(isParameterOnlyChange(box, 'width = 10;\nsphere(width);')).toBe(
+      false,
+    );
+    expect(isParameterOnlyChange(box, `depth = 1;\n${box}`)).toBe(false);
+  });
+});
+
+describe('artifactVersions', () => {
+  it('numbers designs, parameter edits and restored designs', () => {
+    const messages = [
+      message('u1', null),
+      message('a1', 'u1', box),
+      message('a2', 'a1', wideBox),
+      message('u2', 'a2'),
+      message('a3', 'u2', sphere),
+      message('a4', 'a3', 'r = 8;\nsphere(r);'),
+      message('u3', 'a4'),
+      message('a5', 'u3', box),
+    ];
+    expect(Object.fromEntries(artifactVersions(messages))).toEqual({
+      a1: 'v1',
+      a2: 'v1.1',
+      a3: 'v2',
+      a4: 'v2.1',
+      a5: 'v1',
+    });
+  });
+
+  it('gives retries on another branch their own version', () => {
+    const messages = [
+      message('u1', null),
+      message('a1', 'u1', box),
+      message('a2', 'u1', sphere),
+      message('a3', 'a1', wideBox),
+      message('a4', 'a2', 'r = 8;\nsphere(r);'),
+    ];
+    expect(Object.fromEntries(artifactVersions(messages))).toEqual({
+      a1: 'v1',
+      a2: 'v2',
+      a3: 'v1.1',
+      a4: 'v2.1',
+    });
+  });
+});
+
+describe('nextArtifactVersion', () => {
+  const messages = [
+    message('u1', null),
+    message('a1', 'u1', box),
+    message('a2', 'a1', wideBox),
+  ];
+
+  it('counts minor versions across the whole design', () => {
+    expect(
+      nextArtifactVersion(
+        messages,
+        'a1',
+        'width = 30; // [0:100]\ncube(width);',
+      ),
+    ).toBe('v1.2');
+  });
+
+  it('starts a new major version for structural changes', () => {
+    expect(nextArtifactVersion(messages, 'a2', sphere)).toBe('v2');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Artifact versions
+ *
+ * Versions are derived from the message tree rather than trusted from the
+ * stored artifact, so older conversations get correct numbers too:
+ * - a new design or a structural change gets the next major version (v3)
+ * - a change that only touches parameter values gets a minor version (v2.1)
+ * - restoring an earlier design keeps the version it had
+ *
+ * Numbers are unique within a conversation, retries on another branch get
+ * their own major version.
+ */
+
+import type { Message } from './types.ts';
+import Tree from './Tree.ts';
+import type { Assignment } from './openscad/ast.ts';
+import { parseParameters } from './openscad/parameters.ts';
+import { parse } from './openscad/parser.ts';
+
+type Version = { major: number; minor: number };
+
+type VersionedMessage = Pick<
+  Message,
+  'id' | 'parent_message_id' | 'role' | 'content' | 'created_at'
+>;
+
+export function formatVersion({ major, minor }: Version): string {
+  return minor > 0 ? `v${major}.${minor}` : `v${major}`;
+}
+
+// The code without the values of the parameters, so values and the way they
+// are written don't count when comparing
+function withoutValues(code: string, names: string[]): string {
+  const assignments = new Map<string, Assignment>();
+  parse(code).body.forEach((statement) => {
+    if (statement.type === 'Assignment' && names.includes(statement.name)) {
+      assignments.set(statement.name, statement);
+    }
+  });
+
+  let result = '';
+  let offset = 0;
+  [...assignments.values()]
+    .sort((a, b) => a.value.start.offset - b.value.start.offset)
+    .forEach(({ value }) => {
+      result += code.slice(offset, value.start.offset);
+      offset = value.end.offset;
+    });
+  return result + code.slice(offset);
+}
+
+/**
+ * Whether `next` only differs from `previous` in the values of its
+ * top-level parameters.
+ */
+export function isParameterOnlyChange(previous: string, next: string) {
+  if (previous === next) return true;
+
+  const names = parseParameters(next).map((p) => p.name);
+  const previousNames = parseParameters(previous).map((p) => p.name);
+  if (
+    names.length !== previousNames.length ||
+    !names.every((name) => previousNames.includes(name))
+  ) {
+    return false;
+  }
+
+  return withoutValues(previous, names) === withoutValues(next, names);
+}
+
+class VersionCounter {
+  private tree: Tree<VersionedMessage>;
+  private versions = new Map<string, Version>();
+  private latestMajor = 0;
+  private latestMinor = new Map<number, number>();
+
+  constructor(messages: VersionedMessage[]) {
+    this.tree = new Tree(messages);
+
+    // Parents are always created before their children
+    [...messages]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .forEach((message) => {
+        const code = message.content.artifact?.code;
+        if (message.role !== 'assistant' || code === undefined) return;
+        this.versions.set(
+          message.id,
+          this.next(message.parent_message_id, code),
+        );
+      });
+  }
+
+  get(id: string) {
+    return this.versions.get(id);
+  }
+
+  next(parentId: string | null, code: string): Version {
+    const ancestors = (parentId ? this.tree.getPath(parentId) : [])
+      .filter((m) => this.versions.has(m.id))
+      .reverse();
+
+    const restored = ancestors.find((m) => m.content.artifact?.code === code);
+    if (restored) return this.versions.get(restored.id)!;
+
+    const previous = ancestors[0];
+    if (
+      previous &&
+      isParameterOnlyChange(previous.content.artifact?.code ?? '', code)
+    ) {
+      const { major } = this.versions.get(previous.id)!;
+      const minor = (this.latestMinor.get(major) ?? 0) + 1;
+      this.latestMinor.set(major, minor);
+      return { major, minor };
+    }
+
+    this.latestMajor += 1;
+    return { major: this.latestMajor, minor: 0 };
+  }
+}
+
+/**
+ * Version of every assistant message with an artifact, by message id
+ */
+export function artifactVersions(
+  messages: VersionedMessage[],
+): Map<string, string> {
+  const counter = new VersionCounter(messages);
+  return new Map(
+    messages.flatMap((message) => {
+      const version = counter.get(message.id);
+      return version ? [[message.id, formatVersion(version)] as const] : [];
+    }),
+  );
+}
+
+/**
+ * Version for a new artifact with `code`, replying to `parentId`
+ */
+export function nextArtifactVersion(
+  messages: VersionedMessage[],
+  parentId: string | null,
+  code: string,
+): string {
+  return formatVersion(new VersionCounter(messages).next(parentId, code));
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+
+export type RevealTarget = {
+  line: number;
+  column?: number;
+};
+
+type CodeEditorContextType = {
+  isCodeEditorOpen: boolean;
+  setIsCodeEditorOpen: (open: boolean) => void;
+  // Last location asked for, a new object each time so repeats still scroll
+  revealTarget: RevealTarget | null;
+  // Open the code editor and move the cursor to the location
+  revealLine: (target: RevealTarget) => void;
+};
+
+export const CodeEditorContext = createContext<CodeEditorContextType>({
+  isCodeEditorOpen: false,
+  setIsCodeEditorOpen: () => {},
+  revealTarget: null,
+  revealLine: () => {},
+});
+
+export const useCodeEditor = () => {
+  const context = useContext(CodeEditorContext);
+  if (!context) {
+    throw new Error('useCodeEditor must be used within a CodeEditorProvider');
+  }
+  return context;
+};
@@ -15,6 +15,7 @@ import { Content, Conversation } from '@shared/types';
 import { HistoryConversation } from '@/types/misc';
 import { ConversationCard } from '@/features/history/ConversationCard';
 import { RenameDialogDrawer } from '@/features/history/RenameDialogDrawer';
+import { VersionMenu } from '@/features/history/VersionMenu';
 import { getRecentVoiceSessionsWithDetails, VoiceSessionDisplay } from '@/services/voiceSessionService';
 import { formatVoiceSessionTime } from '@/lib/dateUtils';
 
@@ -371,17 +372,24 @@ export function HistoryView() {
                           )}
                           <div className="space-y-2">
                             {convs.map((conversation) => (
-                              <ConversationCard
+                              <div
                                 key={conversation.id}
-                                conversation={conversation}
-                                onDelete={(id) => deleteConversation.mutate(id)}
-                                onRename={(_id, title) => {
-                                  setEditingConversation(conversation);
-                                  setNewTitle(title);
-                                  setOpen(true);
-                                }}
-                                isEditing={!!editingConversation}
-                              />
+                                className="flex items-center gap-2"
+                              >
+                                <div className="min-w-0 flex-1">
+                                  <ConversationCard
+                                    conversation={conversation}
+                                    onDelete={(id) => deleteConversation.mutate(id)}
+                                    onRename={(_id, title) => {
+                                      setEditingConversation(conversation);
+                                      setNewTitle(title);
+                                      setOpen(true);
+                                    }}
+                                    isEditing={!!editingConversation}
+                                  />
+                                </div>
+                                <VersionMenu conversationId={conversation.id} />
+                              </div>
                             ))}
                           </div>
                         </div>
@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import { Parameter } from '@shared/types';
+
+// Parameter values being edited, compiled as `-D` overrides of `code` until
+// they are saved into it
+export type ParameterOverrides = {
+  code: string;
+  parameters: Parameter[];
+};
+
+type ParameterOverridesContextType = {
+  overrides: ParameterOverrides | null;
+  setOverrides: (overrides: ParameterOverrides | null) => void;
+};
+
+export const ParameterOverridesContext =
+  createContext<ParameterOverridesContextType>({
+    overrides: null,
+    setOverrides: () => {},
+  });
+
+export const useParameterOverrides = () => {
+  const context = useContext(ParameterOverridesContext);
+  if (!context) {
+    throw new Error(
+      'useParameterOverrides must be used within a ParameterOverridesProvider',
+    );
+  }
+  return context;
+};
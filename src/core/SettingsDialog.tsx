@@ -0,0 +1,72 @@
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/ui/dialog';
+import { Button } from '@/ui/button';
+import {
+  useClearCompileCache,
+  useCompileCacheUsage,
+} from '@/hooks/useCompileCache';
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
+  const { data: usage } = useCompileCacheUsage({ enabled: open });
+  const { mutate: clearCache, isPending: isClearing } = useClearCompileCache();
+
+  const handleClearCache = () =>
+    clearCache(undefined, {
+      onSuccess: () => toast.success('Compile cache cleared'),
+      onError: () => toast.error('Failed to clear the compile cache'),
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Preferences stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-pierre-neutral-700 p-3">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-pierre-text-primary">
+              Compile cache
+            </p>
+            <p className="text-xs text-pierre-text-secondary">
+              Models compiled before open instantly.{' '}
+              {usage
+                ? `${usage.entries} cached, ${formatBytes(usage.bytes)}`
+                : '…'}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isClearing || usage?.entries === 0}
+            onClick={handleClearCache}
+          >
+            {isClearing && (
+              <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+            )}
+            Clear
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
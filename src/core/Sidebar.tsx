@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Plus, MessageSquare, Mic, Clock, LogOut, History } from 'lucide-react';
+import { Plus, MessageSquare, Mic, Clock, LogOut, History, Settings } from 'lucide-react';
 import { Button } from '@/ui/button';
 import {
   Tooltip,
@@ -16,6 +16,7 @@ import {
 } from '@/services/voiceSessionService';
 import { formatRelativeTime, formatVoiceSessionTime } from '@/lib/dateUtils';
 import { toast } from 'sonner';
+import { SettingsDialog } from './SettingsDialog';
 
 interface SidebarProps {
   isSidebarOpen: boolean;
@@ -25,6 +26,7 @@ export function Sidebar({ isSidebarOpen }: SidebarProps) {
   const navigate = useNavigate();
   const { user, firebaseUser, signOut } = useAuth();
   const [imageLoadError, setImageLoadError] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   const handleSignOut = async () => {
     try {
@@ -278,6 +280,25 @@ export function Sidebar({ isSidebarOpen }: SidebarProps) {
       {/* User profile and sign out section */}
       {firebaseUser && (
         <div className={`border-t border-white/5 ${isSidebarOpen ? 'p-4' : 'p-2'} transition-all duration-300 ease-in-out`}>
+          {!isSidebarOpen && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  onClick={() => setIsSettingsOpen(true)}
+                  className="mb-1 w-full h-10 p-0 text-pierre-text-secondary hover:text-pierre-text-primary hover:bg-white/5"
+                >
+                  <Settings className="h-5 w-5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent
+                side="right"
+                className="border-pierre-blue/40 bg-gradient-to-br from-pierre-neutral-900 to-pierre-neutral-950 px-3 py-2 shadow-[0_0_20px_rgba(79,133,255,0.3)]"
+              >
+                <span className="font-semibold text-pierre-text-primary">Settings</span>
+              </TooltipContent>
+            </Tooltip>
+          )}
           <ConditionalWrapper
             condition={!isSidebarOpen}
             wrapper={(children) => (
@@ -324,6 +345,14 @@ export function Sidebar({ isSidebarOpen }: SidebarProps) {
                       {firebaseUser.email}
                     </p>
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsSettingsOpen(true)}
+                    className="flex-shrink-0 h-8 w-8 p-0 text-white/60 hover:text-white hover:bg-white/5"
+                  >
+                    <Settings className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -344,6 +373,10 @@ export function Sidebar({ isSidebarOpen }: SidebarProps) {
               )}
             </div>
           </ConditionalWrapper>
+          <SettingsDialog
+            open={isSettingsOpen}
+            onOpenChange={setIsSettingsOpen}
+          />
         </div>
       )}
     </div>
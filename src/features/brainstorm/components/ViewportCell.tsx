@@ -5,14 +5,20 @@
  * Matches text-to-CAD's clean OpenSCADViewer aesthetic.
  */
 
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Badge } from '@/ui/badge';
 import { Button } from '@/ui/button';
 import { Progress } from '@/ui/progress';
 import { cn } from '@/lib/utils';
-import { Download, FileCode } from 'lucide-react';
+import { Download, FileCode, GitCompare } from 'lucide-react';
 import { downloadSTLFile, downloadOpenSCADFile } from '@/utils/downloadUtils';
-import { type BranchWithModel } from '../contexts/BrainstormContext';
+import { CodeDiffDialog, type DiffVersion } from '@/features/editor/CodeDiffDialog';
+import { type BranchWithModel, useVersionHistory } from '../contexts/BrainstormContext';
 import { ProgressiveModelDisplay } from './ProgressiveModelDisplay';
+import { MetricsPanel } from '@/features/viewer/MetricsPanel';
+import { useMaterialPreference, useMeshMeasurements } from '@/hooks/useMeshMeasurements';
+import { toDesignMetrics } from '@/lib/geometryMetrics';
+import { useUpdateDesignBranch } from '@/services/brainstormService';
 
 interface ViewportCellProps {
   branch: BranchWithModel;
@@ -35,6 +41,43 @@ export function ViewportCell({ branch, index, className, isGenerating = false }:
   // Get version number (use version_number if available, fallback to index + 1)
   const versionNumber = branch.version_number ?? index + 1;
 
+  // Versions with code can be compared against each other
+  const versionHistory = useVersionHistory();
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+  const diffVersions = useMemo<DiffVersion[]>(
+    () =>
+      versionHistory
+        .filter((version) => version.openscad_code)
+        .map((version) => ({
+          id: version.id,
+          label: `v${version.version_number}`,
+          code: version.openscad_code!,
+        })),
+    [versionHistory]
+  );
+  const canCompare = diffVersions.length > 1 && diffVersions.some((v) => v.id === branch.id);
+  const previousVersion = diffVersions[diffVersions.findIndex((v) => v.id === branch.id) - 1];
+
+  // Measure every compiled model and store the result on the branch
+  const measurements = useMeshMeasurements(branch.modelBlob);
+  const { material, setMaterialId } = useMaterialPreference();
+  const metrics = useMemo(
+    () => measurements && toDesignMetrics(measurements, material.density),
+    [measurements, material.density]
+  );
+  const { mutate: updateBranch } = useUpdateDesignBranch();
+  const persistedMetricsRef = useRef<typeof metrics>(null);
+  useEffect(() => {
+    if (!metrics || persistedMetricsRef.current === metrics) return;
+    persistedMetricsRef.current = metrics;
+    updateBranch(
+      { branchId: branch.id, updates: { metrics } },
+      {
+        onError: (error) => console.warn('[ViewportCell] Failed to save metrics:', error),
+      }
+    );
+  }, [metrics, branch.id, updateBranch]);
+
   // Download handlers
   const handleDownloadSTL = () => {
     if (branch.modelBlob) {
@@ -70,6 +113,19 @@ export function ViewportCell({ branch, index, className, isGenerating = false }:
 
         {/* Download Buttons */}
         <div className="flex items-center gap-1">
+          {/* Compare Versions Button */}
+          {canCompare && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 bg-black/60 backdrop-blur-sm border border-white/10 hover:bg-white/10 text-white/90"
+              onClick={() => setIsDiffOpen(true)}
+              title="Compare versions"
+            >
+              <GitCompare className="h-3.5 w-3.5" />
+            </Button>
+          )}
+
           {/* Download SCAD Button */}
           <Button
             variant="ghost"
@@ -119,6 +175,16 @@ export function ViewportCell({ branch, index, className, isGenerating = false }:
         />
       </div>
 
+      {/* Model Metrics - Bottom-left corner */}
+      {displayState === 'complete' && metrics && (
+        <MetricsPanel
+          metrics={metrics}
+          materialId={material.id}
+          onMaterialChange={setMaterialId}
+          className="absolute bottom-4 left-4 z-10"
+        />
+      )}
+
       {/* ✅ FIX: AI Generation Overlay - Shown during AI code generation (prevents unmount) */}
       {isGenerating && !branch.isCompiling && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/60 backdrop-blur-sm z-10">
@@ -138,6 +204,16 @@ export function ViewportCell({ branch, index, className, isGenerating = false }:
           <p className="text-xs opacity-90">{branch.compilationError}</p>
         </div>
       )}
+
+      {canCompare && (
+        <CodeDiffDialog
+          open={isDiffOpen}
+          onOpenChange={setIsDiffOpen}
+          versions={diffVersions}
+          initialBeforeId={previousVersion?.id}
+          initialAfterId={branch.id}
+        />
+      )}
     </div>
   );
 }
@@ -9,6 +9,7 @@ import { ScrollArea } from '@/ui/scroll-area';
 import { Badge } from '@/ui/badge';
 import { type BrainstormVariation } from '@/services/brainstormService';
 import { Parameter } from '@shared/types';
+import { isHiddenParameter } from '@shared/openscad/parameters';
 
 interface VoiceParameterPanelProps {
   variation: BrainstormVariation | null;
@@ -16,9 +17,18 @@ interface VoiceParameterPanelProps {
 }
 
 export function VoiceParameterPanel({ variation, versionNumber = 1 }: VoiceParameterPanelProps) {
-  const parameters = variation?.parameters ?? [];
+  const parameters = (variation?.parameters ?? []).filter(
+    (param) => !isHiddenParameter(param),
+  );
 
   const formatValue = (param: Parameter): string => {
+    const option = param.options?.find((option) => option.value === param.value);
+    if (option) {
+      return option.label;
+    }
+    if (Array.isArray(param.value)) {
+      return `[${param.value.join(', ')}]`;
+    }
     if (typeof param.value === 'number') {
       // Format numbers to 2 decimal places if needed
       return param.value % 1 === 0 ? param.value.toString() : param.value.toFixed(2);
@@ -8,7 +8,9 @@
 import { useCallback, useRef } from 'react';
 import { useBrainstorm } from '../contexts/BrainstormContext';
 import type { BrainstormVariation } from '@/services/brainstormService';
-import { WorkerMessage, WorkerMessageType } from '@/workers/types';
+import { OpenSCADWorkerResponseData } from '@/workers/types';
+import { compilePool } from '@/lib/compilePool';
+import CompileTimeoutError from '@/lib/CompileTimeoutError';
 import { logger } from '@/utils/logger';
 
 interface CompilationResult {
@@ -19,6 +21,7 @@ interface CompilationResult {
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const MAX_COMPILATION_RETRIES = 3;
+const COMPILATION_TIMEOUT_MS = 30000;
 
 /**
  * Call backend regeneration endpoint to fix failed code
@@ -58,67 +61,13 @@ async function regenerateCode(params: {
 }
 
 /**
- * Worker manager for compilations - ALWAYS CREATES FRESH WORKER.
- *
- * FIXED: The original approach of reusing workers caused WASM state corruption.
- * Second compilation would always crash with "WASM crashed unexpectedly".
- *
- * ROOT CAUSE: WASM memory/state becomes corrupted after first compilation.
- * When reused, the corrupted state causes crashes on second request.
- *
- * SOLUTION: Always terminate previous worker and create fresh instance.
- * Trade-off: Slightly slower (~50ms WASM init) but 100% reliable (no crashes).
- */
-class SingleWorkerManager {
-  private worker: Worker | null = null;
-
-  /**
-   * Get a FRESH worker instance (terminates previous worker if exists)
-   */
-  getWorker(): Worker {
-    // Always terminate previous worker to ensure clean WASM state
-    if (this.worker) {
-      console.log('🔧 [SingleWorkerManager] Terminating previous worker for fresh WASM');
-      try {
-        this.worker.terminate();
-      } catch (err) {
-        console.warn('[SingleWorkerManager] Failed to terminate previous worker:', err);
-      }
-      this.worker = null;
-    }
-
-    console.log('🔧 [SingleWorkerManager] Creating fresh worker with clean WASM state');
-    this.worker = new Worker('/src/workers/worker.ts', { type: 'module' });
-    return this.worker;
-  }
-
-  /**
-   * Terminate the worker (used for cleanup/reset)
-   */
-  terminateAll() {
-    if (this.worker) {
-      try {
-        console.log('🔧 [SingleWorkerManager] Terminating worker');
-        this.worker.terminate();
-      } catch (err) {
-        console.warn('[SingleWorkerManager] Failed to terminate worker:', err);
-      }
-      this.worker = null;
-    }
-  }
-}
-
-/**
- * Hook for compilation using single persistent worker (like text-to-CAD)
+ * Hook for compilation on the shared compile pool. Brainstorm renders run in
+ * the background, behind compiles the user is waiting on.
  */
 export function useParallelCompilation() {
   const { updateBranch } = useBrainstorm();
-  const managerRef = useRef<SingleWorkerManager | null>(null);
-
-  // Initialize manager on first use
-  if (!managerRef.current) {
-    managerRef.current = new SingleWorkerManager();
-  }
+  // Aborts compiles still waiting in the queue
+  const abortRef = useRef(new AbortController());
 
   /**
    * Compile a single branch with automatic retry on failure
@@ -134,9 +83,7 @@ export function useParallelCompilation() {
         console.log(`🔧 [useParallelCompilation] Starting compilation for branch: ${branchId} (Attempt ${retryAttempt}/${MAX_COMPILATION_RETRIES})`);
         console.log(`🔧 [useParallelCompilation] Code length: ${code.length}`);
 
-        const worker = managerRef.current!.getWorker();
         let cleanupCalled = false; // ✅ Track if cleanup was already called
-        let timeoutId: NodeJS.Timeout | null = null;
 
         // 🔍 DIAGNOSTIC: Capture branch ID at start for validation
         const startBranchId = branchId;
@@ -149,64 +96,35 @@ export function useParallelCompilation() {
           compilationError: undefined,
         });
 
-        // ✅ REAL TIMEOUT: Kill worker if compilation exceeds 30 seconds
-        const COMPILATION_TIMEOUT_MS = 30000;
-        timeoutId = setTimeout(() => {
-          logger.error('Compilation', `Timeout after ${COMPILATION_TIMEOUT_MS}ms for branch ${branchId}`);
-
-          updateBranch(branchId, {
-            isCompiling: false,
-            compilationProgress: 0,
-            compilationError: 'Compilation timed out after 30 seconds. The design may be too complex.',
-          });
-
-          cleanup();
-
-          // Note: Single worker persists even after timeout - will be reused for next compilation
-          // This matches text-to-CAD behavior and maintains WASM instance persistence
-
-          reject(new Error('Compilation timed out after 30 seconds. The design may be too complex.'));
-        }, COMPILATION_TIMEOUT_MS);
-
-        // ✅ CLEANUP: Remove event listeners (worker persists for reuse)
+        // ✅ CLEANUP: Later results are ignored
         const cleanup = () => {
-          if (cleanupCalled) return; // Prevent double cleanup
           cleanupCalled = true;
-
-          // Clear timeout
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = null;
-          }
-
-          try {
-            worker.removeEventListener('message', handleMessage);
-            worker.removeEventListener('error', handleError);
-            // Worker persists - will be reused for next compilation (like text-to-CAD)
-          } catch (err) {
-            console.warn(`Failed to cleanup listeners for branch ${branchId}:`, err);
-          }
         };
 
-        // Handle messages from worker
-        const handleMessage = async (e: MessageEvent) => {
+        // Handle the result from the compile pool
+        const handleResult = async (result: {
+          data?: OpenSCADWorkerResponseData;
+          // Worker errors arrive as plain objects, not Error instances
+          err?: { name?: string; message?: string; code?: string; stdErr?: string[] };
+        }) => {
+          // Handled already
+          if (cleanupCalled) return;
           try {
-            // Worker sends back: { err?: Error, data: OpenSCADWorkerResponseData }
-            if (e.data.err) {
+            if (result.err) {
               // Compilation failed - Enhanced error logging
-              logger.error('Compilation', e.data.err.message || 'Compilation failed');
+              logger.error('Compilation', result.err.message || 'Compilation failed');
 
               // 🔍 DIAGNOSTIC: Log detailed error information for OpenSCAD failures
-              if (e.data.err.name === 'OpenSCADError') {
+              if (result.err.name === 'OpenSCADError') {
                 console.group('🔍 [OpenSCAD Compilation Error Details]');
                 console.error('Branch ID:', branchId);
-                console.error('Error Message:', e.data.err.message);
+                console.error('Error Message:', result.err.message);
 
                 // Show stderr output with better handling for empty arrays
-                if (e.data.err.stdErr && Array.isArray(e.data.err.stdErr)) {
-                  if (e.data.err.stdErr.length > 0) {
+                if (result.err.stdErr && Array.isArray(result.err.stdErr)) {
+                  if (result.err.stdErr.length > 0) {
                     console.error('OpenSCAD stderr output:');
-                    e.data.err.stdErr.forEach((line: string, i: number) => {
+                    result.err.stdErr.forEach((line: string, i: number) => {
                       console.error(`  ${i + 1}: ${line}`);
                     });
                   } else {
@@ -217,8 +135,8 @@ export function useParallelCompilation() {
                 }
 
                 // Show code complexity analysis if this is a complexity error
-                if (e.data.err.message?.includes('Code complexity error')) {
-                  const code = e.data.err.code || '';
+                if (result.err.message?.includes('Code complexity error')) {
+                  const code = result.err.code || '';
                   const hullCount = (code.match(/hull\s*\(/g) || []).length;
                   const sphereCount = (code.match(/sphere\s*\(/g) || []).length;
                   const cylinderCount = (code.match(/cylinder\s*\(/g) || []).length;
@@ -234,8 +152,8 @@ export function useParallelCompilation() {
                 }
 
                 // 🚨 PATTERN DETECTION: Check for known crash patterns
-                if (e.data.err.code) {
-                  const code = e.data.err.code;
+                if (result.err.code) {
+                  const code = result.err.code;
 
                   // Detect linear_extrude with center=true (known crash pattern)
                   const hasLinearExtrudeCenter = /linear_extrude\s*\([^)]*center\s*=\s*true[^)]*\)/.test(code);
@@ -278,9 +196,9 @@ export function useParallelCompilation() {
                   }
                 }
 
-                if (e.data.err.code) {
+                if (result.err.code) {
                   console.error('Failed OpenSCAD code:');
-                  console.error(e.data.err.code);
+                  console.error(result.err.code);
                 }
 
                 console.groupEnd();
@@ -295,8 +213,8 @@ export function useParallelCompilation() {
                 // Request code regeneration from backend
                 const regeneratedCode = await regenerateCode({
                   originalCode: originalCode || code, // Use original code from first attempt
-                  errorMessage: e.data.err.message || 'Compilation failed',
-                  stderrOutput: e.data.err.stdErr,
+                  errorMessage: result.err.message || 'Compilation failed',
+                  stderrOutput: result.err.stdErr,
                 });
 
                 if (regeneratedCode) {
@@ -323,8 +241,8 @@ export function useParallelCompilation() {
 
               // Final failure: all retries exhausted or regeneration failed
               const errorMsg = retryAttempt >= MAX_COMPILATION_RETRIES
-                ? `Compilation failed after ${MAX_COMPILATION_RETRIES} attempts: ${e.data.err.message || 'Unknown error'}`
-                : e.data.err.message || 'Compilation failed';
+                ? `Compilation failed after ${MAX_COMPILATION_RETRIES} attempts: ${result.err.message || 'Unknown error'}`
+                : result.err.message || 'Compilation failed';
 
               console.error(`❌ [Final Error] ${errorMsg}`);
 
@@ -334,9 +252,9 @@ export function useParallelCompilation() {
                 compilationError: errorMsg,
               });
               reject(new Error(errorMsg));
-            } else if (e.data.data && typeof e.data.data === 'object' && 'output' in e.data.data) {
+            } else if (result.data && typeof result.data === 'object' && 'output' in result.data) {
               // Compilation succeeded
-              const responseData = e.data.data as { output: Uint8Array; fileType: string };
+              const responseData = result.data as { output: Uint8Array; fileType: string };
 
               // 🔍 DIAGNOSTIC: Validate branch ID hasn't changed
               if (branchId !== startBranchId) {
@@ -381,48 +299,46 @@ export function useParallelCompilation() {
           }
         };
 
-        // Handle worker errors
-        const handleError = (error: ErrorEvent) => {
-          try {
-            logger.error('Compilation', `Worker crashed: ${error.message}`);
-            updateBranch(branchId, {
-              isCompiling: false,
-              compilationProgress: 0,
-              compilationError: error.message || 'Worker crashed',
-            });
-            reject(new Error(error.message || 'Worker crashed'));
-          } finally {
-            // ✅ ALWAYS cleanup, even if handler throws
-            cleanup();
-          }
-        };
-
-        // Attach listeners
-        worker.addEventListener('message', handleMessage);
-        worker.addEventListener('error', handleError);
-
-        // ✅ SAFE COMPILATION: Wrap in try/catch to handle immediate errors
-        try {
-          const message: WorkerMessage = {
-            type: WorkerMessageType.PREVIEW,
-            data: {
-              code,
-              params: [],
-              fileType: 'stl',
+        compilePool
+          .preview(
+            { code, params: [], fileType: 'stl' },
+            // ✅ REAL TIMEOUT: The pool stops the worker after 30 seconds
+            {
+              priority: 'background',
+              signal: abortRef.current.signal,
+              timeout: COMPILATION_TIMEOUT_MS,
             },
-          };
+          )
+          .then(
+            (data) => handleResult({ data }),
+            (err) => {
+              // Too complex to render, a retry would time out again
+              if (err instanceof CompileTimeoutError) {
+                logger.error('Compilation', `Timeout after ${err.timeout}ms for branch ${branchId}`);
+                cleanup();
+                updateBranch(branchId, {
+                  isCompiling: false,
+                  compilationProgress: 0,
+                  compilationError: `${err.message}. The design may be too complex.`,
+                });
+                reject(err);
+                return;
+              }
 
-          worker.postMessage(message);
-        } catch (err: any) {
-          logger.error('Compilation', `Failed to start: ${err.message}`);
-          updateBranch(branchId, {
-            isCompiling: false,
-            compilationProgress: 0,
-            compilationError: `Failed to start compilation: ${err.message}`,
-          });
-          cleanup();
-          reject(new Error(`Failed to start compilation: ${err.message}`));
-        }
+              // Cancelled, nothing to retry
+              if (err instanceof DOMException && err.name === 'AbortError') {
+                cleanup();
+                updateBranch(branchId, {
+                  isCompiling: false,
+                  compilationProgress: 0,
+                  compilationError: 'Compilation cancelled',
+                });
+                reject(err);
+                return;
+              }
+              handleResult({ err });
+            },
+          );
       });
     },
     [updateBranch]
@@ -443,23 +359,18 @@ export function useParallelCompilation() {
   );
 
   /**
-   * Cancel all ongoing compilations and reset worker
+   * Cancel all compilations that haven't started yet
    */
   const cancelAll = useCallback(() => {
-    if (managerRef.current) {
-      managerRef.current.terminateAll();
-      managerRef.current = new SingleWorkerManager();
-    }
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
   }, []);
 
   /**
    * Cleanup on unmount
    */
   const cleanup = useCallback(() => {
-    if (managerRef.current) {
-      managerRef.current.terminateAll();
-      managerRef.current = null;
-    }
+    abortRef.current.abort();
   }, []);
 
   return {
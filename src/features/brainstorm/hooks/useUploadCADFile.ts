@@ -9,7 +9,7 @@
 
 import { useState, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
-import { WorkerMessage, WorkerMessageType } from '@/workers/types';
+import { compilePool } from '@/lib/compilePool';
 
 export interface UploadedCADFile {
   fileId: string;
@@ -29,63 +29,20 @@ export function useUploadCADFile() {
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
 
   /**
-   * Compile SCAD file to STL using OpenSCAD worker
+   * Compile SCAD file to STL on the shared compile pool
    */
   const compileSCADFile = useCallback(async (scadCode: string): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const worker = new Worker('/src/workers/worker.ts', { type: 'module' });
-
-      const cleanup = () => {
-        try {
-          worker.removeEventListener('message', handleMessage);
-          worker.removeEventListener('error', handleError);
-          worker.terminate();
-        } catch (err) {
-          console.warn('Failed to cleanup SCAD compilation worker:', err);
-        }
-      };
-
-      const handleMessage = (e: MessageEvent) => {
-        try {
-          if (e.data.err) {
-            console.error('SCAD compilation error:', e.data.err);
-            reject(new Error(e.data.err.message || 'SCAD compilation failed'));
-          } else if (e.data.data?.output) {
-            console.log('✅ SCAD file compiled successfully');
-            const blob = new Blob([e.data.data.output], { type: 'model/stl' });
-            resolve(blob);
-          }
-        } finally {
-          cleanup();
-        }
-      };
-
-      const handleError = (error: ErrorEvent) => {
-        console.error('SCAD compilation worker error:', error);
-        cleanup();
-        reject(new Error(error.message || 'Worker crashed during SCAD compilation'));
-      };
-
-      worker.addEventListener('message', handleMessage);
-      worker.addEventListener('error', handleError);
-
-      try {
-        const message: WorkerMessage = {
-          type: WorkerMessageType.PREVIEW,
-          data: {
-            code: scadCode,
-            params: [],
-            fileType: 'stl',
-          },
-        };
-
-        worker.postMessage(message);
-      } catch (err: any) {
-        console.error('Failed to send message to SCAD worker:', err);
-        cleanup();
-        reject(new Error(`Failed to start SCAD compilation: ${err.message}`));
-      }
-    });
+    try {
+      const data = await compilePool.preview(
+        { code: scadCode, params: [], fileType: 'stl' },
+        { priority: 'interactive' },
+      );
+      console.log('✅ SCAD file compiled successfully');
+      return new Blob([data.output], { type: 'model/stl' });
+    } catch (err) {
+      console.error('SCAD compilation error:', err);
+      throw new Error((err as Error)?.message || 'SCAD compilation failed');
+    }
   }, []);
 
   /**
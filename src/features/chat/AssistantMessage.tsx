@@ -1,9 +1,11 @@
-import { Message, Model } from '@shared/types';
+import { Message, Model, ToolCall } from '@shared/types';
 import {
   ArrowUpRight,
   Box,
+  Check,
   ChevronLeft,
   ChevronRight,
+  GitCompare,
   History,
   ChevronDown,
   Loader2,
@@ -27,26 +29,51 @@ import {
   DropdownMenuTrigger,
 } from '@/ui/dropdown-menu';
 import { TreeNode } from '@shared/Tree';
+import { StreamingDraft } from '@/features/chat/StreamingDraft';
+import { CodeDiffDialog, DiffVersion } from '@/features/editor/CodeDiffDialog';
 import {
   useRestoreMessageMutation,
   useRetryMessageMutation,
   useIsLoading,
+  useArtifactVersions,
 } from '@/services/messageService';
 
+const TOOL_CALL_LABELS: Record<string, Record<ToolCall['status'], string>> = {
+  compile: {
+    pending: 'Compiling...',
+    success: 'Compiled',
+    error: 'Compile failed',
+  },
+  repair: {
+    pending: 'Fixing compile errors...',
+    success: 'Fixed compile errors',
+    error: 'Could not fix compile errors',
+  },
+};
+
+function toolCallLabel(toolCall: ToolCall) {
+  const labels = TOOL_CALL_LABELS[toolCall.name];
+  if (labels) return labels[toolCall.status];
+  if (toolCall.status === 'error') return 'Failed to generate CAD';
+  return 'Building CAD...';
+}
+
 interface AssistantMessageProps {
   message: TreeNode<Message>;
-  currentVersion: number;
+  version: string;
 }
 
 export function AssistantMessage({
   message,
-  currentVersion,
+  version,
 }: AssistantMessageProps) {
   const { conversation, updateConversation } = useConversation();
   const { currentMessage, setCurrentMessage } = useCurrentMessage();
   const { mutate: restoreMessage } = useRestoreMessageMutation();
   const { mutate: retryMessage } = useRetryMessageMutation();
   const isLoading = useIsLoading();
+  const versions = useArtifactVersions();
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
   const model = message.content.model ?? 'pierre';
 
   const changeLeaf = useCallback(
@@ -76,6 +103,24 @@ export function AssistantMessage({
     [message.siblings],
   );
 
+  // Artifacts on the path up to this message, oldest first
+  const diffVersions = useMemo(() => {
+    const result: DiffVersion[] = [];
+    let current: TreeNode<Message> | null = message;
+    while (current) {
+      const artifact = current.content.artifact;
+      if (current.role === 'assistant' && artifact) {
+        result.unshift({
+          id: current.id,
+          label: `${versions.get(current.id) ?? artifact.version} · ${artifact.title}`,
+          code: artifact.code,
+        });
+      }
+      current = current.parent;
+    }
+    return result;
+  }, [message, versions]);
+
   // Check if this message is the last one in the conversation
   const isLastMessage = conversation.current_message_leaf_id === message.id;
 
@@ -102,7 +147,18 @@ export function AssistantMessage({
           ) : (
             <>
               {message.content.text && (
-                <span className="px-1">{message.content.text}</span>
+                <span
+                  className={cn(
+                    'px-1',
+                    message.content.cancelled &&
+                      'italic text-pierre-text-secondary',
+                  )}
+                >
+                  {message.content.text}
+                </span>
+              )}
+              {message.content.draft && (
+                <StreamingDraft draft={message.content.draft} />
               )}
               {message.content.toolCalls &&
                 message.content.toolCalls.length > 0 && (
@@ -112,17 +168,22 @@ export function AssistantMessage({
                         key={toolCall.id ?? `${toolCall.name}`}
                         className="flex h-10 w-full items-center justify-between overflow-hidden rounded-md bg-pierre-neutral-950 px-3 hover:bg-pierre-neutral-900"
                       >
-                        <div className="flex h-full items-center justify-center gap-2">
-                          <Box className="h-4 w-4 text-white" />
-                          {toolCall.status === 'pending' && (
-                            <span>Building CAD...</span>
-                          )}
-                          {toolCall.status === 'error' && (
-                            <span>Failed to generate CAD</span>
+                        <div className="flex h-full min-w-0 items-center gap-2">
+                          <Box className="h-4 w-4 shrink-0 text-white" />
+                          <span className="shrink-0">
+                            {toolCallLabel(toolCall)}
+                          </span>
+                          {toolCall.detail && (
+                            <span className="truncate text-xs text-pierre-text-secondary">
+                              {toolCall.detail}
+                            </span>
                           )}
                         </div>
                         {toolCall.status === 'pending' && (
-                          <Loader2 className="h-4 w-4 animate-spin text-white" />
+                          <Loader2 className="h-4 w-4 shrink-0 animate-spin text-white" />
+                        )}
+                        {toolCall.status === 'success' && (
+                          <Check className="h-4 w-4 shrink-0 text-white" />
                         )}
                       </div>
                     ))}
@@ -133,7 +194,7 @@ export function AssistantMessage({
                   message={message}
                   currentMessage={currentMessage}
                   setCurrentMessage={setCurrentMessage}
-                  currentVersion={currentVersion}
+                  version={version}
                 />
               )}
             </>
@@ -143,6 +204,23 @@ export function AssistantMessage({
             !isLastMessage ||
             message.parent_message_id) && (
             <div className="flex items-center gap-1">
+              {diffVersions.length > 1 && message.content.artifact && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setIsDiffOpen(true)}
+                      className="h-6 w-6 rounded-lg p-0"
+                    >
+                      <GitCompare className="h-3 w-3 p-0 text-pierre-neutral-100" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <span>Compare with previous version</span>
+                  </TooltipContent>
+                </Tooltip>
+              )}
               {!isLastMessage && (
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -239,6 +317,13 @@ export function AssistantMessage({
           )}
         </div>
       </div>
+      {diffVersions.length > 1 && (
+        <CodeDiffDialog
+          open={isDiffOpen}
+          onOpenChange={setIsDiffOpen}
+          versions={diffVersions}
+        />
+      )}
     </div>
   );
 }
@@ -247,12 +332,12 @@ function ObjectButton({
   message,
   currentMessage,
   setCurrentMessage,
-  currentVersion,
+  version,
 }: {
   message: Message;
   currentMessage: Message | null;
   setCurrentMessage: (message: Message) => void;
-  currentVersion: number;
+  version: string;
 }) {
   const [isHovered, setIsHovered] = useState(false);
   let title = 'Pierre Object';
@@ -283,7 +368,7 @@ function ObjectButton({
             'absolute right-2 flex h-6 items-center overflow-hidden rounded-md border border-pierre-neutral-700 bg-pierre-bg-secondary-dark px-1 text-xs transition-all duration-100 ease-in-out hover:bg-black',
             isHovered
               ? 'w-14 text-pierre-text-primary'
-              : `w-${6 + (currentVersion.toString().length - 1)} text-pierre-neutral-300`,
+              : `w-${4 + version.length} text-pierre-neutral-300`,
           )}
         >
           {isHovered ? (
@@ -292,7 +377,7 @@ function ObjectButton({
               <ArrowUpRight className="h-3 w-3" />
             </div>
           ) : (
-            <>v{currentVersion}</>
+            <>{version}</>
           )}
         </span>
       </div>
@@ -9,6 +9,8 @@ import { AssistantLoading } from '@/features/chat/AssistantLoading';
 import { ChatTitle } from '@/features/chat/ChatTitle';
 import { TreeNode } from '@shared/Tree';
 import {
+  useCancelGeneration,
+  useArtifactVersions,
   useIsLoading,
   useSendContentMutation,
 } from '@/services/messageService';
@@ -25,6 +27,7 @@ export function ChatSection({ messages }: ChatSectionProps) {
   const [model, setModel] = useState<Model>('pierre');
   const isLoading = useIsLoading();
   const { mutate: sendMessage } = useSendContentMutation({ conversation });
+  const cancelGeneration = useCancelGeneration(conversation.id);
 
   const scrollToBottom = useCallback(() => {
     if (scrollAreaRef.current) {
@@ -58,14 +61,8 @@ export function ChatSection({ messages }: ChatSectionProps) {
     return messages[messages.length - 1];
   }, [messages, conversation.current_message_leaf_id]);
 
-  // Get the current version number based on assistant messages only
-  const getCurrentVersion = useCallback(
-    (index: number) => {
-      return messages.slice(0, index + 1).filter((m) => m.role === 'assistant')
-        .length;
-    },
-    [messages],
-  );
+  // Versions are numbered across all branches, not just the visible one
+  const versions = useArtifactVersions();
 
   return (
     <div className="flex h-full w-full flex-col items-center overflow-hidden border-r border-neutral-700 bg-pierre-bg-secondary-dark dark:border-gray-800">
@@ -82,13 +79,17 @@ export function ChatSection({ messages }: ChatSectionProps) {
       >
         <div className="pointer-events-none sticky left-0 top-0 z-50 mr-4 h-3 bg-gradient-to-b from-pierre-bg-secondary-dark/90 to-transparent" />
         <div className="space-y-4 pb-6">
-          {messages.map((message, index) => {
+          {messages.map((message) => {
             return (
               <div className="p-1" key={message.id}>
                 {message.role === 'assistant' ? (
                   <AssistantMessage
                     message={message}
-                    currentVersion={getCurrentVersion(index)}
+                    version={
+                      versions.get(message.id) ??
+                      message.content.artifact?.version ??
+                      'v1'
+                    }
                   />
                 ) : (
                   <UserMessage
@@ -110,6 +111,7 @@ export function ChatSection({ messages }: ChatSectionProps) {
           onSubmit={sendMessage}
           placeholder="Keep iterating with Pierre..."
           disabled={isLoading}
+          onCancel={cancelGeneration}
           model={model}
           setModel={setModel}
           conversation={conversation}
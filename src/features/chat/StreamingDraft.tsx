@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Brain, Code, Loader2 } from 'lucide-react';
+import { DraftContent } from '@shared/types';
+import {
+  formatValue,
+  isHiddenParameter,
+  parseParameters,
+} from '@shared/openscad/parameters';
+
+// Lines of code kept visible while the assistant writes
+const VISIBLE_LINES = 12;
+
+/**
+ * Live view of an assistant response that is still being generated
+ */
+export function StreamingDraft({ draft }: { draft: DraftContent }) {
+  const codeRef = useRef<HTMLPreElement>(null);
+
+  // The draft may end mid-statement, the parser skips what it cannot read
+  const parameters = useMemo(
+    () => parseParameters(draft.code).filter((p) => !isHiddenParameter(p)),
+    [draft.code],
+  );
+
+  const visibleCode = useMemo(
+    () => draft.code.split('\n').slice(-VISIBLE_LINES).join('\n'),
+    [draft.code],
+  );
+
+  useEffect(() => {
+    codeRef.current?.scrollTo({ top: codeRef.current.scrollHeight });
+  }, [visibleCode]);
+
+  return (
+    <div className="flex w-full flex-col gap-2">
+      <div className="flex h-10 w-full items-center justify-between rounded-md bg-pierre-neutral-950 px-3">
+        <div className="flex items-center gap-2">
+          {draft.status === 'thinking' ? (
+            <Brain className="h-4 w-4 text-white" />
+          ) : (
+            <Code className="h-4 w-4 text-white" />
+          )}
+          <span>
+            {draft.status === 'thinking'
+              ? 'Thinking about the design...'
+              : 'Writing OpenSCAD code...'}
+          </span>
+        </div>
+        <Loader2 className="h-4 w-4 animate-spin text-white" />
+      </div>
+      {parameters.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 px-1">
+          {parameters.map((parameter) => (
+            <span
+              key={parameter.name}
+              className="rounded-md bg-pierre-neutral-900 px-2 py-0.5 text-xs text-pierre-text-secondary"
+            >
+              {parameter.displayName} = {formatValue(parameter.value)}
+            </span>
+          ))}
+        </div>
+      )}
+      {visibleCode && (
+        <pre
+          ref={codeRef}
+          className="max-h-48 overflow-hidden whitespace-pre-wrap break-words rounded-md bg-pierre-neutral-950 p-3 font-mono text-xs text-pierre-text-secondary"
+        >
+          {visibleCode}
+        </pre>
+      )}
+    </div>
+  );
+}
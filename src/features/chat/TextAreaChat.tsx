@@ -5,9 +5,18 @@ import React, {
   KeyboardEvent,
   useEffect,
 } from 'react';
-import { ArrowUp, ImagePlus, Images, Loader2, CircleX } from 'lucide-react';
+import {
+  ArrowUp,
+  Box,
+  CircleStop,
+  ImagePlus,
+  Images,
+  Loader2,
+  CircleX,
+  Square,
+} from 'lucide-react';
 import { cn, PARAMETRIC_MODELS } from '@/lib/utils';
-import { Content, Conversation, Model } from '@shared/types';
+import { Content, Conversation, DesignMode, Model } from '@shared/types';
 import { MessageItem } from '@/types/misc';
 import { useToast } from '@/hooks/use-toast';
 import { useMutation } from '@tanstack/react-query';
@@ -17,6 +26,7 @@ import { Button } from '@/ui/button';
 import { Textarea } from '@/ui/textarea';
 import { Avatar } from '@/ui/avatar';
 import { useItemSelection } from '@/hooks/useItemSelection';
+import { useCurrentMessage } from '@/core/CurrentMessageContext';
 import { AnimatePresence, motion } from 'framer-motion';
 
 interface TextAreaChatProps {
@@ -26,6 +36,8 @@ interface TextAreaChatProps {
   model: Model;
   setModel: (model: Model) => void;
   conversation: Pick<Conversation, 'id' | 'user_id'>;
+  // Shown instead of the submit button while a response is generating
+  onCancel?: () => void;
 }
 
 const VALID_IMAGE_FORMATS = [
@@ -42,10 +54,18 @@ function TextAreaChat({
   model,
   setModel,
   conversation,
+  onCancel,
 }: TextAreaChatProps) {
   const [isFocused, setIsFocused] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [input, setInput] = useState('');
+  const { currentMessage } = useCurrentMessage();
+  // Refinements keep the mode of the design being refined unless switched
+  const artifactMode = currentMessage?.content.artifact?.mode ?? '3d';
+  const [mode, setMode] = useState<DesignMode>(artifactMode);
+  useEffect(() => {
+    setMode(artifactMode);
+  }, [artifactMode]);
   const [isDragging, setIsDragging] = useState(false);
   const [isDragHover, setIsDragHover] = useState(false);
   const [dropMessageOpacityClass, setDropMessageOpacityClass] = useState(
@@ -110,6 +130,7 @@ function TextAreaChat({
       ...(input.trim() !== '' && { text: input.trim() }),
       ...(images.length > 0 && { images: images.map((img) => img.id) }),
       model: model,
+      mode,
     };
     onSubmit(content);
     setInput('');
@@ -153,7 +174,6 @@ function TextAreaChat({
     },
   });
 
-
   const addItems = async (files: FileList) => {
     const newItems = Array.from(files);
     let hasSmallImages = false;
@@ -677,6 +697,30 @@ function TextAreaChat({
                 <ImagePlus className="h-5 w-5" />
               </Button>
             </div>
+            <Button
+              variant="outline"
+              title={
+                mode === '2d'
+                  ? '2D design (laser cutting, CNC)'
+                  : '3D design (3D printing)'
+              }
+              className={cn(
+                'flex h-8 items-center gap-1.5 rounded-lg border border-[#2a2a2a] bg-pierre-background-2 px-2 text-xs text-pierre-text-secondary hover:bg-pierre-bg-secondary-dark',
+                mode === '2d' && 'border-pierre-blue/50 text-pierre-blue',
+              )}
+              onClick={(e) => {
+                e.stopPropagation();
+                setMode(mode === '2d' ? '3d' : '2d');
+              }}
+              disabled={disabled}
+            >
+              {mode === '2d' ? (
+                <Square className="h-4 w-4" />
+              ) : (
+                <Box className="h-4 w-4" />
+              )}
+              {mode === '2d' ? '2D' : '3D'}
+            </Button>
           </div>
 
           <div className="flex items-center gap-2">
@@ -687,23 +731,33 @@ function TextAreaChat({
               onModelChange={setModel}
               focused={isFocused}
             />
-            {/* Enhanced submit button */}
-            <button
-              onClick={() => {
-                handleSubmit();
-              }}
-              className={cn(
-                'flex h-8 w-8 transform items-center justify-center rounded-lg bg-pierre-neutral-700 p-1 text-white transition-all duration-300 hover:scale-105 hover:bg-pierre-blue/90 disabled:opacity-50 disabled:hover:scale-100 disabled:hover:bg-pierre-blue',
-                images.some((img) => img.isUploading) && 'opacity-50',
-              )}
-              disabled={
-                (images.length === 0 && !input?.trim()) ||
-                images.some((img) => img.isUploading) ||
-                disabled
-              }
-            >
-              <ArrowUp className="h-5 w-5" />
-            </button>
+            {disabled && onCancel ? (
+              <button
+                onClick={onCancel}
+                title="Stop generating"
+                className="flex h-8 w-8 transform items-center justify-center rounded-lg bg-pierre-neutral-700 p-1 text-white transition-all duration-300 hover:scale-105 hover:bg-pierre-blue/90"
+              >
+                <CircleStop className="h-5 w-5" />
+              </button>
+            ) : (
+              /* Enhanced submit button */
+              <button
+                onClick={() => {
+                  handleSubmit();
+                }}
+                className={cn(
+                  'flex h-8 w-8 transform items-center justify-center rounded-lg bg-pierre-neutral-700 p-1 text-white transition-all duration-300 hover:scale-105 hover:bg-pierre-blue/90 disabled:opacity-50 disabled:hover:scale-100 disabled:hover:bg-pierre-blue',
+                  images.some((img) => img.isUploading) && 'opacity-50',
+                )}
+                disabled={
+                  (images.length === 0 && !input?.trim()) ||
+                  images.some((img) => img.isUploading) ||
+                  disabled
+                }
+              >
+                <ArrowUp className="h-5 w-5" />
+              </button>
+            )}
           </div>
         </div>
       </div>
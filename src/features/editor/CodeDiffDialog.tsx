@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/ui/select';
+import { ScrollArea } from '@/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import {
+  collapseUnchanged,
+  diffLines,
+  diffParameters,
+  ParameterChange,
+} from '@/lib/codeDiff';
+
+export type DiffVersion = {
+  id: string;
+  label: string;
+  code: string;
+};
+
+interface CodeDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Oldest first
+  versions: DiffVersion[];
+  initialBeforeId?: string;
+  initialAfterId?: string;
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: DiffVersion[];
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 w-48 border-pierre-neutral-700 bg-pierre-neutral-900 text-sm text-pierre-text-primary">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            {version.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ParameterChangeRow({ change }: { change: ParameterChange }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span
+        className={cn(
+          'w-16 shrink-0 font-medium',
+          change.type === 'added' && 'text-green-400',
+          change.type === 'removed' && 'text-red-400',
+          change.type === 'changed' && 'text-pierre-blue',
+        )}
+      >
+        {change.type}
+      </span>
+      <span className="text-pierre-text-primary">{change.displayName}</span>
+      {change.before !== undefined && (
+        <span className="font-mono text-pierre-text-secondary">
+          {change.before}
+        </span>
+      )}
+      {change.type === 'changed' && (
+        <ArrowRight className="h-3 w-3 text-pierre-text-secondary" />
+      )}
+      {change.after !== undefined && (
+        <span className="font-mono text-pierre-text-primary">
+          {change.after}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Compares the OpenSCAD source of two versions of a design, with a summary
+ * of the Customizer parameters that were added, removed or changed
+ */
+export function CodeDiffDialog({
+  open,
+  onOpenChange,
+  versions,
+  initialBeforeId,
+  initialAfterId,
+}: CodeDiffDialogProps) {
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState('');
+
+  // Start from the requested pair each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const last = versions[versions.length - 1];
+    setAfterId(initialAfterId ?? last?.id ?? '');
+    setBeforeId(initialBeforeId ?? versions[versions.length - 2]?.id ?? '');
+  }, [open, versions, initialBeforeId, initialAfterId]);
+
+  const before = versions.find((version) => version.id === beforeId);
+  const after = versions.find((version) => version.id === afterId);
+
+  const lines = useMemo(
+    () =>
+      before && after
+        ? collapseUnchanged(diffLines(before.code, after.code))
+        : [],
+    [before, after],
+  );
+
+  const parameterChanges = useMemo(
+    () => (before && after ? diffParameters(before.code, after.code) : []),
+    [before, after],
+  );
+
+  const hasChanges = lines.some((line) => line.type !== 'gap');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>
+            Changes to the OpenSCAD code and its parameters.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <VersionSelect
+            versions={versions}
+            value={beforeId}
+            onChange={setBeforeId}
+          />
+          <ArrowRight className="h-4 w-4 text-pierre-text-secondary" />
+          <VersionSelect
+            versions={versions}
+            value={afterId}
+            onChange={setAfterId}
+          />
+        </div>
+        {parameterChanges.length > 0 && (
+          <div className="flex flex-col gap-1 rounded-md bg-pierre-neutral-950 p-3">
+            {parameterChanges.map((change) => (
+              <ParameterChangeRow key={change.name} change={change} />
+            ))}
+          </div>
+        )}
+        <ScrollArea className="min-h-0 flex-1 rounded-md bg-pierre-neutral-950">
+          {hasChanges ? (
+            <div className="py-2 font-mono text-xs">
+              {lines.map((line, index) =>
+                line.type === 'gap' ? (
+                  <div
+                    key={index}
+                    className="px-3 py-1 text-pierre-text-secondary"
+                  >
+                    ⋯ {line.count} unchanged{' '}
+                    {line.count === 1 ? 'line' : 'lines'}
+                  </div>
+                ) : (
+                  <div
+                    key={index}
+                    className={cn(
+                      'flex whitespace-pre-wrap break-all',
+                      line.type === 'added' && 'bg-green-500/10 text-green-300',
+                      line.type === 'removed' && 'bg-red-500/10 text-red-300',
+                      line.type === 'unchanged' && 'text-pierre-text-secondary',
+                    )}
+                  >
+                    <span className="w-10 shrink-0 select-none pr-2 text-right opacity-50">
+                      {line.oldLine}
+                    </span>
+                    <span className="w-10 shrink-0 select-none pr-2 text-right opacity-50">
+                      {line.newLine}
+                    </span>
+                    <span className="w-4 shrink-0 select-none">
+                      {line.type === 'added'
+                        ? '+'
+                        : line.type === 'removed'
+                          ? '-'
+                          : ' '}
+                    </span>
+                    <span className="min-w-0 flex-1 pr-3">{line.text}</span>
+                  </div>
+                ),
+              )}
+            </div>
+          ) : (
+            <div className="p-6 text-center text-sm text-pierre-text-secondary">
+              The code of these versions is identical
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
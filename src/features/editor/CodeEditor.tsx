@@ -0,0 +1,171 @@
+import { KeyboardEvent, useEffect, useMemo, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { RevealTarget } from '@/core/CodeEditorContext';
+import {
+  HighlightKind,
+  highlightOpenSCAD,
+} from '@/features/editor/highlightOpenSCAD';
+
+export type LineMarker = {
+  line: number; // 1-based
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+const TOKEN_CLASSES: Record<HighlightKind, string> = {
+  comment: 'text-pierre-neutral-400 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-pierre-blue',
+  builtin: 'text-purple-300',
+  special: 'text-yellow-300',
+  text: 'text-pierre-text-primary',
+};
+
+const INDENT = '  ';
+
+// Shared by the highlighted layer and the textarea so both line up exactly
+const TEXT_CLASSES =
+  'm-0 whitespace-pre p-0 font-mono text-xs leading-5 [tab-size:2]';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  markers?: LineMarker[];
+  // Scrolls to and places the cursor at this location whenever it changes
+  revealTarget?: RevealTarget | null;
+  className?: string;
+}
+
+/**
+ * Plain textarea over a highlighted copy of the code, with line numbers and
+ * error/warning markers in the gutter
+ */
+export function CodeEditor({
+  value,
+  onChange,
+  markers = [],
+  revealTarget,
+  className,
+}: CodeEditorProps) {
+  const lines = useMemo(() => highlightOpenSCAD(value), [value]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const markersByLine = useMemo(() => {
+    const result = new Map<number, LineMarker[]>();
+    markers.forEach((marker) => {
+      result.set(marker.line, [...(result.get(marker.line) ?? []), marker]);
+    });
+    return result;
+  }, [markers]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!revealTarget || !textarea) return;
+
+    const sourceLines = textarea.value.split('\n');
+    const line = Math.min(Math.max(revealTarget.line, 1), sourceLines.length);
+    const offset =
+      sourceLines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) +
+      Math.min((revealTarget.column ?? 1) - 1, sourceLines[line - 1].length);
+
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(offset, offset);
+    gutterRef.current?.children[line - 1]?.scrollIntoView({ block: 'center' });
+  }, [revealTarget]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab') return;
+    event.preventDefault();
+
+    const textarea = event.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(
+      value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd),
+    );
+    // Restore the caret after React re-renders the new value
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd =
+        selectionStart + INDENT.length;
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex min-h-0 overflow-auto bg-pierre-neutral-950 py-2',
+        className,
+      )}
+    >
+      <div
+        ref={gutterRef}
+        className="sticky left-0 z-10 shrink-0 select-none bg-pierre-neutral-950 pl-2 pr-3 text-right"
+      >
+        {lines.map((_, index) => {
+          const lineMarkers = markersByLine.get(index + 1);
+          const severity = lineMarkers?.some((m) => m.severity === 'error')
+            ? 'error'
+            : lineMarkers?.[0]?.severity;
+          return (
+            <div
+              key={index}
+              title={lineMarkers?.map((m) => m.message).join('\n')}
+              className={cn(
+                TEXT_CLASSES,
+                'text-pierre-neutral-500',
+                severity === 'error' && 'font-semibold text-red-400',
+                severity === 'warning' && 'font-semibold text-yellow-400',
+              )}
+            >
+              {index + 1}
+            </div>
+          );
+        })}
+      </div>
+      <div className="relative grid min-w-0 flex-1">
+        <pre
+          aria-hidden
+          className={cn(TEXT_CLASSES, 'col-start-1 row-start-1 pr-4')}
+        >
+          {lines.map((tokens, index) => {
+            const lineMarkers = markersByLine.get(index + 1);
+            return (
+              <div
+                key={index}
+                className={cn(
+                  lineMarkers?.some((m) => m.severity === 'error')
+                    ? 'bg-red-500/15'
+                    : lineMarkers && 'bg-yellow-500/10',
+                )}
+              >
+                {tokens.map((token, tokenIndex) => (
+                  <span key={tokenIndex} className={TOKEN_CLASSES[token.kind]}>
+                    {token.text}
+                  </span>
+                ))}
+                {/* Keep empty lines one line high */}
+                {tokens.length === 0 && ' '}
+              </div>
+            );
+          })}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          autoCorrect="off"
+          wrap="off"
+          className={cn(
+            TEXT_CLASSES,
+            'col-start-1 row-start-1 h-full w-full resize-none overflow-hidden bg-transparent pr-4 text-transparent caret-white outline-none selection:bg-pierre-blue/30',
+          )}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, RotateCcw, Save } from 'lucide-react';
+import { Diagnostic, Message, ParametricArtifact } from '@shared/types';
+import { nextArtifactVersion } from '@shared/versions';
+import { useCurrentMessage } from '@/core/CurrentMessageContext';
+import { useCodeEditor } from '@/core/CodeEditorContext';
+import { useOpenSCAD } from '@/hooks/useOpenSCAD';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useIsLoading,
+  useMessagesQuery,
+  useSaveCodeVersionMutation,
+} from '@/services/messageService';
+import { Button } from '@/ui/button';
+import { CodeEditor, LineMarker } from '@/features/editor/CodeEditor';
+import { ProblemsList } from '@/features/editor/ProblemsList';
+
+// Wait for a pause in typing before compiling the edited code
+const CHECK_DELAY_MS = 800;
+
+// Problems inside libraries are marked on the line calling into them
+function toMarkers(diagnostics: Diagnostic[]): LineMarker[] {
+  return diagnostics.flatMap((diagnostic) => {
+    const line =
+      diagnostic.line !== undefined && !diagnostic.file
+        ? diagnostic.line
+        : diagnostic.callStack.find((frame) => !frame.file)?.line;
+    if (line === undefined) return [];
+    return [
+      {
+        line,
+        severity: diagnostic.severity,
+        message: diagnostic.message,
+      },
+    ];
+  });
+}
+
+export function CodeEditorPanel() {
+  const { currentMessage } = useCurrentMessage();
+  const artifact = currentMessage?.content.artifact;
+
+  if (!currentMessage || !artifact) {
+    return null;
+  }
+
+  // Remount on message change so unsaved edits don't leak between versions
+  return (
+    <CodeEditorContent
+      key={currentMessage.id}
+      message={currentMessage}
+      artifact={artifact}
+    />
+  );
+}
+
+function CodeEditorContent({
+  message,
+  artifact,
+}: {
+  message: Message;
+  artifact: ParametricArtifact;
+}) {
+  const [code, setCode] = useState(artifact.code);
+  const [checkedCode, setCheckedCode] = useState<string | null>(null);
+  const { compileScad, isCompiling, isError, error, diagnostics } =
+    useOpenSCAD();
+  const { revealTarget, revealLine } = useCodeEditor();
+  const { data: messages = [] } = useMessagesQuery();
+  const { mutate: saveVersion, isPending: isSaving } =
+    useSaveCodeVersionMutation();
+  const isGenerating = useIsLoading();
+  const { toast } = useToast();
+
+  const isDirty = code !== artifact.code;
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const timeout = setTimeout(() => {
+      setCheckedCode(code);
+      compileScad(code, artifact.mode);
+    }, CHECK_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [code, isDirty, artifact.mode, compileScad]);
+
+  // Markers of an older check would point at the wrong lines
+  const isChecked = checkedCode === code && !isCompiling;
+  const problems = useMemo(
+    () => (isChecked ? diagnostics : []),
+    [isChecked, diagnostics],
+  );
+  const markers = useMemo(() => toMarkers(problems), [problems]);
+  const errorCount = problems.filter((d) => d.severity === 'error').length;
+  // Complexity warnings can be overridden in the viewer, they don't block saving
+  const hasErrors =
+    isChecked &&
+    (errorCount > 0 || (isError && error?.name !== 'ComplexityError'));
+
+  const handleSave = () => {
+    saveVersion(
+      {
+        message,
+        code,
+        version: nextArtifactVersion(messages, message.id, code),
+      },
+      {
+        onSuccess: () => {
+          toast({ title: 'Saved as a new version' });
+        },
+        onError: () => {
+          toast({
+            title: 'Error',
+            description: 'Failed to save the edited code',
+            variant: 'destructive',
+          });
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-pierre-bg-secondary-dark">
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <div className="flex min-w-0 items-center gap-2 text-sm text-pierre-text-primary">
+          <span className="font-medium">Code</span>
+          {isDirty && (
+            <span className="truncate text-xs text-pierre-text-secondary">
+              {!isChecked ? (
+                <Loader2 className="inline h-3 w-3 animate-spin" />
+              ) : hasErrors ? (
+                <span className="text-red-400">
+                  {errorCount > 0
+                    ? `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`
+                    : 'Does not compile'}
+                </span>
+              ) : (
+                'Compiles'
+              )}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Discard changes"
+            disabled={!isDirty || isSaving}
+            onClick={() => setCode(artifact.code)}
+            className="h-7 w-7"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="sm"
+            disabled={
+              !isDirty || !isChecked || hasErrors || isSaving || isGenerating
+            }
+            onClick={handleSave}
+            className="h-7 gap-1.5 px-2 text-xs"
+          >
+            {isSaving ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Save className="h-3.5 w-3.5" />
+            )}
+            Save as new version
+          </Button>
+        </div>
+      </div>
+      <CodeEditor
+        value={code}
+        onChange={setCode}
+        markers={markers}
+        revealTarget={revealTarget}
+        className="flex-1"
+      />
+      <ProblemsList
+        diagnostics={problems}
+        onSelect={revealLine}
+        className="max-h-32 shrink-0 border-t border-pierre-neutral-800 p-1"
+      />
+    </div>
+  );
+}
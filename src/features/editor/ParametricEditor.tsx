@@ -12,11 +12,18 @@ import {
 } from 'react-resizable-panels';
 import { ChatSection } from '@/features/chat/ChatSection';
 import { Button } from '@/ui/button';
-import { ChevronsRight } from 'lucide-react';
+import { ChevronsRight, Code2 } from 'lucide-react';
 import { ViewerSection } from '@/features/viewer/ViewerSection';
 import { ParameterSection } from '@/features/parameters/ParameterSection';
+import { CodeEditorPanel } from '@/features/editor/CodeEditorPanel';
 import { useBlob } from '@/core/BlobContext';
 import { useColor } from '@/core/ColorContext';
+import { cn } from '@/lib/utils';
+import { CodeEditorContext, RevealTarget } from '@/core/CodeEditorContext';
+import {
+  ParameterOverrides,
+  ParameterOverridesContext,
+} from '@/core/ParameterOverridesContext';
 
 const PANEL_SIZES = {
   CHAT: {
@@ -43,6 +50,10 @@ export function ParametricEditor() {
   const [isParametersPanelCollapsed, setIsParametersPanelCollapsed] =
     useState(false);
   const [isChatCollapsed, setIsChatCollapsed] = useState(false);
+  const [isCodeEditorOpen, setIsCodeEditorOpen] = useState(false);
+  const [revealTarget, setRevealTarget] = useState<RevealTarget | null>(null);
+  const [parameterOverrides, setParameterOverrides] =
+    useState<ParameterOverrides | null>(null);
   const chatPanelRef = useRef<ImperativePanelHandle>(null);
   const parameterPanelRef = useRef<ImperativePanelHandle>(null);
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
@@ -87,6 +98,16 @@ export function ParametricEditor() {
     }
   }, [lastMessage, setCurrentMessage]);
 
+  // A location in one version means nothing in another
+  useEffect(() => {
+    setRevealTarget(null);
+  }, [currentMessage?.id]);
+
+  const revealLine = useCallback((target: RevealTarget) => {
+    setIsCodeEditorOpen(true);
+    setRevealTarget({ ...target });
+  }, []);
+
   // Update container width on resize
   const setContainerRef = useCallback((element: HTMLDivElement) => {
     // Initial measurement
@@ -214,90 +235,65 @@ export function ParametricEditor() {
   }, []);
 
   return (
-    <div
-      className="flex h-full w-full overflow-hidden bg-[#292828]"
-      ref={setContainerRef}
+    <CodeEditorContext.Provider
+      value={{
+        isCodeEditorOpen,
+        setIsCodeEditorOpen,
+        revealTarget,
+        revealLine,
+      }}
     >
-      <PanelGroup
-        direction="horizontal"
-        className="h-full w-full"
-        autoSaveId="editor-panels"
+      <ParameterOverridesContext.Provider
+        value={{
+          overrides: parameterOverrides,
+          setOverrides: setParameterOverrides,
+        }}
       >
-        <Panel
-          collapsible
-          ref={chatPanelRef}
-          defaultSize={chatPanelSizes.defaultSize}
-          minSize={chatPanelSizes.minSize}
-          maxSize={chatPanelSizes.maxSize}
-          id="chat-panel"
-          order={0}
+        <div
+          className="flex h-full w-full overflow-hidden bg-[#292828]"
+          ref={setContainerRef}
         >
-          <div className="relative h-full">
-            <ChatSection messages={currentMessageBranch ?? []} />
-          </div>
-        </Panel>
-        <PanelResizeHandle className="resize-handle group relative">
-          {!isChatCollapsed && (
-            <div className="absolute left-1 top-1/2 z-50 -translate-y-1/2 opacity-0 transition-opacity duration-200 group-hover:opacity-100">
-              <Button
-                variant="ghost"
-                className="rounded-l-none rounded-r-lg border-b border-r border-t border-gray-200/20 bg-pierre-bg-secondary-dark p-2 text-pierre-text-primary transition-colors dark:border-gray-800 [@media(hover:hover)]:hover:bg-pierre-neutral-950 [@media(hover:hover)]:hover:text-pierre-neutral-10"
-                onClick={handleChatCollapse}
-              >
-                <ChevronsRight className="h-5 w-5 rotate-180" />
-              </Button>
-            </div>
-          )}
-          {isChatCollapsed && (
-            <div className="absolute left-0 top-1/2 z-50 -translate-y-1/2">
-              <Button
-                aria-label="Expand chat panel"
-                onClick={handleChatExpand}
-                className="flex h-[100px] w-9 flex-col items-center rounded-l-none rounded-r-lg bg-pierre-bg-secondary-dark px-1.5 py-2 text-pierre-text-primary"
-              >
-                <ChevronsRight className="h-5 w-5 text-white" />
-                <div className="flex flex-1 items-center justify-center">
-                  <span className="rotate-90 transform text-center text-base font-semibold text-white">
-                    Chat
-                  </span>
-                </div>
-              </Button>
-            </div>
-          )}
-        </PanelResizeHandle>
-        <Panel
-          defaultSize={PANEL_SIZES.PREVIEW.DEFAULT}
-          minSize={PANEL_SIZES.PREVIEW.MIN}
-          id="preview-panel"
-          order={1}
-        >
-          <ViewerSection />
-        </Panel>
-        {hasArtifact && (
-          <>
+          <PanelGroup
+            direction="horizontal"
+            className="h-full w-full"
+            autoSaveId="editor-panels"
+          >
+            <Panel
+              collapsible
+              ref={chatPanelRef}
+              defaultSize={chatPanelSizes.defaultSize}
+              minSize={chatPanelSizes.minSize}
+              maxSize={chatPanelSizes.maxSize}
+              id="chat-panel"
+              order={0}
+            >
+              <div className="relative h-full">
+                <ChatSection messages={currentMessageBranch ?? []} />
+              </div>
+            </Panel>
             <PanelResizeHandle className="resize-handle group relative">
-              {!isParametersPanelCollapsed && (
-                <div className="absolute right-1 top-1/2 z-50 -translate-y-1/2 opacity-0 transition-opacity duration-200 group-hover:opacity-100">
+              {!isChatCollapsed && (
+                <div className="absolute left-1 top-1/2 z-50 -translate-y-1/2 opacity-0 transition-opacity duration-200 group-hover:opacity-100">
                   <Button
                     variant="ghost"
-                    className="rounded-l-lg rounded-r-none border-b border-l border-t border-gray-200/20 bg-pierre-bg-secondary-dark p-2 text-pierre-text-primary transition-colors dark:border-gray-800 [@media(hover:hover)]:hover:bg-pierre-neutral-950 [@media(hover:hover)]:hover:text-pierre-neutral-10"
-                    onClick={handleParametersCollapse}
+                    className="rounded-l-none rounded-r-lg border-b border-r border-t border-gray-200/20 bg-pierre-bg-secondary-dark p-2 text-pierre-text-primary transition-colors dark:border-gray-800 [@media(hover:hover)]:hover:bg-pierre-neutral-950 [@media(hover:hover)]:hover:text-pierre-neutral-10"
+                    onClick={handleChatCollapse}
                   >
-                    <ChevronsRight className="h-5 w-5" />
+                    <ChevronsRight className="h-5 w-5 rotate-180" />
                   </Button>
                 </div>
               )}
-              {isParametersPanelCollapsed && (
-                <div className="absolute right-0 top-1/2 z-50 -translate-y-1/2">
+              {isChatCollapsed && (
+                <div className="absolute left-0 top-1/2 z-50 -translate-y-1/2">
                   <Button
-                    aria-label="Expand parameters panel"
-                    onClick={handleParametersExpand}
-                    className="flex h-[140px] w-9 flex-col items-center rounded-l-lg rounded-r-none bg-pierre-bg-secondary-dark p-2 px-1.5 py-2 text-pierre-text-primary"
+                    aria-label="Expand chat panel"
+                    onClick={handleChatExpand}
+                    className="flex h-[100px] w-9 flex-col items-center rounded-l-none rounded-r-lg bg-pierre-bg-secondary-dark px-1.5 py-2 text-pierre-text-primary"
                   >
-                    <ChevronsRight className="mb-3 h-5 w-5 rotate-180 text-white" />
+                    <ChevronsRight className="h-5 w-5 text-white" />
                     <div className="flex flex-1 items-center justify-center">
-                      <span className="min-w-[100px] -rotate-90 transform text-center text-base font-semibold text-white">
-                        Parameters
+                      <span className="rotate-90 transform text-center text-base font-semibold text-white">
+                        Chat
                       </span>
                     </div>
                   </Button>
@@ -305,21 +301,98 @@ export function ParametricEditor() {
               )}
             </PanelResizeHandle>
             <Panel
-              collapsible
-              ref={parameterPanelRef}
-              defaultSize={parametersPanelSizes.defaultSize}
-              minSize={parametersPanelSizes.minSize}
-              maxSize={parametersPanelSizes.maxSize}
-              id="parameters-panel"
-              order={2}
+              defaultSize={PANEL_SIZES.PREVIEW.DEFAULT}
+              minSize={PANEL_SIZES.PREVIEW.MIN}
+              id="preview-panel"
+              order={1}
             >
-              <div className="relative h-full">
-                <ParameterSection />
-              </div>
+              <PanelGroup
+                direction="vertical"
+                autoSaveId="editor-preview-panels"
+              >
+                <Panel id="viewer-panel" order={0} minSize={20}>
+                  <div className="relative h-full">
+                    <ViewerSection />
+                    {hasArtifact && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setIsCodeEditorOpen(!isCodeEditorOpen)}
+                        className={cn(
+                          'absolute left-3 top-3 z-10 h-8 gap-1.5 rounded-lg bg-pierre-neutral-800/80 px-3 text-xs text-pierre-text-primary backdrop-blur-sm hover:bg-pierre-neutral-800',
+                          isCodeEditorOpen && 'text-pierre-blue',
+                        )}
+                      >
+                        <Code2 className="h-3.5 w-3.5" />
+                        Code
+                      </Button>
+                    )}
+                  </div>
+                </Panel>
+                {hasArtifact && isCodeEditorOpen && (
+                  <>
+                    <PanelResizeHandle className="h-1 bg-[#3b3b3b] transition-colors hover:bg-[#5a5a5a] data-[resize-handle-state=drag]:bg-[#676767]" />
+                    <Panel
+                      id="code-editor-panel"
+                      order={1}
+                      defaultSize={40}
+                      minSize={15}
+                    >
+                      <CodeEditorPanel />
+                    </Panel>
+                  </>
+                )}
+              </PanelGroup>
             </Panel>
-          </>
-        )}
-      </PanelGroup>
-    </div>
+            {hasArtifact && (
+              <>
+                <PanelResizeHandle className="resize-handle group relative">
+                  {!isParametersPanelCollapsed && (
+                    <div className="absolute right-1 top-1/2 z-50 -translate-y-1/2 opacity-0 transition-opacity duration-200 group-hover:opacity-100">
+                      <Button
+                        variant="ghost"
+                        className="rounded-l-lg rounded-r-none border-b border-l border-t border-gray-200/20 bg-pierre-bg-secondary-dark p-2 text-pierre-text-primary transition-colors dark:border-gray-800 [@media(hover:hover)]:hover:bg-pierre-neutral-950 [@media(hover:hover)]:hover:text-pierre-neutral-10"
+                        onClick={handleParametersCollapse}
+                      >
+                        <ChevronsRight className="h-5 w-5" />
+                      </Button>
+                    </div>
+                  )}
+                  {isParametersPanelCollapsed && (
+                    <div className="absolute right-0 top-1/2 z-50 -translate-y-1/2">
+                      <Button
+                        aria-label="Expand parameters panel"
+                        onClick={handleParametersExpand}
+                        className="flex h-[140px] w-9 flex-col items-center rounded-l-lg rounded-r-none bg-pierre-bg-secondary-dark p-2 px-1.5 py-2 text-pierre-text-primary"
+                      >
+                        <ChevronsRight className="mb-3 h-5 w-5 rotate-180 text-white" />
+                        <div className="flex flex-1 items-center justify-center">
+                          <span className="min-w-[100px] -rotate-90 transform text-center text-base font-semibold text-white">
+                            Parameters
+                          </span>
+                        </div>
+                      </Button>
+                    </div>
+                  )}
+                </PanelResizeHandle>
+                <Panel
+                  collapsible
+                  ref={parameterPanelRef}
+                  defaultSize={parametersPanelSizes.defaultSize}
+                  minSize={parametersPanelSizes.minSize}
+                  maxSize={parametersPanelSizes.maxSize}
+                  id="parameters-panel"
+                  order={2}
+                >
+                  <div className="relative h-full">
+                    <ParameterSection />
+                  </div>
+                </Panel>
+              </>
+            )}
+          </PanelGroup>
+        </div>
+      </ParameterOverridesContext.Provider>
+    </CodeEditorContext.Provider>
   );
 }
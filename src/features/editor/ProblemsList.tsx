@@ -0,0 +1,81 @@
+import { CircleAlert, TriangleAlert } from 'lucide-react';
+import { Diagnostic } from '@shared/types';
+import { cn } from '@/lib/utils';
+import { RevealTarget } from '@/core/CodeEditorContext';
+
+interface ProblemsListProps {
+  diagnostics: Diagnostic[];
+  onSelect?: (target: RevealTarget) => void;
+  className?: string;
+}
+
+/**
+ * Compiler errors and warnings, errors first. Clicking a problem jumps to its
+ * line, or to the line calling into a library for problems inside one.
+ */
+export function ProblemsList({
+  diagnostics,
+  onSelect,
+  className,
+}: ProblemsListProps) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const sorted = [...diagnostics].sort(
+    (a, b) =>
+      Number(a.severity === 'warning') - Number(b.severity === 'warning'),
+  );
+
+  return (
+    <ul className={cn('flex flex-col gap-0.5 overflow-y-auto', className)}>
+      {sorted.map((diagnostic, index) => {
+        const Icon =
+          diagnostic.severity === 'error' ? CircleAlert : TriangleAlert;
+        const frame = diagnostic.callStack.find(
+          (frame) => frame.line !== undefined && !frame.file,
+        );
+        const target =
+          diagnostic.line !== undefined && !diagnostic.file
+            ? { line: diagnostic.line, column: diagnostic.column }
+            : frame && { line: frame.line! };
+
+        return (
+          <li key={index}>
+            <button
+              type="button"
+              disabled={!target || !onSelect}
+              onClick={() => target && onSelect?.(target)}
+              className="flex w-full items-start gap-2 rounded-md px-2 py-1 text-left text-xs text-pierre-text-primary enabled:hover:bg-pierre-neutral-800"
+            >
+              <Icon
+                className={cn(
+                  'mt-0.5 h-3.5 w-3.5 shrink-0',
+                  diagnostic.severity === 'error'
+                    ? 'text-red-400'
+                    : 'text-yellow-400',
+                )}
+              />
+              <span className="min-w-0 flex-1 break-words">
+                {diagnostic.message}
+                {frame && (
+                  <span className="text-pierre-text-secondary">
+                    {' '}
+                    · called by {frame.name} on line {frame.line}
+                  </span>
+                )}
+              </span>
+              {diagnostic.line !== undefined && (
+                <span className="shrink-0 font-mono text-pierre-text-secondary">
+                  {diagnostic.file ? `${diagnostic.file}:` : 'Ln '}
+                  {diagnostic.line}
+                  {diagnostic.column !== undefined && `:${diagnostic.column}`}
+                </span>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * Syntax highlighting for the code editor
+ *
+ * Unlike the tokenizer in `@shared/openscad`, this never throws: code being
+ * typed is often incomplete, and unterminated strings or comments should
+ * still be colored up to the end of the file.
+ */
+
+import { KEYWORDS } from '@shared/openscad/tokenizer';
+
+export type HighlightKind =
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'builtin'
+  | 'special'
+  | 'text';
+
+export type HighlightToken = { kind: HighlightKind; text: string };
+
+// Modules and functions that ship with OpenSCAD
+const BUILTINS = new Set([
+  // 3D
+  'cube',
+  'sphere',
+  'cylinder',
+  'polyhedron',
+  'import',
+  'surface',
+  'linear_extrude',
+  'rotate_extrude',
+  // 2D
+  'square',
+  'circle',
+  'polygon',
+  'text',
+  'projection',
+  'offset',
+  // Transformations
+  'translate',
+  'rotate',
+  'scale',
+  'resize',
+  'mirror',
+  'multmatrix',
+  'color',
+  'hull',
+  'minkowski',
+  // Booleans
+  'union',
+  'difference',
+  'intersection',
+  'render',
+  'children',
+  'echo',
+  'assert',
+  // Functions
+  'abs',
+  'sign',
+  'sin',
+  'cos',
+  'tan',
+  'asin',
+  'acos',
+  'atan',
+  'atan2',
+  'floor',
+  'round',
+  'ceil',
+  'ln',
+  'log',
+  'pow',
+  'sqrt',
+  'exp',
+  'min',
+  'max',
+  'norm',
+  'cross',
+  'len',
+  'concat',
+  'lookup',
+  'str',
+  'chr',
+  'ord',
+  'search',
+  'rands',
+  'is_undef',
+  'is_num',
+  'is_bool',
+  'is_string',
+  'is_list',
+  'is_function',
+]);
+
+const PATTERNS: [HighlightKind | 'identifier', RegExp][] = [
+  ['comment', /\/\/[^\n]*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  ['string', /"(?:\\.|[^"\\])*(?:"|$)/y],
+  ['number', /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y],
+  ['special', /\$[A-Za-z_]\w*/y],
+  ['identifier', /[A-Za-z_]\w*/y],
+  ['text', /\s+/y],
+];
+
+function classify(word: string): HighlightKind {
+  if (KEYWORDS.has(word)) return 'keyword';
+  if (BUILTINS.has(word)) return 'builtin';
+  return 'text';
+}
+
+/**
+ * Split the code into colored tokens, one array per line
+ */
+export function highlightOpenSCAD(code: string): HighlightToken[][] {
+  const tokens: HighlightToken[] = [];
+  let offset = 0;
+
+  while (offset < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of PATTERNS) {
+      pattern.lastIndex = offset;
+      const match = pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+
+      const text = match[0];
+      tokens.push({
+        kind: kind === 'identifier' ? classify(text) : kind,
+        text,
+      });
+      offset += text.length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      tokens.push({ kind: 'text', text: code[offset] });
+      offset++;
+    }
+  }
+
+  // Multi-line tokens (block comments, strings) are split at line breaks
+  const lines: HighlightToken[][] = [[]];
+  tokens.forEach((token) => {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  });
+  return lines;
+}
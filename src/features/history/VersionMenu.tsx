@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { Content } from '@shared/types';
+import { artifactVersions } from '@shared/versions';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Lists every version of the designs in a conversation and opens the editor
+ * on the chosen one
+ */
+export function VersionMenu({ conversationId }: { conversationId: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Only loaded once the menu is opened
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ['messages', conversationId],
+    enabled: isOpen,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true })
+        .overrideTypes<
+          Array<{ content: Content; role: 'user' | 'assistant' }>
+        >();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const versions = useMemo(() => {
+    const versionsById = artifactVersions(messages);
+    return messages
+      .filter((message) => versionsById.has(message.id))
+      .map((message) => ({
+        message,
+        version: versionsById.get(message.id)!,
+      }))
+      .reverse();
+  }, [messages]);
+
+  const openVersion = useMutation({
+    mutationFn: async (messageId: string) => {
+      const { error } = await supabase
+        .from('conversations')
+        .update({ current_message_leaf_id: messageId })
+        .eq('id', conversationId);
+
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({
+        queryKey: ['conversation', conversationId],
+      });
+      navigate(`/app/editor/${conversationId}`);
+    },
+    onError: (error) => {
+      console.error('Error opening version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to open this version',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Versions"
+          className="h-9 w-9 shrink-0 rounded-lg"
+        >
+          <History className="h-4 w-4 text-pierre-neutral-100" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="max-h-80 w-64 overflow-y-auto"
+      >
+        <DropdownMenuLabel>Versions</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {isLoading ? (
+          <div className="flex justify-center py-3">
+            <Loader2 className="h-4 w-4 animate-spin text-pierre-neutral-100" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="px-2 py-1.5 text-xs text-pierre-text-secondary">
+            No designs yet
+          </div>
+        ) : (
+          versions.map(({ message, version }) => (
+            <DropdownMenuItem
+              key={message.id}
+              disabled={openVersion.isPending}
+              onSelect={() => openVersion.mutate(message.id)}
+              className="flex items-center gap-2"
+            >
+              <span className="w-10 shrink-0 text-xs text-pierre-neutral-300">
+                {version}
+              </span>
+              <span className="min-w-0 flex-1 truncate">
+                {message.content.artifact?.title}
+              </span>
+              <span className="shrink-0 text-xs text-pierre-text-secondary">
+                {format(new Date(message.created_at), 'MMM d')}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { Parameter, ParameterRange } from '@shared/types';
+import { Input } from '@/ui/input';
+import { Slider } from '@/ui/slider';
+import { Switch } from '@/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/ui/select';
+import { cn } from '@/lib/utils';
+
+type ParameterValue = Parameter['value'];
+
+interface ParameterInputProps {
+  parameter: Parameter;
+  value: ParameterValue;
+  // Called while the user is still editing (e.g. dragging a slider)
+  onChange: (value: ParameterValue) => void;
+  // Called once the edit is finished and should be persisted
+  onCommit: (value: ParameterValue) => void;
+}
+
+const COMPONENT_LABELS = ['X', 'Y', 'Z', 'W'];
+
+function clamp(value: number, range?: ParameterRange): number {
+  let result = value;
+  if (range?.min !== undefined) result = Math.max(range.min, result);
+  if (range?.max !== undefined) result = Math.min(range.max, result);
+  return result;
+}
+
+function hasSliderRange(range?: ParameterRange): range is {
+  min: number;
+  max: number;
+  step?: number;
+} {
+  return range?.min !== undefined && range?.max !== undefined;
+}
+
+/**
+ * Numeric text field that only commits parsed, clamped values so that
+ * intermediate input like `1.` or `-` does not end up in the code.
+ */
+function NumberField({
+  value,
+  range,
+  label,
+  onCommit,
+}: {
+  value: number;
+  range?: ParameterRange;
+  label?: string;
+  onCommit: (value: number) => void;
+}) {
+  const [text, setText] = useState<string | null>(null);
+
+  const commit = () => {
+    if (text === null) return;
+    const parsed = parseFloat(text);
+    setText(null);
+    if (!isNaN(parsed) && parsed !== value) {
+      onCommit(clamp(parsed, range));
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      {label && (
+        <span className="pointer-events-none absolute left-2 top-1/2 -translate-y-1/2 text-xs text-pierre-text-tertiary">
+          {label}
+        </span>
+      )}
+      <Input
+        type="number"
+        inputMode="decimal"
+        value={text ?? String(value)}
+        min={range?.min}
+        max={range?.max}
+        step={range?.step ?? 'any'}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commit();
+        }}
+        className={cn(
+          'h-8 border-pierre-neutral-700 bg-pierre-neutral-900 text-sm text-pierre-text-primary',
+          label && 'pl-6',
+        )}
+      />
+    </div>
+  );
+}
+
+function TextField({
+  value,
+  maxLength,
+  onCommit,
+}: {
+  value: string;
+  maxLength?: number;
+  onCommit: (value: string) => void;
+}) {
+  const [text, setText] = useState<string | null>(null);
+
+  const commit = () => {
+    if (text === null) return;
+    setText(null);
+    if (text !== value) onCommit(text);
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        value={text ?? value}
+        maxLength={maxLength}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commit();
+        }}
+        className="h-8 border-pierre-neutral-700 bg-pierre-neutral-900 text-sm text-pierre-text-primary"
+      />
+      {maxLength !== undefined && (
+        <span className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-xs text-pierre-text-tertiary">
+          {(text ?? value).length}/{maxLength}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function OptionSelect({
+  parameter,
+  value,
+  onCommit,
+}: {
+  parameter: Parameter;
+  value: ParameterValue;
+  onCommit: (value: ParameterValue) => void;
+}) {
+  const options = parameter.options ?? [];
+
+  return (
+    <Select
+      value={String(value)}
+      onValueChange={(key) => {
+        const option = options.find((option) => String(option.value) === key);
+        if (option) onCommit(option.value);
+      }}
+    >
+      <SelectTrigger className="h-8 border-pierre-neutral-700 bg-pierre-neutral-900 text-sm text-pierre-text-primary">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={String(option.value)} value={String(option.value)}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Renders the Customizer control for a parameter: dropdowns for labelled
+ * options, sliders for ranges, switches for booleans, length-limited text
+ * fields for strings and one input per component for vectors.
+ */
+export function ParameterInput({
+  parameter,
+  value,
+  onChange,
+  onCommit,
+}: ParameterInputProps) {
+  const { range } = parameter;
+
+  if (parameter.options && parameter.options.length > 0) {
+    return (
+      <OptionSelect parameter={parameter} value={value} onCommit={onCommit} />
+    );
+  }
+
+  if (typeof value === 'boolean') {
+    return (
+      <Switch
+        checked={value}
+        onCheckedChange={(checked) => onCommit(checked)}
+      />
+    );
+  }
+
+  if (typeof value === 'number') {
+    if (!hasSliderRange(range)) {
+      return <NumberField value={value} range={range} onCommit={onCommit} />;
+    }
+    return (
+      <div className="flex items-center gap-3">
+        <Slider
+          className="flex-1"
+          value={[value]}
+          defaultValue={[Number(parameter.defaultValue)]}
+          min={range.min}
+          max={range.max}
+          step={range.step ?? 1}
+          onValueChange={([next]) => onChange(next)}
+          onValueCommit={([next]) => onCommit(next)}
+        />
+        <div className="w-20">
+          <NumberField value={value} range={range} onCommit={onCommit} />
+        </div>
+      </div>
+    );
+  }
+
+  if (typeof value === 'string') {
+    return (
+      <TextField
+        value={value}
+        maxLength={parameter.maxLength}
+        onCommit={onCommit}
+      />
+    );
+  }
+
+  // Vectors: one control per component
+  const items = value as (string | number | boolean)[];
+  const updateItem = (index: number, item: string | number | boolean) =>
+    items.map((current, i) => (i === index ? item : current)) as ParameterValue;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.map((item, index) => {
+        const label =
+          items.length <= COMPONENT_LABELS.length
+            ? COMPONENT_LABELS[index]
+            : String(index);
+        if (typeof item === 'number') {
+          return (
+            <NumberField
+              key={index}
+              label={label}
+              value={item}
+              range={range}
+              onCommit={(next) => onCommit(updateItem(index, next))}
+            />
+          );
+        }
+        if (typeof item === 'boolean') {
+          return (
+            <Switch
+              key={index}
+              checked={item}
+              onCheckedChange={(checked) =>
+                onCommit(updateItem(index, checked))
+              }
+            />
+          );
+        }
+        return (
+          <TextField
+            key={index}
+            value={item}
+            maxLength={parameter.maxLength}
+            onCommit={(next) => onCommit(updateItem(index, next))}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import {
+  Message,
+  Parameter,
+  ParameterPreset,
+  ParametricArtifact,
+} from '@shared/types';
+import {
+  isHiddenParameter,
+  parseParameters,
+} from '@shared/openscad/parameters';
+import { useCurrentMessage } from '@/core/CurrentMessageContext';
+import { useParameterOverrides } from '@/core/ParameterOverridesContext';
+import { useChangeParameters } from '@/services/messageService';
+import { ScrollArea } from '@/ui/scroll-area';
+import { Button } from '@/ui/button';
+import { cn } from '@/lib/utils';
+import { ParameterInput } from '@/features/parameters/ParameterInput';
+import { PresetMenu } from '@/features/parameters/PresetMenu';
+import { analyzeParameters, dependentsOf } from '@shared/openscad/derived';
+import { ScadValue, toDisplayString } from '@shared/openscad/evaluate';
+
+type ParameterValue = Parameter['value'];
+
+// Milliseconds without edits after which committed values are saved
+const SAVE_DELAY = 1500;
+// Milliseconds without edits after which the viewer compiles the values, so
+// a slider drag doesn't start a compile for every step
+const PREVIEW_DELAY = 250;
+
+/**
+ * Re-parse the parameters from the artifact code so that annotations always
+ * match the code (older messages were stored before every annotation was
+ * supported). Default values come from the stored parameters, because the
+ * code only holds the current values.
+ */
+function syncParameters(artifact: ParametricArtifact): Parameter[] {
+  const parsed = parseParameters(artifact.code);
+  if (parsed.length === 0) return artifact.parameters;
+
+  return parsed.map((parameter) => {
+    const stored = artifact.parameters.find((p) => p.name === parameter.name);
+    if (!stored || stored.type !== parameter.type) return parameter;
+    return { ...parameter, defaultValue: stored.defaultValue };
+  });
+}
+
+function isSameValue(a: ParameterValue, b: ParameterValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function applyValues(
+  parameters: Parameter[],
+  values: Record<string, ParameterValue>,
+): Parameter[] {
+  return parameters.map((parameter) =>
+    parameter.name in values
+      ? { ...parameter, value: values[parameter.name] }
+      : parameter,
+  );
+}
+
+function formatDerivedValue(value: ScadValue): string {
+  if (typeof value === 'number' && !Number.isInteger(value)) {
+    return String(Number(value.toFixed(4)));
+  }
+  return toDisplayString(value);
+}
+
+function groupParameters(parameters: Parameter[]) {
+  const groups = new Map<string, Parameter[]>();
+  parameters
+    .filter((parameter) => !isHiddenParameter(parameter))
+    .forEach((parameter) => {
+      const group = parameter.group ?? '';
+      groups.set(group, [...(groups.get(group) ?? []), parameter]);
+    });
+  return [...groups.entries()].map(([name, parameters]) => ({
+    name,
+    parameters,
+  }));
+}
+
+export function ParameterSection() {
+  const { currentMessage } = useCurrentMessage();
+  const artifact = currentMessage?.content.artifact;
+
+  if (!currentMessage || !artifact) {
+    return null;
+  }
+
+  // Remount on message change so in-progress edits don't leak between versions
+  return (
+    <ParameterList
+      key={currentMessage.id}
+      message={currentMessage}
+      artifact={artifact}
+    />
+  );
+}
+
+function ParameterList({
+  message,
+  artifact,
+}: {
+  message: Message;
+  artifact: ParametricArtifact;
+}) {
+  const changeParameters = useChangeParameters();
+  const { setOverrides } = useParameterOverrides();
+  const [drafts, setDrafts] = useState<Record<string, ParameterValue>>({});
+  // Committed values waiting for editing to stop before they are saved
+  const pendingRef = useRef<Record<string, ParameterValue> | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const parameters = useMemo(() => syncParameters(artifact), [artifact]);
+  const groups = useMemo(() => groupParameters(parameters), [parameters]);
+
+  // Saved values are in the code now. Values waiting to be saved were meant
+  // for the code before an edit elsewhere, drop them.
+  useEffect(() => {
+    clearTimeout(saveTimerRef.current);
+    pendingRef.current = null;
+    setDrafts({});
+  }, [artifact]);
+
+  // Evaluate derived values and constraints with the in-progress values, so
+  // problems show up before anything is compiled
+  const baseline = useMemo(
+    () => analyzeParameters(artifact.code),
+    [artifact.code],
+  );
+  const analysis = useMemo(
+    () => analyzeParameters(artifact.code, drafts),
+    [artifact.code, drafts],
+  );
+  const newViolations = analysis.violations.filter(
+    (violation) =>
+      !baseline.violations.some(
+        (existing) =>
+          existing.line === violation.line && existing.name === violation.name,
+      ),
+  );
+  const isPreviewable = newViolations.length === 0;
+
+  // The viewer renders the unchanged code with the values being edited.
+  // Values that break a constraint are never compiled, the viewer keeps
+  // showing the last values that didn't.
+  useEffect(() => {
+    const edited = parameters
+      .filter((parameter) => parameter.name in drafts)
+      .map((parameter) => ({ ...parameter, value: drafts[parameter.name] }));
+    if (edited.length === 0) {
+      setOverrides(null);
+      return;
+    }
+    if (!isPreviewable) return;
+
+    const timer = setTimeout(
+      () => setOverrides({ code: artifact.code, parameters: edited }),
+      PREVIEW_DELAY,
+    );
+    return () => clearTimeout(timer);
+  }, [artifact.code, drafts, isPreviewable, parameters, setOverrides]);
+
+  const affected = useMemo(
+    () =>
+      new Set(
+        Object.keys(drafts).flatMap((name) =>
+          dependentsOf(analysis.graph, name),
+        ),
+      ),
+    [analysis.graph, drafts],
+  );
+
+  const save = useCallback(
+    (values: Record<string, ParameterValue>) => {
+      clearTimeout(saveTimerRef.current);
+      pendingRef.current = null;
+      changeParameters(message, applyValues(parameters, values));
+    },
+    [changeParameters, message, parameters],
+  );
+
+  // Values not saved yet are dropped when the list goes away, e.g. on a
+  // version switch. Saving them makes a new version, which would move the
+  // conversation away from where the user went.
+  useEffect(
+    () => () => {
+      clearTimeout(saveTimerRef.current);
+      pendingRef.current = null;
+      setOverrides(null);
+    },
+    [setOverrides],
+  );
+
+  const edit = useCallback((name: string, value: ParameterValue) => {
+    // Still editing, hold off saving
+    clearTimeout(saveTimerRef.current);
+    setDrafts((current) => ({ ...current, [name]: value }));
+  }, []);
+
+  const commit = useCallback(
+    (values: Record<string, ParameterValue>, force = false) => {
+      // Hold back values that would break a constraint, the user can still
+      // apply them explicitly
+      if (!force) {
+        const { violations } = analyzeParameters(artifact.code, values);
+        const introducesViolation = violations.some(
+          (violation) =>
+            !baseline.violations.some(
+              (existing) =>
+                existing.line === violation.line &&
+                existing.name === violation.name,
+            ),
+        );
+        if (introducesViolation) {
+          clearTimeout(saveTimerRef.current);
+          pendingRef.current = null;
+          setDrafts(values);
+          return;
+        }
+      }
+      // Shown right away, saved once editing stops
+      setDrafts(values);
+      pendingRef.current = values;
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = setTimeout(() => save(values), SAVE_DELAY);
+    },
+    [artifact.code, baseline, save],
+  );
+
+  // Presets are saved and matched against the values as they are shown,
+  // including the ones still waiting to be saved
+  const editedParameters = useMemo(
+    () => applyValues(parameters, drafts),
+    [parameters, drafts],
+  );
+
+  const modified = parameters.filter(
+    (parameter) => !isSameValue(parameter.value, parameter.defaultValue),
+  );
+
+  const handleApplyPreset = useCallback(
+    (preset: ParameterPreset) => commit({ ...preset.values }),
+    [commit],
+  );
+
+  const handlePresetsChange = useCallback(
+    (presets: ParameterPreset[]) => {
+      // Saved together with the values waiting to be saved, if any
+      const values = pendingRef.current ?? {};
+      clearTimeout(saveTimerRef.current);
+      pendingRef.current = null;
+      changeParameters(message, applyValues(parameters, values), presets);
+    },
+    [changeParameters, message, parameters],
+  );
+
+  const resetAll = useCallback(() => {
+    commit(Object.fromEntries(modified.map((p) => [p.name, p.defaultValue])));
+  }, [commit, modified]);
+
+  return (
+    <div className="flex h-full w-full flex-col bg-pierre-bg-secondary-dark">
+      <div className="flex flex-shrink-0 items-center justify-between border-b border-pierre-neutral-700 px-4 py-3">
+        <span className="text-sm font-semibold text-pierre-text-primary">
+          Parameters
+        </span>
+        <div className="flex items-center gap-1">
+          <PresetMenu
+            title={artifact.title}
+            parameters={editedParameters}
+            presets={artifact.presets ?? []}
+            onApply={handleApplyPreset}
+            onPresetsChange={handlePresetsChange}
+          />
+          {modified.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={resetAll}
+              className="h-7 gap-1 px-2 text-xs text-pierre-text-secondary hover:text-pierre-text-primary"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Reset all
+            </Button>
+          )}
+        </div>
+      </div>
+      {analysis.violations.length > 0 && (
+        <div className="flex flex-shrink-0 flex-col gap-2 border-b border-pierre-neutral-700 bg-amber-500/10 px-4 py-3">
+          {analysis.violations.map((violation) => (
+            <div
+              key={`${violation.line}:${violation.name ?? ''}`}
+              className="flex items-start gap-2 text-xs text-amber-300"
+            >
+              <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+              <span>
+                {violation.message}{' '}
+                <span className="text-pierre-text-tertiary">
+                  (line {violation.line})
+                </span>
+              </span>
+            </div>
+          ))}
+          {newViolations.length > 0 && Object.keys(drafts).length > 0 && (
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  clearTimeout(saveTimerRef.current);
+                  pendingRef.current = null;
+                  setDrafts({});
+                }}
+                className="h-7 px-2 text-xs text-pierre-text-secondary hover:text-pierre-text-primary"
+              >
+                Discard
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => commit(drafts, true)}
+                className="h-7 px-2 text-xs text-amber-300 hover:text-amber-200"
+              >
+                Apply anyway
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+      <ScrollArea className="flex-1">
+        {groups.length === 0 && analysis.derived.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-pierre-text-tertiary">
+            This model has no adjustable parameters
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6 px-4 py-4">
+            {groups.map((group) => (
+              <div key={group.name} className="flex flex-col gap-4">
+                {group.name && (
+                  <span className="text-xs font-semibold uppercase tracking-wide text-pierre-text-tertiary">
+                    {group.name}
+                  </span>
+                )}
+                {group.parameters.map((parameter) => {
+                  const value = drafts[parameter.name] ?? parameter.value;
+                  const isModified = !isSameValue(
+                    parameter.value,
+                    parameter.defaultValue,
+                  );
+                  return (
+                    <div key={parameter.name} className="flex flex-col gap-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span
+                          className="truncate text-sm font-medium text-pierre-text-primary"
+                          title={parameter.name}
+                        >
+                          {parameter.displayName}
+                        </span>
+                        {isModified && (
+                          <button
+                            type="button"
+                            aria-label={`Reset ${parameter.displayName}`}
+                            onClick={() =>
+                              commit({
+                                [parameter.name]: parameter.defaultValue,
+                              })
+                            }
+                            className="text-pierre-text-tertiary hover:text-pierre-text-primary"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
+                      {parameter.description && (
+                        <span className="text-xs text-pierre-text-secondary">
+                          {parameter.description}
+                        </span>
+                      )}
+                      <ParameterInput
+                        parameter={parameter}
+                        value={value}
+                        onChange={(next) => edit(parameter.name, next)}
+                        onCommit={(next) =>
+                          commit({ ...drafts, [parameter.name]: next })
+                        }
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+            {analysis.derived.length > 0 && (
+              <div className="flex flex-col gap-3">
+                <span className="text-xs font-semibold uppercase tracking-wide text-pierre-text-tertiary">
+                  Derived
+                </span>
+                {analysis.derived.map((parameter) => (
+                  <div
+                    key={parameter.name}
+                    className="flex flex-col gap-0.5"
+                    title={
+                      parameter.dependencies.length > 0
+                        ? `Depends on ${parameter.dependencies.join(', ')}`
+                        : undefined
+                    }
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm text-pierre-text-secondary">
+                        {parameter.displayName}
+                      </span>
+                      <span
+                        className={cn(
+                          'truncate font-mono text-sm text-pierre-text-primary',
+                          affected.has(parameter.name) && 'text-pierre-blue',
+                          analysis.violations.some(
+                            (violation) => violation.name === parameter.name,
+                          ) && 'text-amber-300',
+                        )}
+                      >
+                        {formatDerivedValue(parameter.value)}
+                      </span>
+                    </div>
+                    <span className="truncate font-mono text-xs text-pierre-text-tertiary">
+                      = {parameter.expression}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
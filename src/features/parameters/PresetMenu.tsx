@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react';
+import { Bookmark, Check, Download, Plus, Upload, X } from 'lucide-react';
+import { Parameter, ParameterPreset } from '@shared/types';
+import {
+  createPreset,
+  exportParameterSets,
+  importParameterSets,
+  matchesPreset,
+  mergePresets,
+} from '@shared/openscad/presets';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/ui/dialog';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { useToast } from '@/hooks/use-toast';
+
+interface PresetMenuProps {
+  title: string;
+  parameters: Parameter[];
+  presets: ParameterPreset[];
+  onApply: (preset: ParameterPreset) => void;
+  onPresetsChange: (presets: ParameterPreset[]) => void;
+}
+
+export function PresetMenu({
+  title,
+  parameters,
+  presets,
+  onApply,
+  onPresetsChange,
+}: PresetMenuProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const activePreset = presets.find((preset) =>
+    matchesPreset(parameters, preset),
+  );
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onPresetsChange(mergePresets(presets, [createPreset(name, parameters)]));
+    setPresetName('');
+    setIsSaveDialogOpen(false);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportParameterSets(presets)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${title || 'model'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importParameterSets(await file.text(), parameters);
+      onPresetsChange(mergePresets(presets, imported));
+      toast({
+        title: 'Presets imported',
+        description: `${imported.length} preset${imported.length === 1 ? '' : 's'} from ${file.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not import presets',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 max-w-[160px] gap-1 px-2 text-xs text-pierre-text-secondary hover:text-pierre-text-primary"
+          >
+            <Bookmark className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{activePreset?.name ?? 'Presets'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          {presets.length > 0 && (
+            <>
+              <DropdownMenuLabel>Presets</DropdownMenuLabel>
+              {presets.map((preset) => (
+                <DropdownMenuItem
+                  key={preset.name}
+                  onSelect={() => onApply(preset)}
+                  className="group flex items-center gap-2"
+                >
+                  <Check
+                    className={
+                      preset === activePreset ? 'h-3 w-3' : 'h-3 w-3 opacity-0'
+                    }
+                  />
+                  <span className="flex-1 truncate">{preset.name}</span>
+                  <button
+                    type="button"
+                    aria-label={`Delete preset ${preset.name}`}
+                    className="opacity-0 group-hover:opacity-100"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onPresetsChange(presets.filter((p) => p !== preset));
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onSelect={() => setIsSaveDialogOpen(true)}>
+            <Plus className="mr-2 h-3 w-3" />
+            Save current values…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-3 w-3" />
+            Import parameter sets…
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={presets.length === 0}
+            onSelect={handleExport}
+          >
+            <Download className="mr-2 h-3 w-3" />
+            Export parameter sets
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) handleImport(file);
+          event.target.value = '';
+        }}
+      />
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save preset</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder="e.g. Large"
+            value={presetName}
+            onChange={(event) => setPresetName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') handleSave();
+            }}
+          />
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={!presetName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import { GitCompare } from 'lucide-react';
+import { Button } from '@/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { CompareLayout } from '@/features/viewer/ThreeScene';
+
+export type CompareTarget = { id: string; label: string };
+
+interface CompareMenuProps {
+  // Earlier versions the current model can be compared against
+  targets: CompareTarget[];
+  compareWith: string | null;
+  onCompareWithChange: (id: string | null) => void;
+  layout: CompareLayout;
+  onLayoutChange: (layout: CompareLayout) => void;
+}
+
+export function CompareMenu({
+  targets,
+  compareWith,
+  onCompareWithChange,
+  layout,
+  onLayoutChange,
+}: CompareMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'h-8 gap-1.5 rounded-lg bg-pierre-neutral-800/80 px-3 text-xs text-pierre-text-primary backdrop-blur-sm hover:bg-pierre-neutral-800',
+            compareWith && 'text-pierre-blue',
+          )}
+        >
+          <GitCompare className="h-3.5 w-3.5" />
+          Compare
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Compare with</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={compareWith ?? ''}
+          onValueChange={(id) => onCompareWithChange(id)}
+        >
+          {targets.map((target) => (
+            <DropdownMenuRadioItem key={target.id} value={target.id}>
+              <span className="truncate">{target.label}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Show as</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={layout}
+          onValueChange={(value) => onLayoutChange(value as CompareLayout)}
+        >
+          <DropdownMenuRadioItem value="overlay">
+            Overlay (added / removed)
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="side-by-side">
+            Side by side
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        {compareWith && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onCompareWithChange(null)}>
+              Stop comparing
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
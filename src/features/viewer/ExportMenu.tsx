@@ -0,0 +1,215 @@
+import { useCallback, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { ExportType } from '@shared/types';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/ui/dialog';
+import { Button } from '@/ui/button';
+import { Input } from '@/ui/input';
+import { Label } from '@/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { EXPORT_EXTENSIONS, useExportModel } from '@/hooks/useExportModel';
+import { useRecordExport } from '@/services/qualityService';
+import { ExportFormat, ExportOptions, ExportUnit } from '@/workers/types';
+import { downloadBlob, toFileName } from '@/lib/download';
+
+const MESH_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'stl', label: 'STL (binary)' },
+  { format: 'asciistl', label: 'STL (ASCII)' },
+  { format: 'off', label: 'OFF' },
+  { format: 'amf', label: 'AMF' },
+];
+
+const VECTOR_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'svg', label: 'SVG' },
+  { format: 'dxf', label: 'DXF' },
+];
+
+const UNITS: { unit: ExportUnit; label: string }[] = [
+  { unit: 'millimeter', label: 'Millimeters' },
+  { unit: 'centimeter', label: 'Centimeters' },
+  { unit: 'meter', label: 'Meters' },
+  { unit: 'inch', label: 'Inches' },
+];
+
+interface ExportMenuProps {
+  code: string;
+  title: string;
+  // 2D designs can only be exported as SVG/DXF, 3D designs only as meshes
+  is2D: boolean;
+  messageId: string;
+  conversationId: string;
+}
+
+export function ExportMenu({
+  code,
+  title,
+  is2D,
+  messageId,
+  conversationId,
+}: ExportMenuProps) {
+  const { toast } = useToast();
+  const { exportModel, isExporting } = useExportModel();
+  const { mutate: recordExport } = useRecordExport();
+  const fileName = toFileName(title);
+  const [isSliceDialogOpen, setIsSliceDialogOpen] = useState(false);
+  const [sliceHeight, setSliceHeight] = useState('0');
+
+  const record = useCallback(
+    (exportType: ExportType) =>
+      recordExport({ messageId, conversationId, exportType }),
+    [recordExport, messageId, conversationId],
+  );
+
+  const handleExport = useCallback(
+    async (options: ExportOptions) => {
+      try {
+        const blob = await exportModel(code, options);
+        downloadBlob(blob, `${fileName}.${EXPORT_EXTENSIONS[options.format]}`);
+        record(options.format);
+      } catch (error) {
+        toast({
+          title: 'Export failed',
+          // Worker errors arrive as plain objects, not Error instances
+          description:
+            (error as Error)?.message ||
+            `Could not export as ${options.format.toUpperCase()}`,
+          variant: 'destructive',
+        });
+      }
+    },
+    [code, exportModel, fileName, record, toast],
+  );
+
+  const handleExportSlice = () => {
+    const z = Number(sliceHeight);
+    if (sliceHeight.trim() === '' || !Number.isFinite(z)) return;
+    setIsSliceDialogOpen(false);
+    handleExport({ format: 'dxf', sliceHeight: z });
+  };
+
+  const handleExportSource = useCallback(() => {
+    downloadBlob(new Blob([code], { type: 'text/plain' }), `${fileName}.scad`);
+    record('scad');
+  }, [code, fileName, record]);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={isExporting}
+            className="h-8 gap-1.5 rounded-lg bg-pierre-neutral-800/80 px-3 text-xs text-pierre-text-primary backdrop-blur-sm hover:bg-pierre-neutral-800"
+          >
+            {isExporting ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Download className="h-3.5 w-3.5" />
+            )}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          {is2D ? (
+            <>
+              <DropdownMenuLabel>2D formats</DropdownMenuLabel>
+              {VECTOR_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem
+                  key={format}
+                  onSelect={() => handleExport({ format })}
+                >
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </>
+          ) : (
+            <>
+              <DropdownMenuLabel>3D formats</DropdownMenuLabel>
+              {MESH_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem
+                  key={format}
+                  onSelect={() => handleExport({ format })}
+                >
+                  {label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>3MF</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {UNITS.map(({ unit, label }) => (
+                    <DropdownMenuItem
+                      key={unit}
+                      onSelect={() =>
+                        handleExport({
+                          format: '3mf',
+                          unit,
+                          objectName: title || 'model',
+                        })
+                      }
+                    >
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem onSelect={() => setIsSliceDialogOpen(true)}>
+                DXF cross-section…
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleExportSource}>
+            OpenSCAD source
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSliceDialogOpen} onOpenChange={setIsSliceDialogOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Export cross-section</DialogTitle>
+            <DialogDescription>
+              Export the outline of the model cut at a height as DXF.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="slice-height">Z height (mm)</Label>
+            <Input
+              id="slice-height"
+              type="number"
+              value={sliceHeight}
+              onChange={(event) => setSliceHeight(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') handleExportSlice();
+              }}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsSliceDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExportSlice}>Export DXF</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+
+type SvgBounds = { x: number; y: number; width: number; height: number };
+
+// OpenSCAD writes the extent of the drawing (in mm) as the viewBox
+function readBounds(svg: string): SvgBounds | null {
+  const document = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const viewBox = document.documentElement.getAttribute('viewBox');
+  if (!viewBox) return null;
+
+  const [x, y, width, height] = viewBox
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (![x, y, width, height].every(Number.isFinite)) return null;
+  return { x, y, width, height };
+}
+
+function formatLength(value: number) {
+  return `${Number(value.toFixed(2))} mm`;
+}
+
+const lineProps = {
+  strokeWidth: 1,
+  vectorEffect: 'non-scaling-stroke',
+} as const;
+
+/**
+ * Flat preview of a 2D design with its overall width and height
+ */
+export function FlatPreview({ svg }: { svg: Blob }) {
+  const [url, setUrl] = useState<string>();
+  const [bounds, setBounds] = useState<SvgBounds | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const objectUrl = URL.createObjectURL(svg);
+    setUrl(objectUrl);
+    svg.text().then((text) => {
+      if (!cancelled) setBounds(readBounds(text));
+    });
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(objectUrl);
+    };
+  }, [svg]);
+
+  if (!url || !bounds) return null;
+
+  // Everything below is in drawing units so it scales with the drawing
+  const size = Math.max(bounds.width, bounds.height) || 1;
+  const gap = size * 0.06;
+  const tick = size * 0.015;
+  const fontSize = size * 0.035;
+  const margin = gap + fontSize * 3;
+
+  const left = bounds.x;
+  const top = bounds.y;
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  const widthLine = bottom + gap;
+  const heightLine = right + gap;
+
+  return (
+    <div className="flex h-full w-full items-center justify-center p-6">
+      <svg
+        viewBox={[
+          left - margin,
+          top - margin,
+          bounds.width + 2 * margin,
+          bounds.height + 2 * margin,
+        ].join(' ')}
+        preserveAspectRatio="xMidYMid meet"
+        className="h-full w-full text-pierre-text-secondary"
+      >
+        <image
+          href={url}
+          x={left}
+          y={top}
+          width={bounds.width}
+          height={bounds.height}
+        />
+        <g stroke="currentColor">
+          {/* Width */}
+          <line
+            {...lineProps}
+            x1={left}
+            y1={bottom}
+            x2={left}
+            y2={widthLine + tick}
+          />
+          <line
+            {...lineProps}
+            x1={right}
+            y1={bottom}
+            x2={right}
+            y2={widthLine + tick}
+          />
+          <line
+            {...lineProps}
+            x1={left}
+            y1={widthLine}
+            x2={right}
+            y2={widthLine}
+          />
+          {/* Height */}
+          <line
+            {...lineProps}
+            x1={right}
+            y1={top}
+            x2={heightLine + tick}
+            y2={top}
+          />
+          <line
+            {...lineProps}
+            x1={right}
+            y1={bottom}
+            x2={heightLine + tick}
+            y2={bottom}
+          />
+          <line
+            {...lineProps}
+            x1={heightLine}
+            y1={top}
+            x2={heightLine}
+            y2={bottom}
+          />
+        </g>
+        <g fill="currentColor" fontSize={fontSize} textAnchor="middle">
+          <text x={(left + right) / 2} y={widthLine + fontSize * 1.5}>
+            {formatLength(bounds.width)}
+          </text>
+          <text
+            transform={`translate(${heightLine + fontSize * 1.5} ${(top + bottom) / 2}) rotate(90)`}
+          >
+            {formatLength(bounds.height)}
+          </text>
+        </g>
+      </svg>
+    </div>
+  );
+}
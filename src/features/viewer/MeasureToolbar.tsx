@@ -0,0 +1,107 @@
+import { Box, CircleDot, Ruler, Slash, Trash2 } from 'lucide-react';
+import { LucideIcon } from 'lucide-react';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { MeasureMode } from '@/lib/measurement';
+
+const MODES: { mode: MeasureMode; label: string; icon: LucideIcon }[] = [
+  { mode: 'distance', label: 'Distance between points', icon: Ruler },
+  { mode: 'edge', label: 'Edge length', icon: Slash },
+  { mode: 'hole', label: 'Hole diameter', icon: CircleDot },
+];
+
+interface MeasureToolbarProps {
+  mode: MeasureMode | null;
+  onModeChange: (mode: MeasureMode | null) => void;
+  showBounds: boolean;
+  onShowBoundsChange: (show: boolean) => void;
+  canClear: boolean;
+  onClear: () => void;
+}
+
+function ToolButton({
+  label,
+  icon: Icon,
+  isActive = false,
+  disabled = false,
+  onClick,
+}: {
+  label: string;
+  icon: LucideIcon;
+  isActive?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          aria-label={label}
+          aria-pressed={isActive}
+          disabled={disabled}
+          onClick={onClick}
+          className={cn(
+            'flex h-7 w-7 items-center justify-center rounded-md transition-colors duration-200 disabled:opacity-40',
+            isActive
+              ? 'bg-pierre-blue/20 text-pierre-blue'
+              : 'text-pierre-text-primary/70 enabled:hover:text-pierre-text-primary',
+          )}
+        >
+          <Icon className="h-4 w-4" />
+        </button>
+      </TooltipTrigger>
+      <TooltipContent
+        side="top"
+        className="border-pierre-neutral-700 bg-pierre-background-2 text-pierre-text-primary"
+      >
+        <p>{label}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/**
+ * Measurement tools of the 3D viewer. Clicking the active tool turns it off.
+ */
+export function MeasureToolbar({
+  mode,
+  onModeChange,
+  showBounds,
+  onShowBoundsChange,
+  canClear,
+  onClear,
+}: MeasureToolbarProps) {
+  return (
+    <div className="border-pierre-neutral-600/30 flex items-center gap-1 rounded-lg border bg-pierre-neutral-800/60 px-1.5 py-1.5 shadow-lg backdrop-blur-sm">
+      <TooltipProvider delayDuration={300}>
+        {MODES.map(({ mode: toolMode, label, icon }) => (
+          <ToolButton
+            key={toolMode}
+            label={label}
+            icon={icon}
+            isActive={mode === toolMode}
+            onClick={() => onModeChange(mode === toolMode ? null : toolMode)}
+          />
+        ))}
+        <ToolButton
+          label="Bounding box"
+          icon={Box}
+          isActive={showBounds}
+          onClick={() => onShowBoundsChange(!showBounds)}
+        />
+        <ToolButton
+          label="Clear measurements"
+          icon={Trash2}
+          disabled={!canClear}
+          onClick={onClear}
+        />
+      </TooltipProvider>
+    </div>
+  );
+}
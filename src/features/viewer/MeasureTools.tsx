@@ -0,0 +1,345 @@
+import * as THREE from 'three';
+import { ReactNode, useEffect, useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useThree } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import {
+  FeatureEdges,
+  fitCircle,
+  MeasureMode,
+  Measurement,
+} from '@/lib/measurement';
+
+const MEASURE_COLOR = '#00A6FF';
+const PREVIEW_COLOR = '#9CA3AF';
+
+// Screen distance within which the pointer snaps to a vertex or picks an edge
+const SNAP_PIXELS = 12;
+const PICK_PIXELS = 24;
+
+// Pointer travel above which a click was an orbit drag
+const CLICK_PIXELS = 4;
+
+type Pick = {
+  point: THREE.Vector3;
+  isSnapped: boolean;
+  measurement?: Measurement;
+};
+
+function formatLength(value: number) {
+  return `${value.toFixed(2)} mm`;
+}
+
+function Label({
+  position,
+  children,
+}: {
+  position: THREE.Vector3;
+  children: ReactNode;
+}) {
+  return (
+    <Html position={position} center pointerEvents="none">
+      <div className="border-pierre-neutral-600/30 whitespace-nowrap rounded-md border bg-pierre-neutral-800/90 px-2 py-1 font-mono text-xs text-pierre-text-primary shadow-lg">
+        {children}
+      </div>
+    </Html>
+  );
+}
+
+function Dot({
+  position,
+  isSnapped = false,
+}: {
+  position: THREE.Vector3;
+  isSnapped?: boolean;
+}) {
+  return (
+    <Html position={position} center pointerEvents="none">
+      <div
+        className={
+          isSnapped
+            ? 'h-2.5 w-2.5 rounded-sm border border-white bg-pierre-blue'
+            : 'h-2 w-2 rounded-full border border-white bg-pierre-neutral-800'
+        }
+      />
+    </Html>
+  );
+}
+
+function MeasurementView({
+  measurement,
+  color,
+}: {
+  measurement: Measurement;
+  color: string;
+}) {
+  if (measurement.kind === 'hole') {
+    const { circle, ring } = measurement;
+    return (
+      <>
+        <Line
+          points={[...ring, ring[0]]}
+          color={color}
+          lineWidth={2}
+          depthTest={false}
+        />
+        <Label position={circle.center}>
+          ⌀ {formatLength(circle.radius * 2)}
+        </Label>
+      </>
+    );
+  }
+
+  const { from, to } = measurement;
+  const delta = new THREE.Vector3().subVectors(to, from);
+  return (
+    <>
+      <Line points={[from, to]} color={color} lineWidth={2} depthTest={false} />
+      <Dot position={from} />
+      <Dot position={to} />
+      <Label position={from.clone().lerp(to, 0.5)}>
+        {formatLength(delta.length())}
+        {measurement.kind === 'distance' && (
+          <span className="ml-2 text-pierre-text-secondary">
+            Δ {Math.abs(delta.x).toFixed(2)} / {Math.abs(delta.y).toFixed(2)} /{' '}
+            {Math.abs(delta.z).toFixed(2)}
+          </span>
+        )}
+      </Label>
+    </>
+  );
+}
+
+/**
+ * Bounding box of the model with its size along each axis
+ */
+function BoundingBoxDimensions({
+  geometry,
+}: {
+  geometry: THREE.BufferGeometry;
+}) {
+  const { segments, labels } = useMemo(() => {
+    geometry.computeBoundingBox();
+    const { min, max } = geometry.boundingBox!;
+    const corner = (x: number, y: number, z: number) =>
+      new THREE.Vector3(
+        x ? max.x : min.x,
+        y ? max.y : min.y,
+        z ? max.z : min.z,
+      );
+
+    const segments: THREE.Vector3[] = [];
+    for (let a = 0; a < 8; a++) {
+      for (let axis = 0; axis < 3; axis++) {
+        // Every edge once, from its corner with the lower coordinate
+        if (a & (1 << axis)) continue;
+        const b = a | (1 << axis);
+        segments.push(corner(a & 1, a & 2, a & 4), corner(b & 1, b & 2, b & 4));
+      }
+    }
+
+    // Sizes on three edges meeting at one bottom corner
+    const size = new THREE.Vector3().subVectors(max, min);
+    const labels = [
+      { axis: 'X', from: corner(0, 0, 0), to: corner(1, 0, 0), value: size.x },
+      { axis: 'Y', from: corner(1, 0, 0), to: corner(1, 1, 0), value: size.y },
+      { axis: 'Z', from: corner(1, 1, 0), to: corner(1, 1, 1), value: size.z },
+    ].map(({ axis, from, to, value }) => ({
+      axis,
+      position: from.lerp(to, 0.5),
+      value,
+    }));
+
+    return { segments, labels };
+  }, [geometry]);
+
+  return (
+    <>
+      <Line
+        points={segments}
+        segments
+        color={PREVIEW_COLOR}
+        lineWidth={1}
+        dashed
+        dashSize={1}
+        gapSize={1}
+      />
+      {labels.map(({ axis, position, value }) => (
+        <Label key={axis} position={position}>
+          {axis} {formatLength(value)}
+        </Label>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Measurement overlays for a model. Wraps the model's mesh to receive its
+ * pointer events, and must sit in the model's coordinate frame.
+ */
+export function MeasureTools({
+  geometry,
+  mode,
+  measurements,
+  onMeasure,
+  showBounds,
+  clippingPlanes = [],
+  children,
+}: {
+  geometry: THREE.BufferGeometry;
+  mode: MeasureMode | null;
+  measurements: Measurement[];
+  onMeasure: (measurement: Measurement) => void;
+  showBounds: boolean;
+  // Planes cutting the model, points on the cut away parts can't be picked
+  clippingPlanes?: THREE.Plane[];
+  children: ReactNode;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const { camera, size } = useThree();
+  const [hover, setHover] = useState<Pick | null>(null);
+  // First point of a distance measurement
+  const [pending, setPending] = useState<THREE.Vector3 | null>(null);
+
+  const needsEdges = mode === 'edge' || mode === 'hole';
+  const edges = useMemo(
+    () => (needsEdges ? new FeatureEdges(geometry) : null),
+    [geometry, needsEdges],
+  );
+
+  useEffect(() => {
+    setHover(null);
+    setPending(null);
+  }, [mode, geometry]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setPending(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Works the same for the perspective and the orthographic camera
+  const toScreen = (point: THREE.Vector3) => {
+    const ndc = groupRef.current!.localToWorld(point.clone()).project(camera);
+    return new THREE.Vector2(
+      ((ndc.x + 1) / 2) * size.width,
+      ((1 - ndc.y) / 2) * size.height,
+    );
+  };
+
+  const pick = (event: ThreeEvent<PointerEvent | MouseEvent>): Pick | null => {
+    const hit = event.intersections.find((intersection) =>
+      clippingPlanes.every(
+        (plane) => plane.distanceToPoint(intersection.point) >= 0,
+      ),
+    );
+    if (!mode || !groupRef.current || !hit) return null;
+    const point = groupRef.current.worldToLocal(hit.point.clone());
+    const pointer = toScreen(point);
+
+    if (mode === 'distance') {
+      // Snap to the closest corner of the triangle under the pointer
+      // The model may be drawn as several meshes, the face indexes the hit one
+      const mesh = hit.object as THREE.Mesh;
+      let snapped: THREE.Vector3 | null = null;
+      if (hit.face) {
+        const positions = mesh.geometry.getAttribute('position');
+        let best = SNAP_PIXELS;
+        for (const index of [hit.face.a, hit.face.b, hit.face.c]) {
+          const vertex = new THREE.Vector3().fromBufferAttribute(
+            positions,
+            index,
+          );
+          const distance = toScreen(vertex).distanceTo(pointer);
+          if (distance < best) {
+            best = distance;
+            snapped = vertex;
+          }
+        }
+      }
+      const target = snapped ?? point;
+      return {
+        point: target,
+        isSnapped: !!snapped,
+        measurement: pending
+          ? { kind: 'distance', from: pending, to: target }
+          : undefined,
+      };
+    }
+
+    const nearest = edges?.nearest(point);
+    if (!edges || !nearest) return { point, isSnapped: false };
+    if (toScreen(nearest.point).distanceTo(pointer) > PICK_PIXELS) {
+      return { point, isSnapped: false };
+    }
+
+    if (mode === 'edge') {
+      const [from, to] = edges.straightEdge(nearest.segment);
+      return {
+        point: nearest.point,
+        isSnapped: true,
+        measurement: { kind: 'edge', from, to },
+      };
+    }
+
+    const ring = edges.ring(nearest.segment);
+    const circle = ring && fitCircle(ring);
+    return {
+      point: nearest.point,
+      isSnapped: !!circle,
+      measurement: circle ? { kind: 'hole', circle, ring } : undefined,
+    };
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    if (!mode) return;
+    event.stopPropagation();
+    setHover(pick(event));
+  };
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    if (!mode || event.delta > CLICK_PIXELS) return;
+    event.stopPropagation();
+    const picked = pick(event);
+    if (!picked) return;
+
+    if (mode === 'distance' && !pending) {
+      setPending(picked.point);
+    } else if (picked.measurement) {
+      onMeasure(picked.measurement);
+      setPending(null);
+    }
+  };
+
+  return (
+    <>
+      <group
+        ref={groupRef}
+        onPointerMove={handlePointerMove}
+        onPointerOut={() => setHover(null)}
+        onClick={handleClick}
+      >
+        {children}
+      </group>
+      {showBounds && <BoundingBoxDimensions geometry={geometry} />}
+      {measurements.map((measurement, index) => (
+        <MeasurementView
+          key={index}
+          measurement={measurement}
+          color={MEASURE_COLOR}
+        />
+      ))}
+      {mode && hover?.measurement && (
+        <MeasurementView
+          measurement={hover.measurement}
+          color={PREVIEW_COLOR}
+        />
+      )}
+      {mode && pending && <Dot position={pending} isSnapped />}
+      {mode === 'distance' && hover && (
+        <Dot position={hover.point} isSnapped={hover.isSnapped} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+import { useMemo } from 'react';
+import { isEdgeIssue, MeshAnalysis } from '@/lib/meshAnalysis';
+import { MESH_ISSUES } from '@/features/viewer/meshIssues';
+
+export type MeshIssueHighlights = Partial<MeshAnalysis>;
+
+function edgeGeometry(edges: number[]) {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    'position',
+    new THREE.BufferAttribute(new Float32Array(edges), 3),
+  );
+  return geometry;
+}
+
+function triangleGeometry(geometry: THREE.BufferGeometry, triangles: number[]) {
+  const positions = geometry.getAttribute('position').array;
+  const result = new Float32Array(triangles.length * 9);
+  triangles.forEach((t, index) => {
+    for (let k = 0; k < 9; k++) {
+      result[index * 9 + k] = positions[t * 9 + k];
+    }
+  });
+
+  const highlight = new THREE.BufferGeometry();
+  highlight.setAttribute('position', new THREE.BufferAttribute(result, 3));
+  return highlight;
+}
+
+/**
+ * Problem regions drawn over a mesh: edges as lines visible through the
+ * model, triangles as colored patches on its surface
+ */
+export function MeshIssueOverlay({
+  geometry,
+  highlights,
+  clippingPlanes = [],
+}: {
+  geometry: THREE.BufferGeometry;
+  highlights: MeshIssueHighlights;
+  clippingPlanes?: THREE.Plane[];
+}) {
+  const layers = useMemo(
+    () =>
+      MESH_ISSUES.flatMap(({ kind, color }) => {
+        const issues = highlights[kind];
+        if (!issues || issues.length === 0) return [];
+        const isEdge = isEdgeIssue(kind);
+        return [
+          {
+            kind,
+            color,
+            isEdge,
+            geometry: isEdge
+              ? edgeGeometry(issues)
+              : triangleGeometry(geometry, issues),
+          },
+        ];
+      }),
+    [geometry, highlights],
+  );
+
+  return (
+    <>
+      {layers.map((layer) =>
+        layer.isEdge ? (
+          <lineSegments
+            key={layer.kind}
+            geometry={layer.geometry}
+            renderOrder={2}
+          >
+            <lineBasicMaterial
+              color={layer.color}
+              depthTest={false}
+              clippingPlanes={clippingPlanes}
+            />
+          </lineSegments>
+        ) : (
+          <mesh key={layer.kind} geometry={layer.geometry} renderOrder={1}>
+            <meshBasicMaterial
+              color={layer.color}
+              side={THREE.DoubleSide}
+              transparent
+              opacity={0.8}
+              polygonOffset
+              polygonOffsetFactor={-1}
+              polygonOffsetUnits={-1}
+              clippingPlanes={clippingPlanes}
+            />
+          </mesh>
+        ),
+      )}
+    </>
+  );
+}
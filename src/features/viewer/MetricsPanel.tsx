@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Ruler } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/ui/select';
+import { cn } from '@/lib/utils';
+import { MaterialId, MATERIALS } from '@/lib/geometryMetrics';
+import { DesignMetrics } from '@/services/brainstormService';
+
+interface MetricsPanelProps {
+  metrics: DesignMetrics;
+  materialId: MaterialId;
+  onMaterialChange: (id: MaterialId) => void;
+  className?: string;
+}
+
+function formatNumber(value: number, digits = 1) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: digits });
+}
+
+function formatDuration(minutes: number) {
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} h ${Math.round(minutes - hours * 60)} min`;
+}
+
+/**
+ * Size and print estimates of the compiled model. Collapsed it only shows the
+ * bounding box and weight.
+ */
+export function MetricsPanel({
+  metrics,
+  materialId,
+  onMaterialChange,
+  className,
+}: MetricsPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { dimensions } = metrics;
+
+  const rows: [string, string][] = [
+    ['Volume', `${formatNumber(metrics.volume ?? 0, 2)} cm³`],
+    ['Surface', `${formatNumber(metrics.surfaceArea ?? 0, 2)} cm²`],
+    ['Triangles', formatNumber(metrics.polygonCount ?? 0, 0)],
+    ['Print time', formatDuration(metrics.printTime ?? 0)],
+  ];
+
+  return (
+    <div
+      className={cn(
+        'w-56 rounded-lg border border-white/10 bg-black/60 text-xs text-white/90 backdrop-blur-sm',
+        className,
+      )}
+    >
+      <button
+        type="button"
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        className="flex w-full items-center gap-2 px-3 py-2"
+        title={isExpanded ? 'Hide metrics' : 'Show metrics'}
+      >
+        <Ruler className="h-3.5 w-3.5 shrink-0 text-white/60" />
+        <span className="flex-1 truncate text-left font-mono">
+          {dimensions
+            ? `${formatNumber(dimensions.x)} × ${formatNumber(dimensions.y)} × ${formatNumber(dimensions.z)} mm`
+            : '—'}
+        </span>
+        <span className="shrink-0 font-mono text-white/60">
+          {formatNumber(metrics.material ?? 0)} g
+        </span>
+        {isExpanded ? (
+          <ChevronDown className="h-3.5 w-3.5 shrink-0" />
+        ) : (
+          <ChevronUp className="h-3.5 w-3.5 shrink-0" />
+        )}
+      </button>
+      {isExpanded && (
+        <div className="flex flex-col gap-1 border-t border-white/10 px-3 py-2">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-2">
+              <span className="text-white/60">{label}</span>
+              <span className="font-mono">{value}</span>
+            </div>
+          ))}
+          <div className="mt-1 flex items-center justify-between gap-2">
+            <span className="text-white/60">Material</span>
+            <Select
+              value={materialId}
+              onValueChange={(value) => onMaterialChange(value as MaterialId)}
+            >
+              <SelectTrigger className="h-6 w-28 border-white/10 bg-transparent px-2 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MATERIALS.map((material) => (
+                  <SelectItem key={material.id} value={material.id}>
+                    {material.name} · {material.density} g/cm³
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
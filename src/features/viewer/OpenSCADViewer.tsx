@@ -1,28 +1,239 @@
 import { useOpenSCAD } from '@/hooks/useOpenSCAD';
-import { useCallback, useEffect, useState } from 'react';
-import { ThreeScene } from '@/features/viewer/ThreeScene';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  CompareLayout,
+  ScenePart,
+  ThreeScene,
+} from '@/features/viewer/ThreeScene';
 import { STLLoader } from 'three/addons/loaders/STLLoader.js';
-import { BufferGeometry } from 'three';
+import { Box3, BufferAttribute, BufferGeometry, Vector3 } from 'three';
 import { Loader2, CircleAlert, Wrench } from 'lucide-react';
 import { Button } from '@/ui/button';
 import OpenSCADError from '@/lib/OpenSCADError';
+import ComplexityError from '@/lib/ComplexityError';
+import CompileTimeoutError from '@/lib/CompileTimeoutError';
+import { DEFAULT_COMPILE_TIMEOUT } from '@/lib/compilePool';
 import { cn } from '@/lib/utils';
-import { useConversation } from '@/services/conversationService';
+import {
+  useConversation,
+  useUpdateConversationCompileTimeout,
+} from '@/services/conversationService';
 import { useCurrentMessage } from '@/core/CurrentMessageContext';
-import { Content } from '@shared/types';
-import { useSendContentMutation } from '@/services/messageService';
+import { Content, Diagnostic } from '@shared/types';
+import { formatDiagnostics } from '@shared/openscad/diagnostics';
+import {
+  useArtifactVersions,
+  useMessagesQuery,
+  useSendContentMutation,
+} from '@/services/messageService';
 import { useBlob } from '@/core/BlobContext';
+import { ExportMenu } from '@/features/viewer/ExportMenu';
+import { FlatPreview } from '@/features/viewer/FlatPreview';
+import { CompareMenu, CompareTarget } from '@/features/viewer/CompareMenu';
+import { VersionComparison } from '@/features/viewer/VersionComparison';
+import Tree from '@shared/Tree';
+import { ProblemsList } from '@/features/editor/ProblemsList';
+import { RevealTarget, useCodeEditor } from '@/core/CodeEditorContext';
+import { MetricsPanel } from '@/features/viewer/MetricsPanel';
+import {
+  useMaterialPreference,
+  useMeshMeasurements,
+} from '@/hooks/useMeshMeasurements';
+import { toDesignMetrics } from '@/lib/geometryMetrics';
+import { PrintabilityMenu } from '@/features/viewer/PrintabilityMenu';
+import {
+  useMeshAnalysis,
+  usePrintabilityOptions,
+} from '@/hooks/useMeshAnalysis';
+import {
+  hasMeshDefects,
+  MeshAnalysis,
+  MeshIssueKind,
+} from '@/lib/meshAnalysis';
+import {
+  useLogError,
+  useRecordMeshDefects,
+} from '@/services/qualityService';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/ui/select';
+import { PartsMenu } from '@/features/viewer/PartsMenu';
+import { useColor } from '@/core/ColorContext';
+import { useParameterOverrides } from '@/core/ParameterOverridesContext';
 
 export function OpenSCADViewer() {
   const { conversation } = useConversation();
   const { currentMessage } = useCurrentMessage();
   const { setBlob } = useBlob();
-  const { compileScad, isCompiling, output, isError, error } = useOpenSCAD();
+  const {
+    compileScad,
+    isCompiling,
+    output,
+    isError,
+    error,
+    diagnostics,
+    parts,
+    isDraft,
+  } = useOpenSCAD();
+  const { color } = useColor();
+  const { revealLine } = useCodeEditor();
   const [geometry, setGeometry] = useState<BufferGeometry | null>(null);
   const { mutate: sendMessage } = useSendContentMutation({ conversation });
 
   const scadCode = currentMessage?.content.artifact?.code;
 
+  // Parameters being edited, only meant for the code they were edited on
+  const { overrides } = useParameterOverrides();
+  const params = useMemo(
+    () =>
+      overrides && overrides.code === scadCode
+        ? overrides.parameters
+        : undefined,
+    [overrides, scadCode],
+  );
+  const designMode = currentMessage?.content.artifact?.mode;
+
+  const { data: messages = [] } = useMessagesQuery();
+  const versions = useArtifactVersions();
+  const [compareWith, setCompareWith] = useState<string | null>(null);
+  const [compareLayout, setCompareLayout] = useState<CompareLayout>('overlay');
+  // Code the user chose to render despite the complexity warning
+  const [forcedCode, setForcedCode] = useState<string | null>(null);
+
+  const measurements = useMeshMeasurements(output);
+  const { material, setMaterialId } = useMaterialPreference();
+  const metrics = useMemo(
+    () => measurements && toDesignMetrics(measurements, material.density),
+    [measurements, material.density],
+  );
+
+  const { options: printability, setOptions: setPrintability } =
+    usePrintabilityOptions();
+  const analysis = useMeshAnalysis(output, printability);
+  const [highlighted, setHighlighted] = useState<MeshIssueKind[]>([
+    'openEdges',
+    'nonManifoldEdges',
+    'invertedNormals',
+  ]);
+  const highlights = useMemo(
+    () =>
+      analysis
+        ? Object.fromEntries(highlighted.map((kind) => [kind, analysis[kind]]))
+        : undefined,
+    [analysis, highlighted],
+  );
+
+  // Broken meshes count against the message's quality score
+  const { mutate: recordMeshDefects } = useRecordMeshDefects();
+  const recordedAnalysisRef = useRef<MeshAnalysis | null>(null);
+  useEffect(() => {
+    // Each analysis once, and never against a message switched to since or
+    // for parameters that aren't saved
+    if (
+      !analysis ||
+      !currentMessage ||
+      isCompiling ||
+      params ||
+      recordedAnalysisRef.current === analysis
+    ) {
+      return;
+    }
+    recordedAnalysisRef.current = analysis;
+    recordMeshDefects({
+      messageId: currentMessage.id,
+      hasDefects: hasMeshDefects(analysis),
+    });
+  }, [analysis, currentMessage, isCompiling, params, recordMeshDefects]);
+
+  // Renders that ran out of time are logged apart from compile errors
+  const { mutate: logError } = useLogError();
+  const loggedTimeoutRef = useRef<CompileTimeoutError | null>(null);
+  useEffect(() => {
+    if (
+      !(error instanceof CompileTimeoutError) ||
+      loggedTimeoutRef.current === error
+    ) {
+      return;
+    }
+    loggedTimeoutRef.current = error;
+    logError({
+      error_type: 'timeout',
+      severity: 'error',
+      error_message: error.message,
+      message_id: currentMessage?.id,
+      conversation_id: conversation.id,
+      generated_code: scadCode,
+    });
+  }, [error, currentMessage, conversation.id, scadCode, logError]);
+
+  // Models with a single uncolored object are drawn as one mesh. Parts are
+  // centered together, like the combined geometry.
+  const sceneParts = useMemo((): ScenePart[] | undefined => {
+    if (parts.length < 2 && !parts.some((part) => part.color)) return;
+    const geometries = parts.map((part) => {
+      const partGeometry = new BufferGeometry();
+      partGeometry.setAttribute(
+        'position',
+        new BufferAttribute(part.positions.slice(), 3),
+      );
+      return partGeometry;
+    });
+    const box = new Box3();
+    geometries.forEach((partGeometry) => {
+      partGeometry.computeBoundingBox();
+      box.union(partGeometry.boundingBox!);
+    });
+    const center = box.getCenter(new Vector3());
+    return geometries.map((partGeometry, index) => {
+      partGeometry.translate(-center.x, -center.y, -center.z);
+      partGeometry.computeVertexNormals();
+      return {
+        geometry: partGeometry,
+        color: parts[index].color,
+        opacity: parts[index].opacity,
+      };
+    });
+  }, [parts]);
+  const [selectedPart, setSelectedPart] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSelectedPart(null);
+  }, [parts]);
+
+  // Earlier versions on the path to the current message, newest first
+  const compareTargets = useMemo(() => {
+    if (!currentMessage) return [];
+    return new Tree(messages)
+      .getPath(currentMessage.id)
+      .filter(
+        (message) =>
+          message.id !== currentMessage.id &&
+          message.role === 'assistant' &&
+          message.content.artifact?.code &&
+          message.content.artifact.mode !== '2d',
+      )
+      .reverse()
+      .map(
+        (message): CompareTarget & { code: string } => ({
+          id: message.id,
+          label: `${versions.get(message.id) ?? message.content.artifact!.version} · ${message.content.artifact!.title}`,
+          code: message.content.artifact!.code,
+        }),
+      );
+  }, [messages, currentMessage, versions]);
+  const compareTarget = compareTargets.find(
+    (target) => target.id === compareWith,
+  );
+
+  // Comparisons are always against the message on screen
+  useEffect(() => {
+    setCompareWith(null);
+  }, [currentMessage?.id]);
+
   // Log component mount
   useEffect(() => {
     console.log('[OpenSCADViewer] Component mounted');
@@ -40,15 +251,27 @@ export function OpenSCADViewer() {
     }
   }, [currentMessage, scadCode]);
 
-  // Compile when code changes
+  // Time limit of a render, set per conversation
+  const { mutate: updateCompileTimeout } =
+    useUpdateConversationCompileTimeout();
+  const compileTimeout = conversation.compile_timeout_seconds
+    ? conversation.compile_timeout_seconds * 1000
+    : DEFAULT_COMPILE_TIMEOUT;
+
+  // Compile when code or parameters change
   useEffect(() => {
     if (scadCode) {
       console.log('[OpenSCADViewer] 🚀 Starting compilation...');
-      compileScad(scadCode);
+      compileScad(scadCode, designMode, {
+        skipComplexityCheck: forcedCode === scadCode,
+        timeout: compileTimeout,
+        params,
+        progressive: true,
+      });
     } else {
       console.log('[OpenSCADViewer] ⚠️ No code to compile');
     }
-  }, [scadCode, compileScad]);
+  }, [scadCode, designMode, compileScad, forcedCode, compileTimeout, params]);
 
   // Handle compilation output
   useEffect(() => {
@@ -61,7 +284,7 @@ export function OpenSCADViewer() {
 
     setBlob(output ?? null);
 
-    if (output && output instanceof Blob) {
+    if (output && output instanceof Blob && output.type === 'model/stl') {
       console.log('[OpenSCADViewer] ✅ Compilation successful, loading STL...');
       console.log('[OpenSCADViewer] Blob size:', output.size, 'bytes');
 
@@ -84,15 +307,24 @@ export function OpenSCADViewer() {
   }, [output, setBlob, isError, error]);
 
   const fixError = useCallback(
-    async (error: OpenSCADError) => {
+    async (error: OpenSCADError | ComplexityError | CompileTimeoutError) => {
+      // Messages OpenSCAD did not locate, like the worker's own checks, are
+      // only in the raw log. A timeout has no log at all.
+      const stdErr = 'stdErr' in error ? error.stdErr : [];
       const newContent: Content = {
         text: 'Fix with AI',
-        error: error.stdErr.join('\n'),
+        error:
+          diagnostics.length > 0
+            ? formatDiagnostics(diagnostics)
+            : stdErr.length > 0
+              ? stdErr.join('\n')
+              : error.message,
+        diagnostics: diagnostics.length > 0 ? diagnostics : undefined,
       };
 
       sendMessage(newContent);
     },
-    [sendMessage],
+    [sendMessage, diagnostics],
   );
 
   const isLastMessage =
@@ -101,10 +333,27 @@ export function OpenSCADViewer() {
   return (
     <div className="relative h-full w-full bg-pierre-neutral-700/50 shadow-lg backdrop-blur-sm transition-all duration-300 ease-in-out">
       <div className="h-full w-full">
-        {geometry ? (
+        {geometry && compareTarget && output ? (
+          <div className="h-full w-full">
+            <VersionComparison
+              code={compareTarget.code}
+              label={versions.get(compareTarget.id) ?? 'previous version'}
+              output={output}
+              layout={compareLayout}
+            />
+          </div>
+        ) : geometry ? (
           <div className="h-full w-full">
-            <ThreeScene geometry={geometry} />
+            <ThreeScene
+              geometry={geometry}
+              highlights={highlights}
+              parts={sceneParts}
+              selectedPart={selectedPart}
+              onSelectPart={setSelectedPart}
+            />
           </div>
+        ) : output?.type === 'image/svg+xml' ? (
+          <FlatPreview svg={output} />
         ) : (
           <>
             {isError && (
@@ -112,12 +361,80 @@ export function OpenSCADViewer() {
                 <FixWithAIButton
                   error={error}
                   fixError={isLastMessage ? fixError : undefined}
+                  diagnostics={diagnostics}
+                  onSelectProblem={revealLine}
+                  onRenderAnyway={
+                    scadCode ? () => setForcedCode(scadCode) : undefined
+                  }
+                  timeoutSeconds={compileTimeout / 1000}
+                  onTimeoutChange={(seconds) =>
+                    updateCompileTimeout({
+                      conversationId: conversation.id,
+                      timeoutSeconds: seconds,
+                    })
+                  }
                 />
               </div>
             )}
           </>
         )}
-        {isCompiling && (
+        {scadCode && currentMessage && output && !isCompiling && (
+          <div className="absolute right-3 top-3 z-10 flex items-center gap-2">
+            {geometry && !compareTarget && sceneParts && (
+              <PartsMenu
+                parts={parts}
+                selected={selectedPart}
+                onSelectedChange={setSelectedPart}
+                defaultColor={color}
+                title={currentMessage.content.artifact?.title ?? ''}
+                messageId={currentMessage.id}
+                conversationId={conversation.id}
+              />
+            )}
+            {geometry && !compareTarget && (
+              <PrintabilityMenu
+                analysis={analysis}
+                highlighted={highlighted}
+                onHighlightedChange={setHighlighted}
+                options={printability}
+                onOptionsChange={setPrintability}
+              />
+            )}
+            {geometry && compareTargets.length > 0 && (
+              <CompareMenu
+                targets={compareTargets}
+                compareWith={compareWith}
+                onCompareWithChange={setCompareWith}
+                layout={compareLayout}
+                onLayoutChange={setCompareLayout}
+              />
+            )}
+            <ExportMenu
+              code={scadCode}
+              title={currentMessage.content.artifact?.title ?? ''}
+              is2D={output.type === 'image/svg+xml'}
+              messageId={currentMessage.id}
+              conversationId={conversation.id}
+            />
+          </div>
+        )}
+        {geometry && !compareTarget && metrics && !isCompiling && (
+          <MetricsPanel
+            metrics={metrics}
+            materialId={material.id}
+            onMaterialChange={setMaterialId}
+            className="absolute bottom-3 left-3 z-10"
+          />
+        )}
+        {isCompiling && isDraft && (
+          <div className="pointer-events-none absolute bottom-4 left-1/2 flex -translate-x-1/2 items-center gap-2 rounded-lg bg-pierre-neutral-800/80 px-3 py-1.5 backdrop-blur-sm">
+            <Loader2 className="h-3.5 w-3.5 animate-spin text-pierre-blue" />
+            <p className="text-xs font-medium text-pierre-text-primary/70">
+              Draft · Rendering full quality...
+            </p>
+          </div>
+        )}
+        {isCompiling && !isDraft && (
           <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-pierre-neutral-700/30 backdrop-blur-sm">
             <div className="flex flex-col items-center gap-3">
               <Loader2 className="h-6 w-6 animate-spin text-pierre-blue" />
@@ -132,13 +449,40 @@ export function OpenSCADViewer() {
   );
 }
 
+// Render time limits a conversation can pick, in seconds
+const TIMEOUT_OPTIONS = [15, 30, 60, 120, 300];
+
+function formatSeconds(seconds: number) {
+  return seconds < 60 ? `${seconds} s` : `${seconds / 60} min`;
+}
+
 function FixWithAIButton({
   error,
   fixError,
+  diagnostics,
+  onSelectProblem,
+  onRenderAnyway,
+  timeoutSeconds,
+  onTimeoutChange,
 }: {
-  error?: OpenSCADError | Error;
-  fixError?: (error: OpenSCADError) => void;
+  error?: OpenSCADError | ComplexityError | CompileTimeoutError | Error;
+  fixError?: (
+    error: OpenSCADError | ComplexityError | CompileTimeoutError,
+  ) => void;
+  diagnostics: Diagnostic[];
+  onSelectProblem: (target: RevealTarget) => void;
+  onRenderAnyway?: () => void;
+  timeoutSeconds: number;
+  onTimeoutChange: (seconds: number) => void;
 }) {
+  const isTooComplex = error?.name === 'ComplexityError';
+  const isTimeout = error?.name === 'CompileTimeoutError';
+  const isFixable =
+    error?.name === 'OpenSCADError' || isTooComplex || isTimeout;
+  const timeoutOptions = TIMEOUT_OPTIONS.includes(timeoutSeconds)
+    ? TIMEOUT_OPTIONS
+    : [...TIMEOUT_OPTIONS, timeoutSeconds].sort((a, b) => a - b);
+
   return (
     <div className="flex h-full flex-col items-center justify-center gap-4 p-6">
       <div className="flex flex-col items-center gap-3">
@@ -148,36 +492,80 @@ function FixWithAIButton({
         </div>
         <div className="text-center">
           <p className="text-sm font-medium text-pierre-blue">
-            Error Compiling Model
+            {isTimeout
+              ? 'Rendering Timed Out'
+              : isTooComplex
+                ? 'Model Looks Too Complex'
+                : 'Error Compiling Model'}
           </p>
           <p className="mt-1 text-xs text-pierre-text-primary/60">
-            Pierre encountered an error while compiling
+            {isTimeout
+              ? `Rendering was stopped after ${formatSeconds(timeoutSeconds)}`
+              : isTooComplex
+                ? 'Rendering it may take very long or run out of memory'
+                : 'Pierre encountered an error while compiling'}
           </p>
         </div>
       </div>
-      {fixError && error && error.name === 'OpenSCADError' && (
-        <Button
-          variant="ghost"
-          className={cn(
-            'group relative flex items-center gap-2 rounded-lg border',
-            'bg-gradient-to-br from-pierre-blue/20 to-pierre-neutral-800/70 p-3',
-            'border-pierre-blue/30 text-pierre-text-primary',
-            'transition-all duration-300 ease-in-out',
-            'hover:border-pierre-blue/70 hover:bg-pierre-blue/50 hover:text-white',
-            'hover:shadow-[0_0_25px_rgba(249,115,184,0.4)]',
-            'focus:outline-none focus:ring-2 focus:ring-pierre-blue/30',
-          )}
-          onClick={() => {
-            if (error && error.name === 'OpenSCADError') {
-              fixError?.(error as OpenSCADError);
-            }
-          }}
-        >
-          <div className="absolute inset-0 rounded-lg bg-gradient-to-br from-pierre-blue/20 to-transparent opacity-0 transition-opacity duration-300 group-hover:opacity-100" />
-          <Wrench className="h-4 w-4 transition-transform duration-300 group-hover:rotate-12" />
-          <span className="relative text-sm font-medium">Fix with AI</span>
-        </Button>
-      )}
+      <ProblemsList
+        diagnostics={diagnostics}
+        onSelect={onSelectProblem}
+        className="max-h-48 w-full max-w-md rounded-lg border border-pierre-neutral-700 bg-pierre-neutral-800/70 p-1"
+      />
+      <div className="flex items-center gap-2">
+        {isTimeout && (
+          <Select
+            value={String(timeoutSeconds)}
+            onValueChange={(value) => onTimeoutChange(Number(value))}
+          >
+            <SelectTrigger className="h-auto w-auto gap-2 rounded-lg border-pierre-neutral-700 bg-transparent p-3 text-sm text-pierre-text-primary hover:bg-pierre-neutral-800">
+              <span className="text-pierre-text-primary/60">Time limit</span>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeoutOptions.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {formatSeconds(seconds)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {isTooComplex && onRenderAnyway && (
+          <Button
+            variant="ghost"
+            className="rounded-lg border border-pierre-neutral-700 p-3 text-sm text-pierre-text-primary hover:bg-pierre-neutral-800"
+            onClick={onRenderAnyway}
+          >
+            Render anyway
+          </Button>
+        )}
+        {fixError && error && isFixable && (
+          <Button
+            variant="ghost"
+            className={cn(
+              'group relative flex items-center gap-2 rounded-lg border',
+              'bg-gradient-to-br from-pierre-blue/20 to-pierre-neutral-800/70 p-3',
+              'border-pierre-blue/30 text-pierre-text-primary',
+              'transition-all duration-300 ease-in-out',
+              'hover:border-pierre-blue/70 hover:bg-pierre-blue/50 hover:text-white',
+              'hover:shadow-[0_0_25px_rgba(249,115,184,0.4)]',
+              'focus:outline-none focus:ring-2 focus:ring-pierre-blue/30',
+            )}
+            onClick={() => {
+              if (error && isFixable) {
+                fixError?.(
+                  error as OpenSCADError | ComplexityError | CompileTimeoutError,
+                );
+              }
+            }}
+          >
+            <div className="absolute inset-0 rounded-lg bg-gradient-to-br from-pierre-blue/20 to-transparent opacity-0 transition-opacity duration-300 group-hover:opacity-100" />
+            <Wrench className="h-4 w-4 transition-transform duration-300 group-hover:rotate-12" />
+            <span className="relative text-sm font-medium">Fix with AI</span>
+          </Button>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,102 @@
+import { Boxes, Download } from 'lucide-react';
+import { Button } from '@/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/ui/dropdown-menu';
+import { MeshPart, toBinarySTL } from '@/lib/meshParts';
+import { downloadBlob, toFileName } from '@/lib/download';
+import { useRecordExport } from '@/services/qualityService';
+
+// Radio value of "no part selected"
+const NONE = 'none';
+
+interface PartsMenuProps {
+  parts: MeshPart[];
+  // Index into `parts`
+  selected: number | null;
+  onSelectedChange: (index: number | null) => void;
+  // Uncolored parts are drawn in this
+  defaultColor: string;
+  title: string;
+  messageId: string;
+  conversationId: string;
+}
+
+export function PartsMenu({
+  parts,
+  selected,
+  onSelectedChange,
+  defaultColor,
+  title,
+  messageId,
+  conversationId,
+}: PartsMenuProps) {
+  const { mutate: recordExport } = useRecordExport();
+  const selectedPart = selected !== null ? parts[selected] : undefined;
+
+  const handleExportPart = () => {
+    if (!selectedPart) return;
+    const stl = toBinarySTL([selectedPart]);
+    downloadBlob(
+      new Blob([stl], { type: 'model/stl' }),
+      `${toFileName(title)}-${toFileName(selectedPart.name)}.stl`,
+    );
+    recordExport({ messageId, conversationId, exportType: 'stl' });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1.5 rounded-lg bg-pierre-neutral-800/80 px-3 text-xs text-pierre-text-primary backdrop-blur-sm hover:bg-pierre-neutral-800"
+        >
+          <Boxes className="h-3.5 w-3.5" />
+          Parts
+          <span className="font-mono text-pierre-text-secondary">
+            {parts.length}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="max-h-96 w-60 overflow-y-auto"
+      >
+        <DropdownMenuLabel>Select part</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={selected !== null ? String(selected) : NONE}
+          onValueChange={(value) =>
+            onSelectedChange(value === NONE ? null : Number(value))
+          }
+        >
+          <DropdownMenuRadioItem value={NONE}>None</DropdownMenuRadioItem>
+          {parts.map((part, index) => (
+            <DropdownMenuRadioItem key={index} value={String(index)}>
+              <span
+                className="mr-2 h-2.5 w-2.5 shrink-0 rounded-sm"
+                style={{ backgroundColor: part.color ?? defaultColor }}
+              />
+              <span className="flex-1 truncate">{part.name}</span>
+              <span className="ml-2 font-mono text-xs text-muted-foreground">
+                {part.positions.length / 9}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem disabled={!selectedPart} onSelect={handleExportPart}>
+          <Download className="mr-2 h-3.5 w-3.5" />
+          Export part as STL
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
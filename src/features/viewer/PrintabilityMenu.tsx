@@ -0,0 +1,132 @@
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Button } from '@/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import {
+  countIssues,
+  MeshAnalysis,
+  MeshIssueKind,
+  PrintabilityOptions,
+} from '@/lib/meshAnalysis';
+import { MESH_ISSUES } from '@/features/viewer/meshIssues';
+
+const OVERHANG_ANGLES = [30, 45, 60];
+const NOZZLE_WIDTHS = [0.25, 0.4, 0.6, 0.8];
+
+interface PrintabilityMenuProps {
+  // Null while the model is being checked
+  analysis: MeshAnalysis | null;
+  highlighted: MeshIssueKind[];
+  onHighlightedChange: (kinds: MeshIssueKind[]) => void;
+  options: PrintabilityOptions;
+  onOptionsChange: (options: Partial<PrintabilityOptions>) => void;
+}
+
+export function PrintabilityMenu({
+  analysis,
+  highlighted,
+  onHighlightedChange,
+  options,
+  onOptionsChange,
+}: PrintabilityMenuProps) {
+  const defects = analysis
+    ? MESH_ISSUES.filter(
+        ({ kind, isDefect }) => isDefect && countIssues(analysis, kind) > 0,
+      ).length
+    : 0;
+  const warnings = analysis
+    ? MESH_ISSUES.filter(
+        ({ kind, isDefect }) => !isDefect && countIssues(analysis, kind) > 0,
+      ).length
+    : 0;
+  const Icon = !analysis
+    ? Loader2
+    : defects + warnings > 0
+      ? ShieldAlert
+      : ShieldCheck;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'h-8 gap-1.5 rounded-lg bg-pierre-neutral-800/80 px-3 text-xs text-pierre-text-primary backdrop-blur-sm hover:bg-pierre-neutral-800',
+            defects > 0 ? 'text-red-400' : warnings > 0 && 'text-yellow-400',
+          )}
+        >
+          <Icon className={cn('h-3.5 w-3.5', !analysis && 'animate-spin')} />
+          Printability
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Highlight</DropdownMenuLabel>
+        {MESH_ISSUES.map(({ kind, label, color }) => {
+          const count = analysis ? countIssues(analysis, kind) : null;
+          return (
+            <DropdownMenuCheckboxItem
+              key={kind}
+              checked={highlighted.includes(kind)}
+              onCheckedChange={(checked) =>
+                onHighlightedChange(
+                  checked
+                    ? [...highlighted, kind]
+                    : highlighted.filter((other) => other !== kind),
+                )
+              }
+              // Keep the menu open to toggle several
+              onSelect={(event) => event.preventDefault()}
+            >
+              <span
+                className="mr-2 h-2.5 w-2.5 shrink-0 rounded-sm"
+                style={{ backgroundColor: color }}
+              />
+              <span className="flex-1">{label}</span>
+              <span className="ml-2 font-mono text-xs text-muted-foreground">
+                {count ?? '…'}
+              </span>
+            </DropdownMenuCheckboxItem>
+          );
+        })}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Overhang angle</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={String(options.overhangAngle)}
+          onValueChange={(value) =>
+            onOptionsChange({ overhangAngle: Number(value) })
+          }
+        >
+          {OVERHANG_ANGLES.map((angle) => (
+            <DropdownMenuRadioItem key={angle} value={String(angle)}>
+              {angle}° from vertical
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Nozzle width</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={String(options.nozzleWidth)}
+          onValueChange={(value) =>
+            onOptionsChange({ nozzleWidth: Number(value) })
+          }
+        >
+          {NOZZLE_WIDTHS.map((width) => (
+            <DropdownMenuRadioItem key={width} value={String(width)}>
+              {width} mm
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,107 @@
+import { ArrowLeftRight, Scissors } from 'lucide-react';
+import { Slider } from '@/ui/slider';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { Section, SectionAxis } from '@/features/viewer/SectionView';
+
+const AXES: SectionAxis[] = ['x', 'y', 'z'];
+
+interface SectionControlsProps {
+  section: Section | null;
+  onSectionChange: (section: Section | null) => void;
+}
+
+/**
+ * Cut the model along an axis. Picking the active axis again removes the cut.
+ */
+export function SectionControls({
+  section,
+  onSectionChange,
+}: SectionControlsProps) {
+  return (
+    <div className="border-pierre-neutral-600/30 flex items-center gap-1 rounded-lg border bg-pierre-neutral-800/60 px-1.5 py-1.5 shadow-lg backdrop-blur-sm">
+      <TooltipProvider delayDuration={300}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="flex h-7 w-7 cursor-help items-center justify-center text-pierre-text-primary/70">
+              <Scissors className="h-4 w-4" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent
+            side="top"
+            className="border-pierre-neutral-700 bg-pierre-background-2 text-pierre-text-primary"
+          >
+            <p>Section view</p>
+          </TooltipContent>
+        </Tooltip>
+        {AXES.map((axis) => (
+          <button
+            key={axis}
+            type="button"
+            aria-label={`Cut along ${axis.toUpperCase()}`}
+            aria-pressed={section?.axis === axis}
+            onClick={() =>
+              onSectionChange(
+                section?.axis === axis
+                  ? null
+                  : {
+                      axis,
+                      position: section?.position ?? 0.5,
+                      flipped: false,
+                    },
+              )
+            }
+            className={cn(
+              'flex h-7 w-7 items-center justify-center rounded-md font-mono text-xs uppercase transition-colors duration-200',
+              section?.axis === axis
+                ? 'bg-pierre-blue/20 text-pierre-blue'
+                : 'text-pierre-text-primary/70 hover:text-pierre-text-primary',
+            )}
+          >
+            {axis}
+          </button>
+        ))}
+        {section && (
+          <>
+            <Slider
+              className="mx-2 w-28"
+              value={[section.position * 100]}
+              min={0}
+              max={100}
+              step={0.5}
+              hideDefaultMarker
+              onValueChange={([value]) =>
+                onSectionChange({ ...section, position: value / 100 })
+              }
+            />
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  aria-label="Flip cut side"
+                  onClick={() =>
+                    onSectionChange({ ...section, flipped: !section.flipped })
+                  }
+                  className="flex h-7 w-7 items-center justify-center rounded-md text-pierre-text-primary/70 transition-colors duration-200 hover:text-pierre-text-primary"
+                >
+                  <ArrowLeftRight className="h-4 w-4" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent
+                side="top"
+                className="border-pierre-neutral-700 bg-pierre-background-2 text-pierre-text-primary"
+              >
+                <p>Flip cut side</p>
+              </TooltipContent>
+            </Tooltip>
+          </>
+        )}
+      </TooltipProvider>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import * as THREE from 'three';
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+
+export type SectionAxis = 'x' | 'y' | 'z';
+
+export type Section = {
+  axis: SectionAxis;
+  // Position of the cut across the model's bounding box, 0 to 1
+  position: number;
+  // Keep the part above the cut instead of the part below it
+  flipped: boolean;
+};
+
+const AXIS_INDEX: Record<SectionAxis, number> = { x: 0, y: 1, z: 2 };
+
+/**
+ * Cut plane in the model's own coordinates, and the rectangle of the bounding
+ * box it cuts through to draw the cap on
+ */
+function sectionGeometry(geometry: THREE.BufferGeometry, section: Section) {
+  geometry.computeBoundingBox();
+  const { min, max } = geometry.boundingBox!;
+  const axis = AXIS_INDEX[section.axis];
+  const at = THREE.MathUtils.lerp(
+    min.getComponent(axis),
+    max.getComponent(axis),
+    section.position,
+  );
+
+  // Clipping keeps what's on the normal's side
+  const normal = new THREE.Vector3().setComponent(
+    axis,
+    section.flipped ? 1 : -1,
+  );
+  const plane = new THREE.Plane(normal, section.flipped ? -at : at);
+
+  // Staying inside the bounding box keeps the Stage from recentering
+  const [u, v] = [0, 1, 2].filter((other) => other !== axis);
+  const corner = (uMax: boolean, vMax: boolean) =>
+    new THREE.Vector3()
+      .setComponent(axis, at)
+      .setComponent(u, uMax ? max.getComponent(u) : min.getComponent(u))
+      .setComponent(v, vMax ? max.getComponent(v) : min.getComponent(v));
+  const cap = new THREE.BufferGeometry().setFromPoints([
+    corner(false, false),
+    corner(true, false),
+    corner(true, true),
+    corner(false, false),
+    corner(true, true),
+    corner(false, true),
+  ]);
+  cap.computeVertexNormals();
+
+  return { plane, cap };
+}
+
+/**
+ * Cut through a model: updates `plane` to clip the model's materials with,
+ * and fills the cut surface. The fill is drawn where the stencil buffer says
+ * a ray passed through more back faces than front faces of the clipped
+ * model, that is where the camera looks into the solid.
+ */
+export function SectionView({
+  geometry,
+  section,
+  plane,
+  color,
+}: {
+  geometry: THREE.BufferGeometry;
+  section: Section;
+  // World space plane shared with the model's materials
+  plane: THREE.Plane;
+  color: string;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const gl = useThree((state) => state.gl);
+
+  useEffect(() => {
+    gl.localClippingEnabled = true;
+  }, [gl]);
+
+  const { plane: localPlane, cap } = useMemo(
+    () => sectionGeometry(geometry, section),
+    [geometry, section],
+  );
+  useEffect(() => () => cap.dispose(), [cap]);
+
+  const capColor = useMemo(
+    () => new THREE.Color(color).multiplyScalar(0.6),
+    [color],
+  );
+
+  // The model moves with the Stage and the camera, the plane has to follow
+  useFrame(() => {
+    if (!groupRef.current) return;
+    plane.copy(localPlane).applyMatrix4(groupRef.current.matrixWorld);
+  });
+
+  const stencil = {
+    colorWrite: false,
+    depthWrite: false,
+    depthTest: false,
+    stencilWrite: true,
+    stencilFunc: THREE.AlwaysStencilFunc,
+    clippingPlanes: [plane],
+  };
+
+  return (
+    <group ref={groupRef}>
+      <mesh geometry={geometry} renderOrder={1}>
+        <meshBasicMaterial
+          {...stencil}
+          side={THREE.BackSide}
+          stencilFail={THREE.IncrementWrapStencilOp}
+          stencilZFail={THREE.IncrementWrapStencilOp}
+          stencilZPass={THREE.IncrementWrapStencilOp}
+        />
+      </mesh>
+      <mesh geometry={geometry} renderOrder={1}>
+        <meshBasicMaterial
+          {...stencil}
+          side={THREE.FrontSide}
+          stencilFail={THREE.DecrementWrapStencilOp}
+          stencilZFail={THREE.DecrementWrapStencilOp}
+          stencilZPass={THREE.DecrementWrapStencilOp}
+        />
+      </mesh>
+      <mesh
+        geometry={cap}
+        renderOrder={2}
+        onAfterRender={(renderer) => renderer.clearStencil()}
+      >
+        <meshStandardMaterial
+          color={capColor}
+          metalness={0.2}
+          roughness={0.8}
+          side={THREE.DoubleSide}
+          stencilWrite
+          stencilRef={0}
+          stencilFunc={THREE.NotEqualStencilFunc}
+          stencilFail={THREE.ReplaceStencilOp}
+          stencilZFail={THREE.ReplaceStencilOp}
+          stencilZPass={THREE.ReplaceStencilOp}
+        />
+      </mesh>
+    </group>
+  );
+}
@@ -8,18 +8,161 @@ import {
   PerspectiveCamera,
 } from '@react-three/drei';
 import * as THREE from 'three';
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { OrthographicPerspectiveToggle } from '@/features/viewer/OrthographicPerspectiveToggle';
 import { useColor } from '@/core/ColorContext';
+import { meshDiff } from '@/lib/meshDiff';
+import {
+  MeshIssueHighlights,
+  MeshIssueOverlay,
+} from '@/features/viewer/MeshIssueOverlay';
+import { MeasureTools } from '@/features/viewer/MeasureTools';
+import { MeasureToolbar } from '@/features/viewer/MeasureToolbar';
+import { MeasureMode, Measurement } from '@/lib/measurement';
+import { Section, SectionView } from '@/features/viewer/SectionView';
+import { SectionControls } from '@/features/viewer/SectionControls';
+
+// 'overlay' colors added and removed material on the new model,
+// 'side-by-side' puts a ghost of the old model next to it
+export type CompareLayout = 'overlay' | 'side-by-side';
+
+export type GeometryComparison = {
+  // Older version, in the same coordinate frame as `geometry`
+  before: THREE.BufferGeometry;
+  layout: CompareLayout;
+};
+
+// A separately rendered object of the model, in the same coordinate frame as
+// the combined geometry
+export type ScenePart = {
+  geometry: THREE.BufferGeometry;
+  // Falls back to the model color
+  color?: string;
+  opacity?: number;
+};
+
+const ADDED_COLOR = '#22C55E';
+const REMOVED_COLOR = '#EF4444';
+const SELECTED_COLOR = '#00A6FF';
+
+function ComparisonMeshes({
+  geometry,
+  comparison,
+  color,
+}: {
+  geometry: THREE.BufferGeometry;
+  comparison: GeometryComparison;
+  color: string;
+}) {
+  const diff = useMemo(
+    () =>
+      comparison.layout === 'overlay'
+        ? meshDiff(comparison.before, geometry)
+        : null,
+    [comparison.before, comparison.layout, geometry],
+  );
 
-export function ThreeScene({ geometry }: { geometry: THREE.BufferGeometry }) {
+  // Gap between the two models when shown side by side
+  const offset = useMemo(() => {
+    if (comparison.layout !== 'side-by-side') return 0;
+    comparison.before.computeBoundingBox();
+    geometry.computeBoundingBox();
+    const before = comparison.before.boundingBox!;
+    const after = geometry.boundingBox!;
+    const gap = 0.2 * Math.max(after.max.x - after.min.x, 1);
+    return after.min.x - before.max.x - gap;
+  }, [comparison.before, comparison.layout, geometry]);
+
+  if (diff) {
+    return (
+      <>
+        <mesh geometry={diff.unchanged}>
+          <meshStandardMaterial color={color} metalness={0.5} roughness={0.4} />
+        </mesh>
+        <mesh geometry={diff.added}>
+          <meshStandardMaterial
+            color={ADDED_COLOR}
+            metalness={0.2}
+            roughness={0.6}
+          />
+        </mesh>
+        <mesh geometry={diff.removed}>
+          <meshStandardMaterial
+            color={REMOVED_COLOR}
+            metalness={0.2}
+            roughness={0.6}
+            transparent
+            opacity={0.45}
+            depthWrite={false}
+            side={THREE.DoubleSide}
+          />
+        </mesh>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <mesh geometry={geometry}>
+        <meshStandardMaterial color={color} metalness={0.5} roughness={0.4} />
+      </mesh>
+      <mesh geometry={comparison.before} position={[offset, 0, 0]}>
+        <meshStandardMaterial
+          color={color}
+          metalness={0.2}
+          roughness={0.6}
+          transparent
+          opacity={0.35}
+          depthWrite={false}
+        />
+      </mesh>
+    </>
+  );
+}
+
+export function ThreeScene({
+  geometry,
+  comparison,
+  highlights,
+  parts,
+  selectedPart = null,
+  onSelectPart,
+}: {
+  geometry: THREE.BufferGeometry;
+  comparison?: GeometryComparison;
+  // Printability problems to mark on the model
+  highlights?: MeshIssueHighlights;
+  // Drawn instead of `geometry` when the model has several objects or colors
+  parts?: ScenePart[];
+  // Index into `parts`
+  selectedPart?: number | null;
+  onSelectPart?: (index: number | null) => void;
+}) {
   const { color } = useColor();
   const [isOrthographic, setIsOrthographic] = useState(false);
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [showBounds, setShowBounds] = useState(false);
+  const [section, setSection] = useState<Section | null>(null);
+  // Updated every frame by SectionView to follow the model
+  const sectionPlane = useMemo(() => new THREE.Plane(), []);
+  const clippingPlanes = useMemo(
+    () => (section && !comparison ? [sectionPlane] : []),
+    [section, comparison, sectionPlane]
+  );
+
+  // Measurements belong to the model they were taken on
+  useEffect(() => {
+    setMeasurements([]);
+  }, [geometry]);
 
   return (
-    <div className="relative h-full w-full overflow-hidden">
+    <div
+      className={`relative h-full w-full overflow-hidden ${measureMode && !comparison ? 'cursor-crosshair' : ''}`}
+    >
       <Canvas
         className="block h-full w-full"
+        onPointerMissed={() => onSelectPart?.(null)}
       >
         <color attach="background" args={['#3B3B3B']} />
         {isOrthographic ? (
@@ -45,17 +188,80 @@ export function ThreeScene({ geometry }: { geometry: THREE.BufferGeometry }) {
           <directionalLight position={[5, 5, 5]} intensity={1.0} />
           <directionalLight position={[-5, 5, -5]} intensity={0.3} />
           <directionalLight position={[-5, -5, -5]} intensity={0.4} />
-          <mesh
-            geometry={geometry}
-            rotation={[-Math.PI / 2, 0, 0]}
-            position={[0, 0, 0]}
-          >
-            <meshStandardMaterial
-              color={color}
-              metalness={0.5}
-              roughness={0.4}
-            />
-          </mesh>
+          {comparison ? (
+            <group rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]}>
+              <ComparisonMeshes
+                geometry={geometry}
+                comparison={comparison}
+                color={color}
+              />
+            </group>
+          ) : (
+            <group rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]}>
+              <MeasureTools
+                geometry={geometry}
+                mode={measureMode}
+                measurements={measurements}
+                onMeasure={(measurement) =>
+                  setMeasurements((current) => [...current, measurement])
+                }
+                showBounds={showBounds}
+                clippingPlanes={clippingPlanes}
+              >
+                {parts ? (
+                  parts.map((part, index) => (
+                    <mesh
+                      key={index}
+                      geometry={part.geometry}
+                      onClick={(event) => {
+                        // Clicks measure while a measuring tool is active
+                        if (measureMode || !onSelectPart || event.delta > 4) {
+                          return;
+                        }
+                        event.stopPropagation();
+                        onSelectPart(index === selectedPart ? null : index);
+                      }}
+                    >
+                      <meshStandardMaterial
+                        color={part.color ?? color}
+                        metalness={0.5}
+                        roughness={0.4}
+                        transparent={(part.opacity ?? 1) < 1}
+                        opacity={part.opacity ?? 1}
+                        emissive={SELECTED_COLOR}
+                        emissiveIntensity={index === selectedPart ? 0.5 : 0}
+                        clippingPlanes={clippingPlanes}
+                      />
+                    </mesh>
+                  ))
+                ) : (
+                  <mesh geometry={geometry}>
+                    <meshStandardMaterial
+                      color={color}
+                      metalness={0.5}
+                      roughness={0.4}
+                      clippingPlanes={clippingPlanes}
+                    />
+                  </mesh>
+                )}
+              </MeasureTools>
+              {section && (
+                <SectionView
+                  geometry={geometry}
+                  section={section}
+                  plane={sectionPlane}
+                  color={color}
+                />
+              )}
+              {highlights && (
+                <MeshIssueOverlay
+                  geometry={geometry}
+                  highlights={highlights}
+                  clippingPlanes={clippingPlanes}
+                />
+              )}
+            </group>
+          )}
         </Stage>
         {/* <Grid
           position={[0, 0, 0]}
@@ -77,7 +283,39 @@ export function ThreeScene({ geometry }: { geometry: THREE.BufferGeometry }) {
         </GizmoHelper>
       </Canvas>
 
-      <div className="absolute bottom-2 right-7">
+      {comparison?.layout === 'overlay' && (
+        <div className="absolute bottom-2 left-3 flex items-center gap-3 rounded-lg border border-pierre-neutral-600/30 bg-pierre-neutral-800/60 px-3 py-2 text-xs text-pierre-text-primary backdrop-blur-sm">
+          <span className="flex items-center gap-1.5">
+            <span
+              className="h-2.5 w-2.5 rounded-sm"
+              style={{ backgroundColor: ADDED_COLOR }}
+            />
+            Added
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span
+              className="h-2.5 w-2.5 rounded-sm"
+              style={{ backgroundColor: REMOVED_COLOR }}
+            />
+            Removed
+          </span>
+        </div>
+      )}
+
+      <div className="absolute bottom-2 right-7 flex items-center gap-2">
+        {!comparison && (
+          <SectionControls section={section} onSectionChange={setSection} />
+        )}
+        {!comparison && (
+          <MeasureToolbar
+            mode={measureMode}
+            onModeChange={setMeasureMode}
+            showBounds={showBounds}
+            onShowBoundsChange={setShowBounds}
+            canClear={measurements.length > 0}
+            onClear={() => setMeasurements([])}
+          />
+        )}
         <OrthographicPerspectiveToggle
           isOrthographic={isOrthographic}
           onToggle={setIsOrthographic}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { BufferGeometry, Vector3 } from 'three';
+import { STLLoader } from 'three/addons/loaders/STLLoader.js';
+import { CircleAlert, Loader2 } from 'lucide-react';
+import { useOpenSCAD } from '@/hooks/useOpenSCAD';
+import { CompareLayout, ThreeScene } from '@/features/viewer/ThreeScene';
+
+type AlignedPair = { before: BufferGeometry; after: BufferGeometry };
+
+async function loadPair(before: Blob, after: Blob): Promise<AlignedPair> {
+  const loader = new STLLoader();
+  const [beforeGeometry, afterGeometry] = await Promise.all(
+    [before, after].map(async (blob) => loader.parse(await blob.arrayBuffer())),
+  );
+
+  // Both models move by the same amount so unchanged parts stay in place
+  afterGeometry.computeBoundingBox();
+  const center = afterGeometry.boundingBox!.getCenter(new Vector3());
+  [beforeGeometry, afterGeometry].forEach((geometry) => {
+    geometry.translate(-center.x, -center.y, -center.z);
+    geometry.computeVertexNormals();
+  });
+
+  return { before: beforeGeometry, after: afterGeometry };
+}
+
+/**
+ * Compiles an earlier version of the design and shows it against the current
+ * model
+ */
+export function VersionComparison({
+  code,
+  label,
+  output,
+  layout,
+}: {
+  // Code of the version to compare against
+  code: string;
+  label: string;
+  // Compiled STL of the current version
+  output: Blob;
+  layout: CompareLayout;
+}) {
+  const {
+    compileScad,
+    isCompiling,
+    output: baseOutput,
+    isError,
+  } = useOpenSCAD();
+  const [pair, setPair] = useState<AlignedPair | null>(null);
+
+  useEffect(() => {
+    compileScad(code);
+  }, [code, compileScad]);
+
+  useEffect(() => {
+    if (!baseOutput || baseOutput.type !== 'model/stl') {
+      setPair(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadPair(baseOutput, output)
+      .then((result) => {
+        if (!cancelled) setPair(result);
+      })
+      .catch((error) => {
+        console.error('[VersionComparison] Error loading STL:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseOutput, output]);
+
+  if (isError) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-2 text-pierre-text-primary/70">
+        <CircleAlert className="h-6 w-6 text-pierre-blue" />
+        <p className="text-xs">Could not compile {label} for comparison</p>
+      </div>
+    );
+  }
+
+  if (isCompiling || !pair) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-3">
+        <Loader2 className="h-6 w-6 animate-spin text-pierre-blue" />
+        <p className="text-xs font-medium text-pierre-text-primary/70">
+          Compiling {label}...
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ThreeScene
+      geometry={pair.after}
+      comparison={{ before: pair.before, layout }}
+    />
+  );
+}
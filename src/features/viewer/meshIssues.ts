@@ -0,0 +1,26 @@
+import { MeshIssueKind } from '@/lib/meshAnalysis';
+
+// How each printability problem is listed and highlighted in the viewer
+export const MESH_ISSUES: {
+  kind: MeshIssueKind;
+  label: string;
+  color: string;
+  // Problems with the mesh itself rather than with printing it
+  isDefect: boolean;
+}[] = [
+  { kind: 'openEdges', label: 'Open edges', color: '#EF4444', isDefect: true },
+  {
+    kind: 'nonManifoldEdges',
+    label: 'Non-manifold edges',
+    color: '#F97316',
+    isDefect: true,
+  },
+  {
+    kind: 'invertedNormals',
+    label: 'Inverted normals',
+    color: '#A855F7',
+    isDefect: true,
+  },
+  { kind: 'thinWalls', label: 'Thin walls', color: '#EAB308', isDefect: false },
+  { kind: 'overhangs', label: 'Overhangs', color: '#06B6D4', isDefect: false },
+];
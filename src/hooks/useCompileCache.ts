@@ -0,0 +1,25 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { clearCompileCache, getCompileCacheUsage } from '@/lib/compileCache';
+
+const COMPILE_CACHE_KEY = ['compile-cache'];
+
+/**
+ * Number and total size of cached compile results
+ */
+export function useCompileCacheUsage({ enabled }: { enabled: boolean }) {
+  return useQuery({
+    queryKey: COMPILE_CACHE_KEY,
+    queryFn: getCompileCacheUsage,
+    enabled,
+  });
+}
+
+export function useClearCompileCache() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: clearCompileCache,
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: COMPILE_CACHE_KEY }),
+  });
+}
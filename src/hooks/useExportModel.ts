@@ -0,0 +1,67 @@
+import { useCallback, useState } from 'react';
+import {
+  ExportFormat,
+  ExportOptions,
+  OpenSCADWorkerResponseData,
+  WorkerMessageType,
+} from '@/workers/types';
+import { compilePool } from '@/lib/compilePool';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  stl: 'model/stl',
+  asciistl: 'model/stl',
+  '3mf': 'model/3mf',
+  off: 'model/off',
+  amf: 'application/x-amf',
+  dxf: 'image/vnd.dxf',
+  svg: 'image/svg+xml',
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  stl: 'stl',
+  asciistl: 'stl',
+  '3mf': '3mf',
+  off: 'off',
+  amf: 'amf',
+  dxf: 'dxf',
+  svg: 'svg',
+};
+
+// Exports are full renders and take much longer than previews
+const EXPORT_TIMEOUT = 5 * 60_000;
+
+/**
+ * Export the model in any format OpenSCAD supports, on the shared compile
+ * pool
+ */
+export function useExportModel() {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportModel = useCallback(
+    async (code: string, options: ExportOptions): Promise<Blob> => {
+      setIsExporting(true);
+      try {
+        const data = (await compilePool.run(
+          {
+            type: WorkerMessageType.EXPORT,
+            data: {
+              code,
+              params: [],
+              fileType: EXPORT_EXTENSIONS[options.format],
+              export: options,
+            },
+          },
+          { priority: 'interactive', timeout: EXPORT_TIMEOUT },
+        )) as OpenSCADWorkerResponseData;
+        return new Blob([data.output], {
+          type: EXPORT_MIME_TYPES[options.format],
+        });
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [],
+  );
+
+  return { exportModel, isExporting };
+}
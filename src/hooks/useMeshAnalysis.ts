@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_PRINTABILITY_OPTIONS,
+  MeshAnalysis,
+  PrintabilityOptions,
+} from '@/lib/meshAnalysis';
+import type {
+  MeshAnalysisWorkerMessage,
+  MeshAnalysisWorkerResponse,
+} from '@/workers/meshAnalysisWorker';
+
+/**
+ * Check a compiled STL for printability problems in a worker. Returns `null`
+ * while analyzing and for anything that isn't an STL.
+ */
+export function useMeshAnalysis(
+  stl: Blob | null | undefined,
+  options: PrintabilityOptions,
+) {
+  const [analysis, setAnalysis] = useState<MeshAnalysis | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL('../workers/meshAnalysisWorker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.addEventListener(
+      'message',
+      (event: MessageEvent<MeshAnalysisWorkerResponse>) => {
+        // Only the latest model counts
+        if (event.data.id !== requestRef.current) return;
+        if (event.data.error) {
+          console.error('[useMeshAnalysis]', event.data.error);
+        }
+        setAnalysis(event.data.analysis ?? null);
+      },
+    );
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const { nozzleWidth, overhangAngle } = options;
+  useEffect(() => {
+    const id = ++requestRef.current;
+    setAnalysis(null);
+    if (!stl || stl.type !== 'model/stl') return;
+
+    stl.arrayBuffer().then((buffer) => {
+      if (id !== requestRef.current) return;
+      const message: MeshAnalysisWorkerMessage = {
+        id,
+        stl: buffer,
+        options: { nozzleWidth, overhangAngle },
+      };
+      workerRef.current?.postMessage(message, [buffer]);
+    });
+  }, [stl, nozzleWidth, overhangAngle]);
+
+  return analysis;
+}
+
+const OPTIONS_KEY = 'printabilityOptions';
+
+/**
+ * Nozzle width and overhang angle for the printability checks, remembered
+ * across sessions
+ */
+export function usePrintabilityOptions() {
+  const [options, setOptionsState] = useState<PrintabilityOptions>(() => {
+    try {
+      return {
+        ...DEFAULT_PRINTABILITY_OPTIONS,
+        ...JSON.parse(localStorage.getItem(OPTIONS_KEY) ?? '{}'),
+      };
+    } catch {
+      return DEFAULT_PRINTABILITY_OPTIONS;
+    }
+  });
+
+  const setOptions = useCallback((updates: Partial<PrintabilityOptions>) => {
+    setOptionsState((current) => {
+      const next = { ...current, ...updates };
+      localStorage.setItem(OPTIONS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { options, setOptions };
+}
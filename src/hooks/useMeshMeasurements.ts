@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MaterialId, MATERIALS, MeshMeasurements } from '@/lib/geometryMetrics';
+import type {
+  MetricsWorkerMessage,
+  MetricsWorkerResponse,
+} from '@/workers/metricsWorker';
+
+/**
+ * Measure a compiled STL in a worker. Returns `null` while measuring and for
+ * anything that isn't an STL.
+ */
+export function useMeshMeasurements(stl?: Blob | null) {
+  const [measurements, setMeasurements] = useState<MeshMeasurements | null>(
+    null,
+  );
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL('../workers/metricsWorker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.addEventListener(
+      'message',
+      (event: MessageEvent<MetricsWorkerResponse>) => {
+        // Only the latest model counts
+        if (event.data.id !== requestRef.current) return;
+        if (event.data.error) {
+          console.error('[useMeshMeasurements]', event.data.error);
+        }
+        setMeasurements(event.data.measurements ?? null);
+      },
+    );
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const id = ++requestRef.current;
+    setMeasurements(null);
+    if (!stl || stl.type !== 'model/stl') return;
+
+    stl.arrayBuffer().then((buffer) => {
+      if (id !== requestRef.current) return;
+      const message: MetricsWorkerMessage = { id, stl: buffer };
+      workerRef.current?.postMessage(message, [buffer]);
+    });
+  }, [stl]);
+
+  return measurements;
+}
+
+const MATERIAL_KEY = 'printMaterial';
+
+/**
+ * Material used for weight estimates, remembered across sessions
+ */
+export function useMaterialPreference() {
+  const [materialId, setMaterialIdState] = useState<MaterialId>(() => {
+    const stored = localStorage.getItem(MATERIAL_KEY);
+    return MATERIALS.find((material) => material.id === stored)?.id ?? 'pla';
+  });
+
+  const setMaterialId = useCallback((id: MaterialId) => {
+    localStorage.setItem(MATERIAL_KEY, id);
+    setMaterialIdState(id);
+  }, []);
+
+  const material =
+    MATERIALS.find((candidate) => candidate.id === materialId) ?? MATERIALS[0];
+
+  return { material, setMaterialId };
+}
@@ -1,77 +1,130 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { WorkerMessage, WorkerMessageType } from '@/workers/types';
+import { compilePool } from '@/lib/compilePool';
 import OpenSCADError from '@/lib/OpenSCADError';
+import ComplexityError from '@/lib/ComplexityError';
+import { DesignMode, Diagnostic, Parameter } from '@shared/types';
+import { MeshPart } from '@/lib/meshParts';
+import { OpenSCADWorkerResponseData } from '@/workers/types';
+import { toDraft } from '@shared/openscad/draft';
+
+function toBlob(data: OpenSCADWorkerResponseData) {
+  return new Blob([data.output], {
+    type: data.fileType === 'stl' ? 'model/stl' : 'image/svg+xml',
+  });
+}
 
 export function useOpenSCAD() {
   const [isCompiling, setIsCompiling] = useState(false);
-  const [error, setError] = useState<OpenSCADError | Error | undefined>();
+  const [error, setError] = useState<
+    OpenSCADError | ComplexityError | Error | undefined
+  >();
   const [isError, setIsError] = useState(false);
   const [output, setOutput] = useState<Blob | undefined>();
-  const workerRef = useRef<Worker | null>(null);
-
-  const eventHandler = useCallback((event: MessageEvent) => {
-    if (event.data.err) {
-      const error = event.data.err;
-      console.error('[useOpenSCAD] Compilation error:', error);
-
-      // If it's an OpenSCADError with stderr logs, log them for debugging
-      if (error.name === 'OpenSCADError' && error.stdErr && Array.isArray(error.stdErr)) {
-        console.error('[useOpenSCAD] OpenSCAD stderr:', error.stdErr.join('\n'));
-      }
-
-      setError(error);
-      setIsError(true);
-      setOutput(undefined);
-    } else if (event.data.data.output) {
-      const blob = new Blob([event.data.data.output], {
-        type:
-          event.data.data.fileType === 'stl' ? 'model/stl' : 'image/svg+xml',
-      });
-      setOutput(blob);
-    }
-    setIsCompiling(false);
-  }, []);
+  // Errors and warnings of the last compile, including warnings on success
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  // Objects and colors of a 3D output, empty for 2D
+  const [parts, setParts] = useState<MeshPart[]>([]);
+  // The output is a draft, the full quality render is still running
+  const [isDraft, setIsDraft] = useState(false);
+  // Only the latest compile updates the state
+  const compileIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
 
+  // Warm the pool up before the first compile
   useEffect(() => {
-    workerRef.current = new Worker(
-      new URL('../workers/worker.ts', import.meta.url),
-      { type: 'module' },
-    );
-
-    workerRef.current.addEventListener('message', eventHandler);
-
-    return () => {
-      workerRef.current?.terminate();
-    };
-  }, [eventHandler]);
+    compilePool.warm();
+    return () => abortRef.current?.abort();
+  }, []);
 
   const compileScad = useCallback(
-    async (code: string) => {
+    async (
+      code: string,
+      mode: DesignMode = '3d',
+      options: {
+        skipComplexityCheck?: boolean;
+        timeout?: number;
+        // Compiled as `-D` overrides, the code stays as it is
+        params?: Parameter[];
+        // Show a draft quality render of a 3D design first
+        progressive?: boolean;
+      } = {},
+    ) => {
       setIsCompiling(true);
       setError(undefined);
       setIsError(false);
 
-      // Reuse existing worker if available, only create new one if needed
-      if (!workerRef.current) {
-        workerRef.current = new Worker(
-          new URL('../workers/worker.ts', import.meta.url),
-          { type: 'module' },
+      // Renders of an older compile are outdated now, finished or not
+      abortRef.current?.abort();
+      const abort = new AbortController();
+      abortRef.current = abort;
+      const compileId = ++compileIdRef.current;
+
+      const message = {
+        code,
+        params: options.params ?? [],
+        fileType: mode === '2d' ? 'svg' : 'stl',
+        skipComplexityCheck: options.skipComplexityCheck,
+      };
+      const poolOptions = {
+        priority: 'interactive' as const,
+        signal: abort.signal,
+        timeout: options.timeout,
+      };
+
+      // Queued ahead of the full render, so a single worker renders it first.
+      // Designs that don't set the resolution render just as fast in full.
+      let isFullRendered = false;
+      if (options.progressive && mode !== '2d' && toDraft(code) !== code) {
+        compilePool.preview({ ...message, draft: true }, poolOptions).then(
+          (data) => {
+            if (compileId !== compileIdRef.current || isFullRendered) return;
+            setOutput(toBlob(data));
+            setParts([]);
+            setIsDraft(true);
+          },
+          (err) => {
+            // The full render reports the problem, if it's not only the draft's
+            if (compileId !== compileIdRef.current) return;
+            console.warn('[useOpenSCAD] Draft render failed:', err);
+          },
         );
-        workerRef.current.addEventListener('message', eventHandler);
       }
 
-      const message: WorkerMessage = {
-        type: WorkerMessageType.PREVIEW,
-        data: {
-          code,
-          params: [],
-          fileType: 'stl',
-        },
-      };
+      try {
+        const data = await compilePool.preview(message, poolOptions);
+        isFullRendered = true;
+        if (compileId !== compileIdRef.current) return;
 
-      workerRef.current?.postMessage(message);
+        setDiagnostics(data.diagnostics ?? []);
+        setOutput(toBlob(data));
+        setParts(data.parts ?? []);
+        setIsDraft(false);
+      } catch (err) {
+        isFullRendered = true;
+        if (compileId !== compileIdRef.current) return;
+
+        // Worker errors arrive as plain objects, not Error instances
+        const error = err as (OpenSCADError | ComplexityError | Error) & {
+          stdErr?: string[];
+          diagnostics?: Diagnostic[];
+        };
+        console.error('[useOpenSCAD] Compilation error:', error);
+
+        // If it's an OpenSCADError with stderr logs, log them for debugging
+        if (error.name === 'OpenSCADError' && Array.isArray(error.stdErr)) {
+          console.error('[useOpenSCAD] OpenSCAD stderr:', error.stdErr.join('\n'));
+        }
+
+        setError(error);
+        setIsError(true);
+        setOutput(undefined);
+        setParts([]);
+        setIsDraft(false);
+        setDiagnostics(error.diagnostics ?? []);
+      }
+      setIsCompiling(false);
     },
-    [eventHandler],
+    [],
   );
 
   return {
@@ -80,5 +133,8 @@ export function useOpenSCAD() {
     output,
     error,
     isError,
+    diagnostics,
+    parts,
+    isDraft,
   };
 }
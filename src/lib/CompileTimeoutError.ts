@@ -0,0 +1,10 @@
+/**
+ * A compile ran over its time limit and its worker was stopped. OpenSCAD
+ * can't be interrupted mid-render, so the work done so far is lost.
+ */
+export default class CompileTimeoutError extends Error {
+  constructor(public timeout: number) {
+    super(`Rendering took longer than ${Math.round(timeout / 1000)} seconds`);
+    this.name = 'CompileTimeoutError';
+  }
+}
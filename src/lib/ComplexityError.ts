@@ -0,0 +1,17 @@
+import { ComplexityRisk } from '@shared/openscad/complexity';
+
+/**
+ * Thrown by the worker when a design looks too heavy to render. Unlike a
+ * compile error, the user can still choose to render it.
+ */
+export default class ComplexityError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public stdErr: string[],
+    public risks: ComplexityRisk[],
+  ) {
+    super(message);
+    this.name = 'ComplexityError';
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Line and parameter diffs between two versions of an OpenSCAD design
+ */
+
+import type { Parameter } from '@shared/types';
+import {
+  formatValue,
+  isHiddenParameter,
+  parseParameters,
+} from '@shared/openscad/parameters';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiffLine = {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  // 1-based line numbers in the old and new code
+  oldLine?: number;
+  newLine?: number;
+};
+
+// Run of unchanged lines hidden between hunks
+export type DiffGap = { type: 'gap'; count: number };
+
+export type ParameterChange = {
+  name: string;
+  displayName: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+};
+
+// ============================================================================
+// Line diff
+// ============================================================================
+
+/**
+ * Longest-common-subsequence diff of two sources. Shared leading and trailing
+ * lines are matched first so the table only covers the changed middle.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+  const lengths = Array.from({ length: oldMiddle.length + 1 }, () =>
+    new Array<number>(newMiddle.length + 1).fill(0),
+  );
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const unchanged = (text: string) =>
+    lines.push({
+      type: 'unchanged',
+      text,
+      oldLine: oldLine++,
+      newLine: newLine++,
+    });
+
+  oldLines.slice(0, prefix).forEach(unchanged);
+
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (
+      i < oldMiddle.length &&
+      j < newMiddle.length &&
+      oldMiddle[i] === newMiddle[j]
+    ) {
+      unchanged(oldMiddle[i]);
+      i++;
+      j++;
+    } else if (
+      i < oldMiddle.length &&
+      (j === newMiddle.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      lines.push({ type: 'removed', text: oldMiddle[i], oldLine: oldLine++ });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: newMiddle[j], newLine: newLine++ });
+      j++;
+    }
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach(unchanged);
+
+  return lines;
+}
+
+/**
+ * Hide unchanged lines further than `context` lines from any change
+ */
+export function collapseUnchanged(
+  lines: DiffLine[],
+  context = 3,
+): (DiffLine | DiffGap)[] {
+  const changed = lines.flatMap((line, index) =>
+    line.type === 'unchanged' ? [] : [index],
+  );
+  const isVisible = (index: number) =>
+    changed.some((c) => Math.abs(c - index) <= context);
+
+  const result: (DiffLine | DiffGap)[] = [];
+  lines.forEach((line, index) => {
+    if (isVisible(index)) {
+      result.push(line);
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last?.type === 'gap') {
+      last.count++;
+    } else {
+      result.push({ type: 'gap', count: 1 });
+    }
+  });
+  return result;
+}
+
+// ============================================================================
+// Parameter diff
+// ============================================================================
+
+/**
+ * Added, removed and changed Customizer parameters between two sources
+ */
+export function diffParameters(
+  before: string,
+  after: string,
+): ParameterChange[] {
+  const visible = (code: string) =>
+    parseParameters(code).filter((p) => !isHiddenParameter(p));
+  const oldParameters = new Map<string, Parameter>(
+    visible(before).map((p) => [p.name, p]),
+  );
+  const newParameters = visible(after);
+
+  const changes: ParameterChange[] = [];
+  newParameters.forEach((parameter) => {
+    const previous = oldParameters.get(parameter.name);
+    const value = formatValue(parameter.value);
+    if (!previous) {
+      changes.push({
+        name: parameter.name,
+        displayName: parameter.displayName,
+        type: 'added',
+        after: value,
+      });
+    } else if (formatValue(previous.value) !== value) {
+      changes.push({
+        name: parameter.name,
+        displayName: parameter.displayName,
+        type: 'changed',
+        before: formatValue(previous.value),
+        after: value,
+      });
+    }
+  });
+
+  const newNames = new Set(newParameters.map((p) => p.name));
+  oldParameters.forEach((parameter) => {
+    if (!newNames.has(parameter.name)) {
+      changes.push({
+        name: parameter.name,
+        displayName: parameter.displayName,
+        type: 'removed',
+        before: formatValue(parameter.value),
+      });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,195 @@
+/**
+ * Content-addressed cache of compile results in IndexedDB
+ *
+ * Results are keyed by a hash of everything that goes into a compile: the
+ * code, the `-D` parameters, the output format and the OpenSCAD build and
+ * libraries. The same input always gives the same output, so entries never
+ * go stale, they are only evicted least recently used first once the cache
+ * outgrows its size limit.
+ */
+
+import { libraries } from '@/lib/libraries.ts';
+import {
+  OPENSCAD_WASM_URL,
+  OpenSCADWorkerMessageData,
+  OpenSCADWorkerResponseData,
+  WorkerMessageType,
+} from '@/workers/types';
+
+const DB_NAME = 'pierre-compile-cache';
+// Results, and the size and last use of every result, so eviction doesn't
+// have to read the results themselves
+const RESULTS = 'results';
+const ENTRIES = 'entries';
+
+// Bump when the worker's results change shape
+const FORMAT_VERSION = 1;
+
+const MAX_BYTES = 200 * 1024 * 1024;
+
+type CacheEntry = {
+  key: string;
+  bytes: number;
+  lastUsed: number;
+};
+
+export type CompileCacheUsage = {
+  entries: number;
+  bytes: number;
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(RESULTS);
+      request.result
+        .createObjectStore(ENTRIES, { keyPath: 'key' })
+        .createIndex('lastUsed', 'lastUsed');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Private windows may not have IndexedDB, try again next time
+  database.catch(() => (database = null));
+  return database;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStores<T>(
+  mode: IDBTransactionMode,
+  run: (results: IDBObjectStore, entries: IDBObjectStore) => Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RESULTS, ENTRIES], mode);
+  return run(
+    transaction.objectStore(RESULTS),
+    transaction.objectStore(ENTRIES),
+  );
+}
+
+function resultBytes(result: OpenSCADWorkerResponseData) {
+  return (
+    result.output.byteLength +
+    (result.parts ?? []).reduce(
+      (bytes, part) => bytes + part.positions.byteLength,
+      0,
+    )
+  );
+}
+
+/**
+ * Cache key of a preview or export, `null` for other messages
+ */
+export async function compileCacheKey(
+  type: WorkerMessageType,
+  data: OpenSCADWorkerMessageData,
+): Promise<string | null> {
+  if (type !== WorkerMessageType.PREVIEW && type !== WorkerMessageType.EXPORT) {
+    return null;
+  }
+
+  const input = JSON.stringify([
+    FORMAT_VERSION,
+    OPENSCAD_WASM_URL.href,
+    libraries.map((library: { url: string }) => library.url),
+    type,
+    data.code,
+    data.params.map(({ name, value }) => [name, value]),
+    data.fileType,
+    data.export ?? null,
+    data.draft ?? false,
+  ]);
+  const hash = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(input),
+  );
+  return Array.from(new Uint8Array(hash), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
+
+/**
+ * Cached result for a key, marked as used. `null` on a miss or if the cache
+ * isn't available.
+ */
+export async function readCompileCache(
+  key: string,
+): Promise<OpenSCADWorkerResponseData | null> {
+  try {
+    return await withStores('readwrite', async (results, entries) => {
+      const result: OpenSCADWorkerResponseData | undefined = await toPromise(
+        results.get(key),
+      );
+      const entry: CacheEntry | undefined = await toPromise(entries.get(key));
+      if (!result || !entry) return null;
+      entries.put({ ...entry, lastUsed: Date.now() });
+      return result;
+    });
+  } catch (error) {
+    console.warn('[CompileCache] Read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a result, then evict the least recently used entries over the limit
+ */
+export async function writeCompileCache(
+  key: string,
+  result: OpenSCADWorkerResponseData,
+): Promise<void> {
+  const bytes = resultBytes(result);
+  if (bytes > MAX_BYTES) return;
+
+  try {
+    await withStores('readwrite', async (results, entries) => {
+      const entry: CacheEntry = { key, bytes, lastUsed: Date.now() };
+      results.put(result, key);
+      await toPromise(entries.put(entry));
+
+      // Oldest first
+      const all: CacheEntry[] = await toPromise(
+        entries.index('lastUsed').getAll(),
+      );
+      let total = all.reduce((sum, { bytes }) => sum + bytes, 0);
+      for (const oldest of all) {
+        if (total <= MAX_BYTES) break;
+        results.delete(oldest.key);
+        entries.delete(oldest.key);
+        total -= oldest.bytes;
+      }
+    });
+  } catch (error) {
+    console.warn('[CompileCache] Write failed:', error);
+  }
+}
+
+export async function getCompileCacheUsage(): Promise<CompileCacheUsage> {
+  try {
+    return await withStores('readonly', async (_results, entries) => {
+      const all: CacheEntry[] = await toPromise(entries.getAll());
+      return {
+        entries: all.length,
+        bytes: all.reduce((sum, { bytes }) => sum + bytes, 0),
+      };
+    });
+  } catch {
+    return { entries: 0, bytes: 0 };
+  }
+}
+
+export async function clearCompileCache(): Promise<void> {
+  await withStores('readwrite', async (results, entries) => {
+    results.clear();
+    await toPromise(entries.clear());
+  });
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  OpenSCADWorkerResponseData,
+  WorkerMessage,
+  WorkerMessageType,
+  WorkerResponseMessage,
+} from '@/workers/types';
+
+// Read when the module loads, before any test runs
+vi.hoisted(() => {
+  vi.stubGlobal('navigator', { hardwareConcurrency: 2 });
+});
+
+vi.mock('@/lib/compileCache', () => ({
+  compileCacheKey: async () => null,
+  readCompileCache: async () => undefined,
+  writeCompileCache: () => {},
+}));
+
+const { CompilePool } = await import('./compilePool');
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  messages: WorkerMessage[] = [];
+  terminated = false;
+  private listeners: Record<string, ((event: unknown) => void)[]> = {};
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  postMessage(message: WorkerMessage) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  // The job the worker is on, warm-ups and cancels aside
+  get job() {
+    return this.messages
+      .filter(({ id }) => id !== 'warmup' && id !== 'cancel')
+      .at(-1);
+  }
+
+  reply(response: Partial<WorkerResponseMessage>) {
+    this.listeners.message?.forEach((listener) =>
+      listener({
+        data: { id: this.job?.id, type: this.job?.type, ...response },
+      }),
+    );
+  }
+}
+
+const preview = (code: string): WorkerMessage => ({
+  type: WorkerMessageType.PREVIEW,
+  data: { code, params: [], fileType: 'stl' },
+});
+
+const rendered = (code: string): OpenSCADWorkerResponseData => ({
+  log: { stdErr: [], stdOut: [code] },
+  diagnostics: [],
+  fileType: 'stl',
+  output: new Uint8Array(),
+  exitCode: 0,
+  duration: 0,
+});
+
+// `run` checks the cache before the job is queued
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('CompilePool', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs queued jobs once a worker is free', async () => {
+    const pool = new CompilePool(1);
+    const first = pool.run(preview('a'));
+    const second = pool.run(preview('b'));
+    await settle();
+
+    const [worker] = FakeWorker.instances;
+    expect(worker.job?.data).toMatchObject({ code: 'a' });
+    worker.reply({ data: rendered('a') });
+    await expect(first).resolves.toEqual(rendered('a'));
+
+    expect(worker.job?.data).toMatchObject({ code: 'b' });
+    worker.reply({ data: rendered('b') });
+    await expect(second).resolves.toEqual(rendered('b'));
+  });
+
+  it('drops the result of a superseded render and keeps the worker', async () => {
+    const pool = new CompilePool(1);
+    const abort = new AbortController();
+    const superseded = pool.run(preview('old'), { signal: abort.signal });
+    await settle();
+    const [worker] = FakeWorker.instances;
+    const old = worker.job;
+    expect(old?.data).toMatchObject({ code: 'old' });
+
+    const next = pool.run(preview('new'));
+    await settle();
+    abort.abort();
+
+    await expect(superseded).rejects.toMatchObject({ name: 'AbortError' });
+    expect(worker.messages.at(-1)).toMatchObject({
+      type: WorkerMessageType.CANCEL,
+      data: { jobId: old?.id },
+    });
+    expect(worker.terminated).toBe(false);
+    expect(FakeWorker.instances).toHaveLength(1);
+
+    // The old render ends, its result goes nowhere
+    worker.reply({ data: rendered('old') });
+    expect(worker.job?.data).toMatchObject({ code: 'new' });
+    worker.reply({ data: rendered('new') });
+    await expect(next).resolves.toEqual(rendered('new'));
+    expect(pool.metrics().jobs).toBe(2);
+  });
+
+  it('drops aborted jobs from the queue', async () => {
+    const pool = new CompilePool(1);
+    const abort = new AbortController();
+    pool.run(preview('running'));
+    const queued = pool.run(preview('queued'), { signal: abort.signal });
+    await settle();
+    abort.abort();
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(FakeWorker.instances[0].terminated).toBe(false);
+    expect(pool.metrics().queued).toBe(0);
+  });
+
+  it('replaces the worker of a job that runs out of time', async () => {
+    vi.useFakeTimers();
+    const pool = new CompilePool(1);
+    const slow = pool.run(preview('slow'), { timeout: 1000 });
+    const after = pool.run(preview('after'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const failed = expect(slow).rejects.toMatchObject({
+      name: 'CompileTimeoutError',
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    await failed;
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    const fresh = FakeWorker.instances[1];
+    expect(fresh.job?.data).toMatchObject({ code: 'after' });
+    fresh.reply({ data: rendered('after') });
+    await expect(after).resolves.toEqual(rendered('after'));
+    expect(pool.metrics().timeouts).toBe(1);
+  });
+});
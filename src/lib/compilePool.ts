@@ -0,0 +1,364 @@
+/**
+ * Shared pool of OpenSCAD workers
+ *
+ * Every compile in the app goes through one small pool of workers that are
+ * started and warmed up ahead of time. Each worker runs one job at a time on
+ * a fresh OpenSCAD instance. Jobs wait in a queue ordered by priority, so
+ * edits the user is waiting on run before background renders. Previews and
+ * exports compiled before come from the compile cache instead.
+ *
+ * A render can't be interrupted inside the worker. An aborted job is
+ * cancelled if it hasn't started rendering yet, otherwise its result is
+ * dropped and the worker stays warm. Only a job that runs past its time
+ * limit takes its worker down with it and the pool starts a new one.
+ */
+
+import CompileTimeoutError from '@/lib/CompileTimeoutError';
+import {
+  compileCacheKey,
+  readCompileCache,
+  writeCompileCache,
+} from '@/lib/compileCache';
+import {
+  OpenSCADWorkerMessageData,
+  OpenSCADWorkerResponseData,
+  WorkerMessage,
+  WorkerMessageType,
+  WorkerResponseMessage,
+} from '@/workers/types';
+import { logger } from '@/utils/logger';
+
+export type CompilePriority = 'interactive' | 'background';
+
+const PRIORITY_ORDER: Record<CompilePriority, number> = {
+  interactive: 0,
+  background: 1,
+};
+
+// Every worker holds an OpenSCAD instance of a few hundred MB
+const POOL_SIZE = Math.max(
+  1,
+  Math.min(2, (navigator.hardwareConcurrency ?? 2) - 1),
+);
+
+// Milliseconds a job may run before its worker is stopped
+export const DEFAULT_COMPILE_TIMEOUT = 30_000;
+
+// Jobs the metrics are computed over
+const METRICS_WINDOW = 50;
+
+export type CompileJobMetrics = {
+  type: WorkerMessageType;
+  priority: CompilePriority;
+  // Milliseconds from queueing to the start of the job
+  queueWait: number;
+  // Milliseconds the worker spent on the job, or the cache lookup took
+  compileTime: number;
+  failed: boolean;
+  timedOut: boolean;
+  cached: boolean;
+};
+
+export type CompilePoolMetrics = {
+  jobs: number;
+  queued: number;
+  cacheHits: number;
+  timeouts: number;
+  averageQueueWait: number;
+  averageCompileTime: number;
+  maxQueueWait: number;
+  maxCompileTime: number;
+};
+
+export type CompileOptions = {
+  priority?: CompilePriority;
+  signal?: AbortSignal;
+  // Milliseconds, `DEFAULT_COMPILE_TIMEOUT` if not given
+  timeout?: number;
+};
+
+type Job = {
+  id: number;
+  message: WorkerMessage;
+  priority: CompilePriority;
+  timeout: number;
+  queuedAt: number;
+  // Aborted while running, its result is dropped
+  cancelled: boolean;
+  resolve: (data: WorkerResponseMessage['data']) => void;
+  reject: (error: unknown) => void;
+};
+
+type PoolWorker = {
+  worker: Worker;
+  job: Job | null;
+  startedAt: number;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+function average(values: number[]) {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+export class CompilePool {
+  private workers: PoolWorker[] = [];
+  private queue: Job[] = [];
+  private lastJobId = 0;
+  private recentJobs: CompileJobMetrics[] = [];
+
+  constructor(private size: number) {}
+
+  /**
+   * Start the workers, if they aren't yet
+   */
+  warm() {
+    while (this.workers.length < this.size) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  /**
+   * Run a job on the next free worker, unless its result is cached. Resolves
+   * with the result and rejects with the worker's error, or a
+   * `CompileTimeoutError` if it ran out of time. Aborting rejects right away
+   * and cancels the job in the worker if it already started.
+   */
+  async run(
+    message: WorkerMessage,
+    options: CompileOptions = {},
+  ): Promise<WorkerResponseMessage['data']> {
+    const start = performance.now();
+    const key = await compileCacheKey(
+      message.type,
+      message.data as OpenSCADWorkerMessageData,
+    );
+
+    const cached = key && (await readCompileCache(key));
+    if (cached) {
+      this.record({
+        type: message.type,
+        priority: options.priority ?? 'interactive',
+        queueWait: 0,
+        compileTime: performance.now() - start,
+        failed: false,
+        timedOut: false,
+        cached: true,
+      });
+      return cached;
+    }
+
+    const data = await this.enqueue(message, options);
+    if (key) writeCompileCache(key, data as OpenSCADWorkerResponseData);
+    return data;
+  }
+
+  private enqueue(
+    message: WorkerMessage,
+    {
+      priority = 'interactive',
+      signal,
+      timeout = DEFAULT_COMPILE_TIMEOUT,
+    }: CompileOptions,
+  ): Promise<WorkerResponseMessage['data']> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Compile cancelled', 'AbortError'));
+        return;
+      }
+
+      const job: Job = {
+        id: ++this.lastJobId,
+        message,
+        priority,
+        timeout,
+        queuedAt: performance.now(),
+        cancelled: false,
+        resolve,
+        reject,
+      };
+
+      // Behind every job of the same or a higher priority
+      const index = this.queue.findIndex(
+        (queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[priority],
+      );
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, job);
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          const queued = this.queue.indexOf(job);
+          if (queued !== -1) {
+            this.queue.splice(queued, 1);
+          } else {
+            const slot = this.workers.find((other) => other.job === job);
+            if (!slot) return;
+            // Stops the job if it's still preparing. A render runs to its
+            // end, restarting the worker would cost more than waiting.
+            job.cancelled = true;
+            const cancel: WorkerMessage = {
+              id: 'cancel',
+              type: WorkerMessageType.CANCEL,
+              data: { jobId: job.id },
+            };
+            slot.worker.postMessage(cancel);
+          }
+          reject(new DOMException('Compile cancelled', 'AbortError'));
+        },
+        { once: true },
+      );
+
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Preview render of a design
+   */
+  async preview(
+    data: OpenSCADWorkerMessageData,
+    options?: CompileOptions,
+  ): Promise<OpenSCADWorkerResponseData> {
+    return (await this.run(
+      { type: WorkerMessageType.PREVIEW, data },
+      options,
+    )) as OpenSCADWorkerResponseData;
+  }
+
+  /**
+   * Queue wait and compile time over the last jobs
+   */
+  metrics(): CompilePoolMetrics {
+    const waits = this.recentJobs.map((job) => job.queueWait);
+    const compileTimes = this.recentJobs.map((job) => job.compileTime);
+    return {
+      jobs: this.recentJobs.length,
+      queued: this.queue.length,
+      cacheHits: this.recentJobs.filter((job) => job.cached).length,
+      timeouts: this.recentJobs.filter((job) => job.timedOut).length,
+      averageQueueWait: average(waits),
+      averageCompileTime: average(compileTimes),
+      maxQueueWait: Math.max(0, ...waits),
+      maxCompileTime: Math.max(0, ...compileTimes),
+    };
+  }
+
+  private spawn(): PoolWorker {
+    const slot: PoolWorker = {
+      worker: new Worker(new URL('../workers/worker.ts', import.meta.url), {
+        type: 'module',
+      }),
+      job: null,
+      startedAt: 0,
+    };
+
+    slot.worker.addEventListener(
+      'message',
+      (event: MessageEvent<WorkerResponseMessage>) => {
+        // Warm-up replies have no job
+        if (!slot.job || event.data.id !== slot.job.id) return;
+        this.finish(slot, event.data);
+      },
+    );
+
+    slot.worker.addEventListener('error', (event) => {
+      console.error('[CompilePool] Worker crashed:', event.message);
+      // A crashed worker can't be trusted with the next job, the pool starts
+      // a new one when there is work
+      slot.worker.terminate();
+      this.workers = this.workers.filter((other) => other !== slot);
+      if (slot.job) {
+        this.finish(slot, {
+          id: slot.job.id,
+          type: slot.job.message.type,
+          data: null,
+          err: new Error(event.message || 'Worker crashed'),
+        });
+      }
+    });
+
+    const warmUp: WorkerMessage = {
+      id: 'warmup',
+      type: WorkerMessageType.WARMUP,
+      data: null,
+    };
+    slot.worker.postMessage(warmUp);
+    return slot;
+  }
+
+  /**
+   * Stop the worker of a job that ran out of time and start a new one
+   */
+  private timeOut(slot: PoolWorker) {
+    const job = slot.job;
+    if (!job) return;
+    console.warn(
+      `[CompilePool] ${job.message.type} job ${job.id} ran over ${job.timeout}ms, stopping its worker`,
+    );
+    slot.worker.terminate();
+    this.workers = this.workers.filter((other) => other !== slot);
+    this.warm();
+    this.finish(slot, {
+      id: job.id,
+      type: job.message.type,
+      data: null,
+      err: new CompileTimeoutError(job.timeout),
+    });
+  }
+
+  private finish(slot: PoolWorker, response: WorkerResponseMessage) {
+    const job = slot.job!;
+    slot.job = null;
+    clearTimeout(slot.timer);
+
+    this.record({
+      type: job.message.type,
+      priority: job.priority,
+      queueWait: slot.startedAt - job.queuedAt,
+      compileTime: performance.now() - slot.startedAt,
+      failed: !!response.err && !job.cancelled,
+      timedOut: response.err instanceof CompileTimeoutError,
+      cached: false,
+    });
+
+    if (job.cancelled) {
+      // Already rejected when it was aborted
+    } else if (response.err) {
+      job.reject(response.err);
+    } else {
+      job.resolve(response.data);
+    }
+    this.dispatch();
+  }
+
+  private record(metrics: CompileJobMetrics) {
+    this.recentJobs = [...this.recentJobs, metrics].slice(-METRICS_WINDOW);
+    logger.debug(
+      'CompilePool',
+      metrics.cached
+        ? `${metrics.type} (${metrics.priority}) from cache in ${Math.round(metrics.compileTime)}ms`
+        : `${metrics.type} (${metrics.priority}) waited ${Math.round(metrics.queueWait)}ms, ran ${Math.round(metrics.compileTime)}ms`,
+    );
+  }
+
+  private dispatch() {
+    if (this.queue.length > 0) this.warm();
+    for (const slot of this.workers) {
+      if (slot.job) continue;
+      const job = this.queue.shift();
+      if (!job) return;
+
+      slot.job = job;
+      slot.startedAt = performance.now();
+      slot.timer = setTimeout(() => this.timeOut(slot), job.timeout);
+      slot.worker.postMessage({
+        ...job.message,
+        id: job.id,
+        timeout: job.timeout,
+      });
+    }
+  }
+}
+
+export const compilePool = new CompilePool(POOL_SIZE);
@@ -0,0 +1,18 @@
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// File name without extension for a design title
+export function toFileName(title: string) {
+  return (
+    title
+      .trim()
+      .replace(/[^a-z0-9-_ ]/gi, '')
+      .replace(/\s+/g, '-') || 'model'
+  );
+}
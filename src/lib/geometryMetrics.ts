@@ -0,0 +1,114 @@
+/**
+ * Size, volume and print estimates of a triangle mesh
+ *
+ * OpenSCAD is unitless, models are assumed to be in millimeters like every
+ * slicer does.
+ */
+
+import type { DesignMetrics } from '@/services/brainstormService';
+
+export type MeshMeasurements = {
+  volume: number; // mm³
+  surfaceArea: number; // mm²
+  triangleCount: number;
+  size: { x: number; y: number; z: number }; // mm
+};
+
+export const MATERIALS = [
+  { id: 'pla', name: 'PLA', density: 1.24 },
+  { id: 'petg', name: 'PETG', density: 1.27 },
+  { id: 'abs', name: 'ABS', density: 1.04 },
+  { id: 'tpu', name: 'TPU', density: 1.21 },
+  { id: 'resin', name: 'Resin', density: 1.12 },
+] as const;
+
+export type MaterialId = (typeof MATERIALS)[number]['id'];
+
+// Rough FDM print settings behind the material and time estimates
+const WALL_THICKNESS = 0.8; // mm, two perimeters
+const INFILL = 0.2;
+const FLOW_RATE = 8; // mm³/s of extruded plastic
+
+/**
+ * Measure a mesh given as a flat list of triangle vertex positions (9 numbers
+ * per triangle, like a non-indexed BufferGeometry). The volume is the sum of
+ * the signed tetrahedra each triangle forms with the origin, so it is only
+ * meaningful for closed meshes.
+ */
+export function measureMesh(positions: ArrayLike<number>): MeshMeasurements {
+  let volume = 0;
+  let surfaceArea = 0;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  for (let i = 0; i + 8 < positions.length; i += 9) {
+    const ax = positions[i];
+    const ay = positions[i + 1];
+    const az = positions[i + 2];
+    const bx = positions[i + 3];
+    const by = positions[i + 4];
+    const bz = positions[i + 5];
+    const cx = positions[i + 6];
+    const cy = positions[i + 7];
+    const cz = positions[i + 8];
+
+    // a · (b × c) / 6
+    volume +=
+      (ax * (by * cz - bz * cy) +
+        ay * (bz * cx - bx * cz) +
+        az * (bx * cy - by * cx)) /
+      6;
+
+    // |(b - a) × (c - a)| / 2
+    const ux = bx - ax;
+    const uy = by - ay;
+    const uz = bz - az;
+    const vx = cx - ax;
+    const vy = cy - ay;
+    const vz = cz - az;
+    surfaceArea +=
+      Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2;
+
+    for (let j = 0; j < 9; j++) {
+      const axis = j % 3;
+      const value = positions[i + j];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+
+  const triangleCount = Math.floor(positions.length / 9);
+  const extent = (axis: number) =>
+    triangleCount > 0 ? max[axis] - min[axis] : 0;
+
+  return {
+    // Inverted meshes integrate to a negative volume
+    volume: Math.abs(volume),
+    surfaceArea,
+    triangleCount,
+    size: { x: extent(0), y: extent(1), z: extent(2) },
+  };
+}
+
+/**
+ * Metrics of a mesh printed in a material of the given density (g/cm³).
+ * Material and time assume an FDM print with walls and 20 % infill.
+ */
+export function toDesignMetrics(
+  measurements: MeshMeasurements,
+  density: number,
+): DesignMetrics {
+  const { volume, surfaceArea } = measurements;
+  const shell = Math.min(surfaceArea * WALL_THICKNESS, volume);
+  const printed = shell + (volume - shell) * INFILL;
+
+  return {
+    volume: volume / 1000,
+    surfaceArea: surfaceArea / 100,
+    material: (printed / 1000) * density,
+    printTime: printed / FLOW_RATE / 60,
+    polygonCount: measurements.triangleCount,
+    dimensions: measurements.size,
+    density,
+  };
+}
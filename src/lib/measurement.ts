@@ -0,0 +1,235 @@
+/**
+ * Geometry behind the viewer's measurement tools
+ *
+ * Edges and holes are picked from the mesh's feature edges, the edges where
+ * neighbouring faces meet at a noticeable angle. Tessellation splits a single
+ * straight edge into several collinear pieces and a round hole into a ring
+ * of short ones, so picks are grown from the nearest piece along its line or
+ * around its ring.
+ */
+
+import * as THREE from 'three';
+
+// Faces meeting at less than this are treated as one smooth surface
+const FEATURE_ANGLE = 20;
+
+// Pieces continue a straight edge when their directions differ less than this
+const COLLINEAR_COS = Math.cos(THREE.MathUtils.degToRad(1));
+
+// Ring pieces must turn in the plane of the ring, within this tolerance
+const COPLANAR_COS = Math.cos(THREE.MathUtils.degToRad(10));
+
+// Rings with more corners than this are not treated as holes
+const MAX_RING_SIZE = 720;
+
+// Allowed deviation of ring corners from the fitted circle, relative to it
+const ROUNDNESS_TOLERANCE = 0.05;
+
+export type Circle = {
+  center: THREE.Vector3;
+  normal: THREE.Vector3;
+  radius: number;
+};
+
+export type MeasureMode = 'distance' | 'edge' | 'hole';
+
+// Points are in model coordinates, so values come out in model units (mm)
+export type Measurement =
+  | { kind: 'distance' | 'edge'; from: THREE.Vector3; to: THREE.Vector3 }
+  | { kind: 'hole'; circle: Circle; ring: THREE.Vector3[] };
+
+/**
+ * Least effort circle through a closed, planar ring of points: the centroid
+ * and the mean distance to it. `null` if the ring isn't round.
+ */
+export function fitCircle(points: THREE.Vector3[]): Circle | null {
+  if (points.length < 5) return null;
+
+  const center = new THREE.Vector3();
+  points.forEach((point) => center.add(point));
+  center.divideScalar(points.length);
+
+  const distances = points.map((point) => point.distanceTo(center));
+  const radius =
+    distances.reduce((sum, distance) => sum + distance, 0) / points.length;
+  if (
+    radius === 0 ||
+    distances.some(
+      (distance) => Math.abs(distance - radius) > radius * ROUNDNESS_TOLERANCE,
+    )
+  ) {
+    return null;
+  }
+
+  const normal = new THREE.Vector3()
+    .subVectors(points[0], center)
+    .cross(new THREE.Vector3().subVectors(points[1], center))
+    .normalize();
+  return { center, normal, radius };
+}
+
+/**
+ * Feature edges of a mesh with the connectivity to follow them
+ */
+export class FeatureEdges {
+  // Segment endpoints, 6 numbers per segment
+  private positions: ArrayLike<number>;
+  // Segments meeting at each welded endpoint
+  private segmentsAt = new Map<string, number[]>();
+
+  constructor(geometry: THREE.BufferGeometry) {
+    this.positions = new THREE.EdgesGeometry(
+      geometry,
+      FEATURE_ANGLE,
+    ).getAttribute('position').array;
+
+    for (let segment = 0; segment < this.count; segment++) {
+      for (const end of [0, 1]) {
+        const key = this.key(this.point(segment, end));
+        const segments = this.segmentsAt.get(key);
+        if (segments) segments.push(segment);
+        else this.segmentsAt.set(key, [segment]);
+      }
+    }
+  }
+
+  get count() {
+    return this.positions.length / 6;
+  }
+
+  // Endpoints are matched at 1e-4 precision, like EdgesGeometry welds them
+  private key(point: THREE.Vector3) {
+    return [point.x, point.y, point.z]
+      .map((value) => Math.round(value * 1e4))
+      .join(',');
+  }
+
+  point(segment: number, end: number) {
+    return new THREE.Vector3().fromArray(this.positions, segment * 6 + end * 3);
+  }
+
+  /**
+   * Segment closest to a point, with the closest point on it
+   */
+  nearest(
+    point: THREE.Vector3,
+  ): { segment: number; point: THREE.Vector3 } | null {
+    const line = new THREE.Line3();
+    const closest = new THREE.Vector3();
+    let best: { segment: number; point: THREE.Vector3 } | null = null;
+    let bestDistance = Infinity;
+
+    for (let segment = 0; segment < this.count; segment++) {
+      line.set(this.point(segment, 0), this.point(segment, 1));
+      line.closestPointToPoint(point, true, closest);
+      const distance = closest.distanceTo(point);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = { segment, point: closest.clone() };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * The segment the other end of `segment` at `point` continues into, picked
+   * by `score` (higher is better, `null` rules a candidate out)
+   */
+  private next(
+    segment: number,
+    point: THREE.Vector3,
+    score: (candidate: number, far: THREE.Vector3) => number | null,
+  ) {
+    let best: { segment: number; far: THREE.Vector3; score: number } | null =
+      null;
+    for (const candidate of this.segmentsAt.get(this.key(point)) ?? []) {
+      if (candidate === segment) continue;
+      const start = this.point(candidate, 0);
+      const far =
+        this.key(start) === this.key(point) ? this.point(candidate, 1) : start;
+      const value = score(candidate, far);
+      if (value !== null && (!best || value > best.score)) {
+        best = { segment: candidate, far, score: value };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Ends of the straight edge `segment` is a piece of
+   */
+  straightEdge(segment: number): [THREE.Vector3, THREE.Vector3] {
+    const a = this.point(segment, 0);
+    const b = this.point(segment, 1);
+    const direction = new THREE.Vector3().subVectors(b, a).normalize();
+
+    const extend = (from: THREE.Vector3, sign: number) => {
+      let current = segment;
+      let end = from;
+      for (let step = 0; step < this.count; step++) {
+        const next = this.next(current, end, (_candidate, far) => {
+          const along = new THREE.Vector3()
+            .subVectors(far, end)
+            .normalize()
+            .dot(direction);
+          return along * sign > COLLINEAR_COS ? along * sign : null;
+        });
+        if (!next) break;
+        current = next.segment;
+        end = next.far;
+      }
+      return end;
+    };
+
+    return [extend(a, -1), extend(b, 1)];
+  }
+
+  /**
+   * Corners of the closed ring `segment` is a piece of, following the
+   * smallest turn in the ring's plane at every corner. `null` if it doesn't
+   * close.
+   */
+  ring(segment: number): THREE.Vector3[] | null {
+    const start = this.point(segment, 0);
+    const corners = [start];
+    let current = segment;
+    let previous = start;
+    let corner = this.point(segment, 1);
+    let plane: THREE.Vector3 | null = null;
+
+    for (let step = 0; step < MAX_RING_SIZE; step++) {
+      if (this.key(corner) === this.key(start)) return corners;
+      corners.push(corner);
+
+      const incoming = new THREE.Vector3().subVectors(corner, previous);
+      const next = this.next(current, corner, (_candidate, far) => {
+        const outgoing = new THREE.Vector3().subVectors(far, corner);
+        const turn = new THREE.Vector3().crossVectors(incoming, outgoing);
+        const isStraight = turn.lengthSq() < 1e-12 * incoming.lengthSq();
+        if (
+          plane &&
+          !isStraight &&
+          turn.normalize().dot(plane) < COPLANAR_COS
+        ) {
+          return null;
+        }
+        // Straighter continuations score higher
+        return incoming.clone().normalize().dot(outgoing.normalize());
+      });
+      if (!next) return null;
+
+      // The first real turn fixes the plane
+      const turn = new THREE.Vector3().crossVectors(
+        incoming,
+        new THREE.Vector3().subVectors(next.far, corner),
+      );
+      if (!plane && turn.lengthSq() >= 1e-12 * incoming.lengthSq()) {
+        plane = turn.normalize();
+      }
+      previous = corner;
+      current = next.segment;
+      corner = next.far;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Printability checks of a triangle mesh
+ *
+ * Topology first: vertices are welded by position and every edge should be
+ * shared by exactly two triangles running it in opposite directions. Each
+ * connected shell is then oriented consistently and pointed outwards by ray
+ * parity, so a triangle wound against its shell counts as an inverted normal.
+ * Thin walls are found by casting a short ray from each triangle into the
+ * material, overhangs by comparing face normals with the build direction (+Z).
+ */
+
+export type PrintabilityOptions = {
+  nozzleWidth: number; // mm, thinner walls can't be printed
+  overhangAngle: number; // degrees from vertical that print without support
+};
+
+export const DEFAULT_PRINTABILITY_OPTIONS: PrintabilityOptions = {
+  nozzleWidth: 0.4,
+  overhangAngle: 45,
+};
+
+export type MeshAnalysis = {
+  // Edge endpoints, 6 numbers per edge
+  openEdges: number[];
+  nonManifoldEdges: number[];
+  // Triangle indices into the analyzed positions
+  invertedNormals: number[];
+  thinWalls: number[];
+  overhangs: number[];
+};
+
+export type MeshIssueKind = keyof MeshAnalysis;
+
+// Upper bound for the number of grid cells along each axis
+const MAX_GRID_SIZE = 64;
+
+// Shells beyond this are oriented by their signed volume instead of a ray
+const MAX_RAY_ORIENTED_SHELLS = 256;
+
+// Off-axis direction for parity rays, so they don't run along shared edges
+const PARITY_DIRECTION = normalize([0.0137, 0.0291, 1]);
+
+type Vec3 = [number, number, number];
+
+function normalize([x, y, z]: Vec3): Vec3 {
+  const length = Math.hypot(x, y, z) || 1;
+  return [x / length, y / length, z / length];
+}
+
+/**
+ * Distance along the ray to the triangle (Möller–Trumbore), or -1
+ */
+function intersect(
+  p: ArrayLike<number>,
+  t: number,
+  origin: Vec3,
+  direction: Vec3,
+): number {
+  const i = t * 9;
+  const e1x = p[i + 3] - p[i];
+  const e1y = p[i + 4] - p[i + 1];
+  const e1z = p[i + 5] - p[i + 2];
+  const e2x = p[i + 6] - p[i];
+  const e2y = p[i + 7] - p[i + 1];
+  const e2z = p[i + 8] - p[i + 2];
+
+  const hx = direction[1] * e2z - direction[2] * e2y;
+  const hy = direction[2] * e2x - direction[0] * e2z;
+  const hz = direction[0] * e2y - direction[1] * e2x;
+  const det = e1x * hx + e1y * hy + e1z * hz;
+  if (Math.abs(det) < 1e-12) return -1;
+
+  const sx = origin[0] - p[i];
+  const sy = origin[1] - p[i + 1];
+  const sz = origin[2] - p[i + 2];
+  const u = (sx * hx + sy * hy + sz * hz) / det;
+  if (u < 0 || u > 1) return -1;
+
+  const qx = sy * e1z - sz * e1y;
+  const qy = sz * e1x - sx * e1z;
+  const qz = sx * e1y - sy * e1x;
+  const v = (direction[0] * qx + direction[1] * qy + direction[2] * qz) / det;
+  if (v < 0 || u + v > 1) return -1;
+
+  return (e2x * qx + e2y * qy + e2z * qz) / det;
+}
+
+/**
+ * Triangles binned into a uniform 3D grid for short ray queries
+ */
+class TriangleGrid {
+  private cells: number[][];
+  private size: number;
+  private min: Vec3;
+  private cellSize: Vec3;
+
+  constructor(
+    private positions: ArrayLike<number>,
+    min: Vec3,
+    max: Vec3,
+    minCellSize: number,
+  ) {
+    const triangleCount = positions.length / 9;
+    this.size = Math.max(
+      1,
+      Math.min(MAX_GRID_SIZE, Math.ceil(Math.cbrt(triangleCount) * 2)),
+    );
+    this.min = min;
+    this.cellSize = [0, 1, 2].map((axis) =>
+      Math.max(minCellSize, (max[axis] - min[axis]) / this.size),
+    ) as Vec3;
+    this.cells = Array.from({ length: this.size ** 3 }, () => []);
+
+    const p = positions;
+    for (let t = 0; t < triangleCount; t++) {
+      const i = t * 9;
+      const from = [0, 1, 2].map((axis) =>
+        this.index(
+          Math.min(p[i + axis], p[i + 3 + axis], p[i + 6 + axis]),
+          axis,
+        ),
+      );
+      const to = [0, 1, 2].map((axis) =>
+        this.index(
+          Math.max(p[i + axis], p[i + 3 + axis], p[i + 6 + axis]),
+          axis,
+        ),
+      );
+      this.forEachCell(from, to, (cell) => cell.push(t));
+    }
+  }
+
+  private index(value: number, axis: number) {
+    return Math.min(
+      this.size - 1,
+      Math.max(0, Math.floor((value - this.min[axis]) / this.cellSize[axis])),
+    );
+  }
+
+  private forEachCell(
+    from: number[],
+    to: number[],
+    callback: (cell: number[]) => void,
+  ) {
+    for (let x = from[0]; x <= to[0]; x++) {
+      for (let y = from[1]; y <= to[1]; y++) {
+        for (let z = from[2]; z <= to[2]; z++) {
+          callback(this.cells[(z * this.size + y) * this.size + x]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Triangles near the segment from `origin` along `direction` for `length`
+   */
+  near(origin: Vec3, direction: Vec3, length: number): Set<number> {
+    const end = origin.map((value, axis) => value + direction[axis] * length);
+    const from = [0, 1, 2].map((axis) =>
+      this.index(Math.min(origin[axis], end[axis]), axis),
+    );
+    const to = [0, 1, 2].map((axis) =>
+      this.index(Math.max(origin[axis], end[axis]), axis),
+    );
+
+    const triangles = new Set<number>();
+    this.forEachCell(from, to, (cell) => cell.forEach((t) => triangles.add(t)));
+    return triangles;
+  }
+}
+
+/**
+ * Analyze a mesh given as a flat list of triangle vertex positions (9 numbers
+ * per triangle, like a non-indexed BufferGeometry)
+ */
+export function analyzeMesh(
+  positions: ArrayLike<number>,
+  options: PrintabilityOptions = DEFAULT_PRINTABILITY_OPTIONS,
+): MeshAnalysis {
+  const p = positions;
+  const triangleCount = Math.floor(p.length / 9);
+  const analysis: MeshAnalysis = {
+    openEdges: [],
+    nonManifoldEdges: [],
+    invertedNormals: [],
+    thinWalls: [],
+    overhangs: [],
+  };
+  if (triangleCount === 0) return analysis;
+
+  // Weld vertices, OpenSCAD writes shared corners with identical coordinates
+  const vertexIds = new Map<string, number>();
+  const corners = new Uint32Array(triangleCount * 3);
+  for (let c = 0; c < triangleCount * 3; c++) {
+    const key = `${p[c * 3]},${p[c * 3 + 1]},${p[c * 3 + 2]}`;
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = vertexIds.size;
+      vertexIds.set(key, id);
+    }
+    corners[c] = id;
+  }
+  const vertexCount = vertexIds.size;
+
+  // Unit normals and bounds
+  const normals = new Float64Array(triangleCount * 3);
+  const degenerate = new Uint8Array(triangleCount);
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (let t = 0; t < triangleCount; t++) {
+    const i = t * 9;
+    const ux = p[i + 3] - p[i];
+    const uy = p[i + 4] - p[i + 1];
+    const uz = p[i + 5] - p[i + 2];
+    const vx = p[i + 6] - p[i];
+    const vy = p[i + 7] - p[i + 1];
+    const vz = p[i + 8] - p[i + 2];
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    const length = Math.hypot(nx, ny, nz);
+    const a = corners[t * 3];
+    const b = corners[t * 3 + 1];
+    const c = corners[t * 3 + 2];
+    degenerate[t] = Number(length === 0 || a === b || b === c || c === a);
+    if (length > 0) {
+      normals[t * 3] = nx / length;
+      normals[t * 3 + 1] = ny / length;
+      normals[t * 3 + 2] = nz / length;
+    }
+    for (let k = 0; k < 9; k++) {
+      const axis = k % 3;
+      if (p[i + k] < min[axis]) min[axis] = p[i + k];
+      if (p[i + k] > max[axis]) max[axis] = p[i + k];
+    }
+  }
+  const diagonal = Math.hypot(
+    max[0] - min[0],
+    max[1] - min[1],
+    max[2] - min[2],
+  );
+  const epsilon = diagonal * 1e-6;
+
+  // Triangles around each undirected edge, with the direction they run it in
+  const edges = new Map<number, number[]>();
+  for (let t = 0; t < triangleCount; t++) {
+    if (degenerate[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const from = corners[t * 3 + k];
+      const to = corners[t * 3 + ((k + 1) % 3)];
+      const key = from < to ? from * vertexCount + to : to * vertexCount + from;
+      const faces = edges.get(key);
+      // Forward is encoded in the lowest bit
+      const entry = t * 2 + Number(from < to);
+      if (faces) faces.push(entry);
+      else edges.set(key, [entry]);
+    }
+  }
+
+  const corner = (t: number, vertex: number) =>
+    [0, 1, 2].find((k) => corners[t * 3 + k] === vertex)!;
+  const addEdge = (target: number[], faces: number[], key: number) => {
+    const t = faces[0] >> 1;
+    const from = corner(t, Math.floor(key / vertexCount));
+    const to = corner(t, key % vertexCount);
+    for (const k of [from, to]) {
+      target.push(p[t * 9 + k * 3], p[t * 9 + k * 3 + 1], p[t * 9 + k * 3 + 2]);
+    }
+  };
+
+  // Neighbours across manifold edges, and whether they are wound the same way
+  const neighbours: { t: number; flipped: boolean }[][] = Array.from(
+    { length: triangleCount },
+    () => [],
+  );
+  edges.forEach((faces, key) => {
+    if (faces.length === 1) {
+      addEdge(analysis.openEdges, faces, key);
+    } else if (faces.length > 2) {
+      addEdge(analysis.nonManifoldEdges, faces, key);
+    } else {
+      const [a, b] = faces;
+      const flipped = (a & 1) === (b & 1);
+      neighbours[a >> 1].push({ t: b >> 1, flipped });
+      neighbours[b >> 1].push({ t: a >> 1, flipped });
+    }
+  });
+
+  // Orient each shell consistently with its first triangle
+  const flip = new Int8Array(triangleCount).fill(-1);
+  const shells: number[][] = [];
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (flip[seed] !== -1 || degenerate[seed]) continue;
+    const shell = [seed];
+    flip[seed] = 0;
+    for (let i = 0; i < shell.length; i++) {
+      const t = shell[i];
+      for (const neighbour of neighbours[t]) {
+        if (flip[neighbour.t] !== -1) continue;
+        flip[neighbour.t] = flip[t] ^ Number(neighbour.flipped);
+        shell.push(neighbour.t);
+      }
+    }
+    shells.push(shell);
+  }
+
+  const countCrossings = (origin: Vec3, direction: Vec3) => {
+    let crossings = 0;
+    for (let t = 0; t < triangleCount; t++) {
+      if (!degenerate[t] && intersect(p, t, origin, direction) > epsilon) {
+        crossings++;
+      }
+    }
+    return crossings;
+  };
+
+  // Point each shell outwards. A normal pointing outwards leaves the solid,
+  // so a ray along it crosses the surface an even number of times.
+  shells.forEach((shell, index) => {
+    let outwards: boolean;
+    if (index < MAX_RAY_ORIENTED_SHELLS) {
+      const t = shell[0];
+      const sign = flip[t] ? -1 : 1;
+      const origin = [0, 1, 2].map(
+        (axis) =>
+          (p[t * 9 + axis] + p[t * 9 + 3 + axis] + p[t * 9 + 6 + axis]) / 3,
+      ) as Vec3;
+      // Tilt the parity direction into the normal's hemisphere
+      const dot =
+        normals[t * 3] * PARITY_DIRECTION[0] +
+        normals[t * 3 + 1] * PARITY_DIRECTION[1] +
+        normals[t * 3 + 2] * PARITY_DIRECTION[2];
+      const direction = normalize(
+        [0, 1, 2].map(
+          (axis) =>
+            sign * normals[t * 3 + axis] +
+            PARITY_DIRECTION[axis] * (dot * sign < 0 ? -0.1 : 0.1),
+        ) as Vec3,
+      );
+      outwards = countCrossings(origin, direction) % 2 === 0;
+    } else {
+      let volume = 0;
+      for (const t of shell) {
+        const i = t * 9;
+        volume +=
+          (flip[t] ? -1 : 1) *
+          (p[i] * (p[i + 4] * p[i + 8] - p[i + 5] * p[i + 7]) +
+            p[i + 1] * (p[i + 5] * p[i + 6] - p[i + 3] * p[i + 8]) +
+            p[i + 2] * (p[i + 3] * p[i + 7] - p[i + 4] * p[i + 6]));
+      }
+      outwards = volume >= 0;
+    }
+
+    for (const t of shell) {
+      const inverted = Boolean(flip[t]) === outwards;
+      if (inverted) {
+        analysis.invertedNormals.push(t);
+        normals[t * 3] *= -1;
+        normals[t * 3 + 1] *= -1;
+        normals[t * 3 + 2] *= -1;
+      }
+    }
+  });
+
+  // Faces sloping down further than this from vertical need support
+  const overhangLimit = Math.sin((options.overhangAngle * Math.PI) / 180);
+  const grid = new TriangleGrid(p, min, max, options.nozzleWidth);
+
+  for (let t = 0; t < triangleCount; t++) {
+    if (degenerate[t]) continue;
+    const i = t * 9;
+    const normal: Vec3 = [
+      normals[t * 3],
+      normals[t * 3 + 1],
+      normals[t * 3 + 2],
+    ];
+
+    // Faces on the build plate are supported by it
+    const onBed = Math.max(p[i + 2], p[i + 5], p[i + 8]) - min[2] <= epsilon;
+    if (!onBed && -normal[2] > overhangLimit) {
+      analysis.overhangs.push(t);
+    }
+
+    const origin = [0, 1, 2].map(
+      (axis) => (p[i + axis] + p[i + 3 + axis] + p[i + 6 + axis]) / 3,
+    ) as Vec3;
+    const inwards = normal.map((value) => -value) as Vec3;
+    for (const other of grid.near(origin, inwards, options.nozzleWidth)) {
+      if (other === t || degenerate[other]) continue;
+      // Only the opposite side of the wall counts, not faces meeting this one
+      const facing =
+        normal[0] * normals[other * 3] +
+        normal[1] * normals[other * 3 + 1] +
+        normal[2] * normals[other * 3 + 2];
+      if (facing >= 0) continue;
+      const distance = intersect(p, other, origin, inwards);
+      if (distance > epsilon && distance < options.nozzleWidth) {
+        analysis.thinWalls.push(t);
+        break;
+      }
+    }
+  }
+
+  return analysis;
+}
+
+export function isEdgeIssue(kind: MeshIssueKind) {
+  return kind === 'openEdges' || kind === 'nonManifoldEdges';
+}
+
+/**
+ * Number of problem edges or triangles of a kind
+ */
+export function countIssues(analysis: MeshAnalysis, kind: MeshIssueKind) {
+  return isEdgeIssue(kind) ? analysis[kind].length / 6 : analysis[kind].length;
+}
+
+/**
+ * Whether the mesh is broken as a solid, as opposed to merely hard to print
+ */
+export function hasMeshDefects(analysis: MeshAnalysis): boolean {
+  return (
+    analysis.openEdges.length > 0 ||
+    analysis.nonManifoldEdges.length > 0 ||
+    analysis.invertedNormals.length > 0
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Geometric diff between two triangle meshes
+ *
+ * Each triangle is classified by looking just behind it, into the solid it
+ * bounds: a triangle of the new mesh whose inside was empty in the old mesh
+ * bounds added material, a triangle of the old mesh whose inside is empty in
+ * the new mesh bounds removed material. Faces the versions share, and faces
+ * cut into existing material, count as unchanged.
+ */
+
+import * as THREE from 'three';
+
+export type MeshDiff = {
+  // Triangles of the new mesh around added material
+  added: THREE.BufferGeometry;
+  // Triangles of the old mesh around removed material
+  removed: THREE.BufferGeometry;
+  // Remaining triangles of the new mesh
+  unchanged: THREE.BufferGeometry;
+};
+
+// Upper bound for the number of grid cells along each axis
+const MAX_GRID_SIZE = 128;
+
+// Offset of the probe point behind a triangle, relative to the model size
+const PROBE_DEPTH = 1e-4;
+
+// Triangles are classified as a whole, so long ones (the sides of a box that
+// was made taller) are split until their edges are at most this fraction of
+// the model size
+const MAX_EDGE = 1 / 64;
+const MAX_SUBDIVISIONS = 6;
+
+/**
+ * Triangles of a mesh binned into columns of an XY grid, so a vertical ray
+ * only has to be tested against the triangles in its column
+ */
+class ColumnGrid {
+  private positions: ArrayLike<number>;
+  private cells: number[][];
+  private size: number;
+  private min: THREE.Vector2;
+  private cellSize: THREE.Vector2;
+
+  constructor(geometry: THREE.BufferGeometry) {
+    this.positions = geometry.getAttribute('position').array;
+    const triangleCount = this.positions.length / 9;
+
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    this.min = new THREE.Vector2(box.min.x, box.min.y);
+    this.size = Math.max(
+      1,
+      Math.min(MAX_GRID_SIZE, Math.ceil(Math.sqrt(triangleCount))),
+    );
+    this.cellSize = new THREE.Vector2(
+      (box.max.x - box.min.x) / this.size || 1,
+      (box.max.y - box.min.y) / this.size || 1,
+    );
+    this.cells = Array.from({ length: this.size * this.size }, () => []);
+
+    const p = this.positions;
+    for (let t = 0; t < triangleCount; t++) {
+      const i = t * 9;
+      const [x0, x1] = this.column(
+        Math.min(p[i], p[i + 3], p[i + 6]),
+        Math.max(p[i], p[i + 3], p[i + 6]),
+        'x',
+      );
+      const [y0, y1] = this.column(
+        Math.min(p[i + 1], p[i + 4], p[i + 7]),
+        Math.max(p[i + 1], p[i + 4], p[i + 7]),
+        'y',
+      );
+      for (let x = x0; x <= x1; x++) {
+        for (let y = y0; y <= y1; y++) {
+          this.cells[y * this.size + x].push(t);
+        }
+      }
+    }
+  }
+
+  private column(from: number, to: number, axis: 'x' | 'y') {
+    const index = (value: number) =>
+      Math.min(
+        this.size - 1,
+        Math.max(0, Math.floor((value - this.min[axis]) / this.cellSize[axis])),
+      );
+    return [index(from), index(to)];
+  }
+
+  /**
+   * Even-odd test with a ray cast from the point towards +Z
+   */
+  contains(x: number, y: number, z: number): boolean {
+    const [cx] = this.column(x, x, 'x');
+    const [cy] = this.column(y, y, 'y');
+    if (
+      x < this.min.x ||
+      y < this.min.y ||
+      x > this.min.x + this.cellSize.x * this.size ||
+      y > this.min.y + this.cellSize.y * this.size
+    ) {
+      return false;
+    }
+
+    const p = this.positions;
+    let crossings = 0;
+    for (const t of this.cells[cy * this.size + cx]) {
+      const i = t * 9;
+      const ax = p[i] - x;
+      const ay = p[i + 1] - y;
+      const bx = p[i + 3] - x;
+      const by = p[i + 4] - y;
+      const cx2 = p[i + 6] - x;
+      const cy2 = p[i + 7] - y;
+
+      // Barycentric coordinates of the ray in the triangle's XY projection
+      const area = (bx - ax) * (cy2 - ay) - (by - ay) * (cx2 - ax);
+      if (area === 0) continue;
+      const u = (bx * cy2 - by * cx2) / area;
+      const v = (cx2 * ay - cy2 * ax) / area;
+      const w = 1 - u - v;
+      if (u < 0 || v < 0 || w < 0) continue;
+
+      const hitZ = u * p[i + 2] + v * p[i + 5] + w * p[i + 8];
+      if (hitZ > z) crossings++;
+    }
+    return crossings % 2 === 1;
+  }
+}
+
+/**
+ * Split every triangle with an edge longer than `maxEdge` into four, until
+ * none is left or the subdivision limit is reached
+ */
+function subdivide(
+  geometry: THREE.BufferGeometry,
+  maxEdge: number,
+): THREE.BufferGeometry {
+  let positions = Array.from(geometry.getAttribute('position').array);
+
+  for (let round = 0; round < MAX_SUBDIVISIONS; round++) {
+    const next: number[] = [];
+    let changed = false;
+
+    for (let i = 0; i < positions.length; i += 9) {
+      const [ax, ay, az, bx, by, bz, cx, cy, cz] = positions.slice(i, i + 9);
+      const longest = Math.max(
+        Math.hypot(bx - ax, by - ay, bz - az),
+        Math.hypot(cx - bx, cy - by, cz - bz),
+        Math.hypot(ax - cx, ay - cy, az - cz),
+      );
+      if (longest <= maxEdge) {
+        next.push(ax, ay, az, bx, by, bz, cx, cy, cz);
+        continue;
+      }
+
+      changed = true;
+      const abx = (ax + bx) / 2;
+      const aby = (ay + by) / 2;
+      const abz = (az + bz) / 2;
+      const bcx = (bx + cx) / 2;
+      const bcy = (by + cy) / 2;
+      const bcz = (bz + cz) / 2;
+      const cax = (cx + ax) / 2;
+      const cay = (cy + ay) / 2;
+      const caz = (cz + az) / 2;
+      next.push(
+        ...[ax, ay, az, abx, aby, abz, cax, cay, caz],
+        ...[abx, aby, abz, bx, by, bz, bcx, bcy, bcz],
+        ...[cax, cay, caz, bcx, bcy, bcz, cx, cy, cz],
+        ...[abx, aby, abz, bcx, bcy, bcz, cax, cay, caz],
+      );
+    }
+
+    positions = next;
+    if (!changed) break;
+  }
+
+  const result = new THREE.BufferGeometry();
+  result.setAttribute(
+    'position',
+    new THREE.BufferAttribute(new Float32Array(positions), 3),
+  );
+  return result;
+}
+
+function collect(
+  positions: ArrayLike<number>,
+  triangles: number[],
+): THREE.BufferGeometry {
+  const result = new Float32Array(triangles.length * 9);
+  triangles.forEach((t, index) => {
+    for (let k = 0; k < 9; k++) {
+      result[index * 9 + k] = positions[t * 9 + k];
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(result, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Split the triangles of `mesh` by whether the material behind them is
+ * missing from `other`
+ */
+function splitByOther(
+  mesh: THREE.BufferGeometry,
+  other: ColumnGrid,
+  depth: number,
+) {
+  const positions = mesh.getAttribute('position').array;
+  const outside: number[] = [];
+  const inside: number[] = [];
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const probe = new THREE.Vector3();
+
+  for (let t = 0; t < positions.length / 9; t++) {
+    a.fromArray(positions, t * 9);
+    b.fromArray(positions, t * 9 + 3);
+    c.fromArray(positions, t * 9 + 6);
+    THREE.Triangle.getNormal(a, b, c, normal);
+
+    probe.copy(a).add(b).add(c).divideScalar(3).addScaledVector(normal, -depth);
+    // Nudge off the grid so rays don't run exactly through shared edges
+    const hasMaterial = other.contains(
+      probe.x + depth * 0.0137,
+      probe.y + depth * 0.0291,
+      probe.z,
+    );
+    (hasMaterial ? inside : outside).push(t);
+  }
+
+  return { outside, inside, positions };
+}
+
+/**
+ * Compare two non-indexed meshes in the same coordinate frame
+ */
+export function meshDiff(
+  before: THREE.BufferGeometry,
+  after: THREE.BufferGeometry,
+): MeshDiff {
+  const box = new THREE.Box3();
+  before.computeBoundingBox();
+  after.computeBoundingBox();
+  box.copy(before.boundingBox!).union(after.boundingBox!);
+  const size = box.getSize(new THREE.Vector3()).length();
+  const depth = size * PROBE_DEPTH;
+
+  const fromAfter = splitByOther(
+    subdivide(after, size * MAX_EDGE),
+    new ColumnGrid(before),
+    depth,
+  );
+  const fromBefore = splitByOther(
+    subdivide(before, size * MAX_EDGE),
+    new ColumnGrid(after),
+    depth,
+  );
+
+  return {
+    added: collect(fromAfter.positions, fromAfter.outside),
+    removed: collect(fromBefore.positions, fromBefore.outside),
+    unchanged: collect(fromAfter.positions, fromAfter.inside),
+  };
+}
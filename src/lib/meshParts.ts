@@ -0,0 +1,297 @@
+/**
+ * Separate parts of a rendered model
+ *
+ * OpenSCAD keeps top-level objects apart in 3MF files (with lazy union) and
+ * writes `color()` as 3MF materials, so a 3MF render splits into one part per
+ * object and color. Web workers have no DOMParser, the XML is read with
+ * regular expressions; it is machine written and regular enough for that.
+ */
+
+import { BlobReader, TextWriter, ZipReader } from '@zip.js/zip.js';
+
+export type MeshPart = {
+  name: string;
+  // '#rrggbb', missing when the design doesn't color the part
+  color?: string;
+  opacity?: number;
+  // Non-indexed triangle positions, 9 numbers per triangle
+  positions: Float32Array;
+};
+
+type Material = { color: string; opacity: number };
+
+type MeshObject = {
+  name?: string;
+  vertices: number[];
+  // v1, v2, v3 per triangle
+  triangles: number[];
+  // Material per triangle, `undefined` for none
+  materials: (Material | undefined)[];
+  components: { objectId: string; transform: number[] }[];
+};
+
+// 3MF transforms are 3x4 matrices applied to row vectors
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+function attribute(tag: string, name: string): string | undefined {
+  return new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1];
+}
+
+function parseColor(value: string): Material {
+  const hex = value.replace('#', '');
+  return {
+    color: `#${hex.slice(0, 6).toLowerCase()}`,
+    opacity: hex.length >= 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+  };
+}
+
+function parseTransform(value: string | undefined): number[] {
+  if (!value) return IDENTITY;
+  const numbers = value.trim().split(/\s+/).map(Number);
+  return numbers.length === 12 && numbers.every(Number.isFinite)
+    ? numbers
+    : IDENTITY;
+}
+
+// `inner` first, then `outer`
+function combine(inner: number[], outer: number[]): number[] {
+  const result: number[] = [];
+  for (let row = 0; row < 4; row++) {
+    for (let column = 0; column < 3; column++) {
+      let value = row === 3 ? outer[9 + column] : 0;
+      for (let k = 0; k < 3; k++) {
+        value += inner[row * 3 + k] * outer[k * 3 + column];
+      }
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Material groups by resource id: `<basematerials>` and `<m:colorgroup>`
+ */
+function parseMaterials(xml: string): Map<string, Material[]> {
+  const groups = new Map<string, Material[]>();
+  const groupPattern =
+    /<(?:\w+:)?(basematerials|colorgroup)\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?\1>/g;
+
+  for (const [, kind, attributes, body] of xml.matchAll(groupPattern)) {
+    const id = attribute(attributes, 'id');
+    if (!id) continue;
+    const [tag, colorAttribute] =
+      kind === 'basematerials' ? ['base', 'displaycolor'] : ['color', 'color'];
+    const entries = [
+      ...body.matchAll(new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*)/?>`, 'g')),
+    ];
+    groups.set(
+      id,
+      entries.map(([, entry]) =>
+        parseColor(attribute(entry, colorAttribute) ?? '#ffffff'),
+      ),
+    );
+  }
+  return groups;
+}
+
+function parseObjects(
+  xml: string,
+  materials: Map<string, Material[]>,
+): Map<string, MeshObject> {
+  const objects = new Map<string, MeshObject>();
+  const objectPattern = /<object\b([^>]*)>([\s\S]*?)<\/object>/g;
+
+  for (const [, attributes, body] of xml.matchAll(objectPattern)) {
+    const id = attribute(attributes, 'id');
+    if (!id) continue;
+    const objectPid = attribute(attributes, 'pid');
+    const objectIndex = attribute(attributes, 'pindex');
+
+    const vertices: number[] = [];
+    for (const [, vertex] of body.matchAll(/<vertex\b([^>]*)\/>/g)) {
+      vertices.push(
+        Number(attribute(vertex, 'x')),
+        Number(attribute(vertex, 'y')),
+        Number(attribute(vertex, 'z')),
+      );
+    }
+
+    const triangles: number[] = [];
+    const triangleMaterials: (Material | undefined)[] = [];
+    for (const [, triangle] of body.matchAll(/<triangle\b([^>]*)\/>/g)) {
+      triangles.push(
+        Number(attribute(triangle, 'v1')),
+        Number(attribute(triangle, 'v2')),
+        Number(attribute(triangle, 'v3')),
+      );
+      const pid = attribute(triangle, 'pid') ?? objectPid;
+      const index = attribute(triangle, 'p1') ?? objectIndex;
+      triangleMaterials.push(
+        pid !== undefined
+          ? materials.get(pid)?.[Number(index ?? 0)]
+          : undefined,
+      );
+    }
+
+    const components = [...body.matchAll(/<component\b([^>]*)\/>/g)].flatMap(
+      ([, component]) => {
+        const objectId = attribute(component, 'objectid');
+        return objectId
+          ? [
+              {
+                objectId,
+                transform: parseTransform(attribute(component, 'transform')),
+              },
+            ]
+          : [];
+      },
+    );
+
+    objects.set(id, {
+      name: attribute(attributes, 'name'),
+      vertices,
+      triangles,
+      materials: triangleMaterials,
+      components,
+    });
+  }
+  return objects;
+}
+
+/**
+ * Parts of a 3MF model file (`3D/3dmodel.model`), one per build item and
+ * color, in build order
+ */
+export function parse3MFModel(xml: string): MeshPart[] {
+  const materials = parseMaterials(xml);
+  const objects = parseObjects(xml, materials);
+
+  const build = [...xml.matchAll(/<item\b([^>]*)\/>/g)].flatMap(([, item]) => {
+    const objectId = attribute(item, 'objectid');
+    return objectId
+      ? [{ objectId, transform: parseTransform(attribute(item, 'transform')) }]
+      : [];
+  });
+
+  const parts: MeshPart[] = [];
+  const addObject = (
+    objectId: string,
+    transform: number[],
+    name: string | undefined,
+    depth: number,
+  ) => {
+    const object = objects.get(objectId);
+    // Components can't legally cycle, don't trust that
+    if (!object || depth > 16) return;
+    const partName = object.name ?? name;
+
+    // Split the mesh by material, keeping first-seen order
+    const byMaterial = new Map<
+      string,
+      { material?: Material; positions: number[] }
+    >();
+    for (let t = 0; t < object.triangles.length / 3; t++) {
+      const material = object.materials[t];
+      const key = material ? `${material.color}/${material.opacity}` : '';
+      let group = byMaterial.get(key);
+      if (!group) {
+        group = { material, positions: [] };
+        byMaterial.set(key, group);
+      }
+      for (let k = 0; k < 3; k++) {
+        const v = object.triangles[t * 3 + k] * 3;
+        const [x, y, z] = object.vertices.slice(v, v + 3);
+        group.positions.push(
+          x * transform[0] + y * transform[3] + z * transform[6] + transform[9],
+          x * transform[1] +
+            y * transform[4] +
+            z * transform[7] +
+            transform[10],
+          x * transform[2] +
+            y * transform[5] +
+            z * transform[8] +
+            transform[11],
+        );
+      }
+    }
+
+    byMaterial.forEach(({ material, positions }) => {
+      parts.push({
+        name: partName ?? `Part ${parts.length + 1}`,
+        color: material?.color,
+        opacity: material?.opacity,
+        positions: new Float32Array(positions),
+      });
+    });
+
+    object.components.forEach((component) =>
+      addObject(
+        component.objectId,
+        combine(component.transform, transform),
+        partName,
+        depth + 1,
+      ),
+    );
+  };
+
+  build.forEach(({ objectId, transform }) =>
+    addObject(objectId, transform, undefined, 0),
+  );
+  return parts;
+}
+
+/**
+ * Parts of a 3MF package
+ */
+export async function read3MFParts(bytes: Uint8Array): Promise<MeshPart[]> {
+  const entries = await new ZipReader(
+    new BlobReader(new Blob([bytes])),
+  ).getEntries();
+  const model = entries.find(
+    (entry) => !entry.directory && entry.filename.endsWith('.model'),
+  );
+  if (!model?.getData) {
+    throw new Error('3MF package has no model');
+  }
+  return parse3MFModel(await model.getData(new TextWriter()));
+}
+
+/**
+ * Binary STL of the given parts together
+ */
+export function toBinarySTL(parts: Pick<MeshPart, 'positions'>[]): Uint8Array {
+  const triangleCount = parts.reduce(
+    (count, part) => count + part.positions.length / 9,
+    0,
+  );
+  const buffer = new ArrayBuffer(84 + triangleCount * 50);
+  const view = new DataView(buffer);
+  view.setUint32(80, triangleCount, true);
+
+  let offset = 84;
+  for (const { positions } of parts) {
+    for (let i = 0; i < positions.length; i += 9) {
+      const ux = positions[i + 3] - positions[i];
+      const uy = positions[i + 4] - positions[i + 1];
+      const uz = positions[i + 5] - positions[i + 2];
+      const vx = positions[i + 6] - positions[i];
+      const vy = positions[i + 7] - positions[i + 1];
+      const vz = positions[i + 8] - positions[i + 2];
+      const normal = [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx];
+      const length = Math.hypot(...normal) || 1;
+
+      for (const value of normal) {
+        view.setFloat32(offset, value / length, true);
+        offset += 4;
+      }
+      for (let k = 0; k < 9; k++) {
+        view.setFloat32(offset, positions[i + k], true);
+        offset += 4;
+      }
+      // Attribute byte count
+      offset += 2;
+    }
+  }
+
+  return new Uint8Array(buffer);
+}
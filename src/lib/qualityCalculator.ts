@@ -4,6 +4,7 @@
  */
 
 import type { QualityMetrics, QualityScoreResult, Parameter } from '@shared/types';
+import { hasMeshDefects, type MeshAnalysis } from '@/lib/meshAnalysis';
 
 // ============================================================================
 // Scoring Constants
@@ -341,6 +342,8 @@ export function buildQualityMetrics(input: {
   modelVersion: 'pierre' | 'metroboomin';
   generationTimeMs?: number;
   tokensUsed?: number;
+  // Mesh check of the compiled model, catches defects OpenSCAD doesn't report
+  meshAnalysis?: MeshAnalysis;
 }): Omit<QualityMetrics, 'id' | 'created_at' | 'updated_at' | 'user_id'> {
   const paramValidation = validateParameterRanges(input.parameters);
   const parametersTested = estimateParameterFunctionality(
@@ -350,9 +353,9 @@ export function buildQualityMetrics(input: {
   const compilation_warnings = input.stderr
     ? countOpenSCADWarnings(input.stderr)
     : 0;
-  const has_degenerate_geometry = input.stderr
-    ? hasGeometryIssues(input.stderr)
-    : false;
+  const has_degenerate_geometry =
+    (input.stderr ? hasGeometryIssues(input.stderr) : false) ||
+    (input.meshAnalysis ? hasMeshDefects(input.meshAnalysis) : false);
 
   const partialMetrics: Partial<QualityMetrics> = {
     message_id: input.messageId,
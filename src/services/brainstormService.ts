@@ -45,6 +45,8 @@ export interface DesignMetrics {
   printTime?: number; // minutes
   material?: number; // grams
   polygonCount?: number;
+  dimensions?: { x: number; y: number; z: number }; // mm, bounding box
+  density?: number; // g/cm³ used for `material`
 }
 
 export interface BrainstormVariation {
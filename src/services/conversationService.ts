@@ -107,6 +107,35 @@ export function useUpdateConversationTitle() {
   });
 }
 
+/**
+ * Hook to update the render time limit of a conversation, `null` for the
+ * default
+ */
+export function useUpdateConversationCompileTimeout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      conversationId: string;
+      timeoutSeconds: number | null;
+    }) => {
+      const { data, error } = await supabase
+        .from('conversations')
+        .update({ compile_timeout_seconds: params.timeoutSeconds })
+        .eq('id', params.conversationId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Conversation;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['conversation', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['conversations', data.user_id] });
+    },
+  });
+}
+
 /**
  * Hook to delete a conversation
  */
@@ -6,6 +6,8 @@ import {
   Message,
   Model,
   Parameter,
+  ParameterPreset,
+  ParametricArtifact,
 } from '@shared/types';
 import { HistoryConversation } from '@/types/misc';
 import {
@@ -15,8 +17,14 @@ import {
   useQuery,
   useQueryClient,
 } from '@tanstack/react-query';
-import { updateParameter } from '@/utils/parameterUtils';
-import { useCallback } from 'react';
+import {
+  isSameValue,
+  parseParameters,
+  updateParameter,
+} from '@shared/openscad/parameters';
+import { carryOverPresets } from '@shared/openscad/presets';
+import { artifactVersions, nextArtifactVersion } from '@shared/versions';
+import { useCallback, useMemo } from 'react';
 
 function messageSentConversationUpdate(
   newMessage: Message,
@@ -110,6 +118,12 @@ export const useMessagesQuery = () => {
   });
 };
 
+// Version label ("v2", "v2.1") of every assistant message with an artifact
+export function useArtifactVersions() {
+  const { data: messages = [] } = useMessagesQuery();
+  return useMemo(() => artifactVersions(messages), [messages]);
+}
+
 export function useInsertMessageMutation() {
   const queryClient = useQueryClient();
 
@@ -141,6 +155,59 @@ export function useInsertMessageMutation() {
   });
 }
 
+// In-flight chat requests by conversation, so they can be cancelled
+const activeGenerations = new Map<string, AbortController>();
+
+/**
+ * Store the assistant message of a cancelled generation. The chat function
+ * may not have inserted its placeholder yet, in which case this row takes its
+ * place and the function stops when its insert fails.
+ */
+async function saveCancelledMessage({
+  conversationId,
+  messageId,
+  newMessageId,
+  partialMessage,
+  model,
+}: {
+  conversationId: string;
+  messageId: string;
+  newMessageId: string;
+  partialMessage: Message | null;
+  model: Model;
+}): Promise<Message> {
+  const content: Content = {
+    model,
+    ...partialMessage?.content,
+    draft: undefined,
+    toolCalls: undefined,
+    text: 'Generation cancelled.',
+    cancelled: true,
+  };
+
+  const { data, error } = await supabase
+    .from('messages')
+    .upsert({
+      id: newMessageId,
+      conversation_id: conversationId,
+      role: 'assistant',
+      content,
+      parent_message_id: messageId,
+    })
+    .select()
+    .single()
+    .overrideTypes<{ content: Content; role: 'assistant' }>();
+
+  if (error) throw error;
+  return data;
+}
+
+export function useCancelGeneration(conversationId: string) {
+  return useCallback(() => {
+    activeGenerations.get(conversationId)?.abort();
+  }, [conversationId]);
+}
+
 export function useParametricChatMutation({
   conversationId,
 }: {
@@ -163,33 +230,63 @@ export function useParametricChatMutation({
       const newMessageId = crypto.randomUUID();
       let initialized = false;
 
+      const abortController = new AbortController();
+      activeGenerations.get(conversationId)?.abort();
+      activeGenerations.set(conversationId, abortController);
+      const release = () => {
+        if (activeGenerations.get(conversationId) === abortController) {
+          activeGenerations.delete(conversationId);
+        }
+      };
+      const cancel = (partialMessage: Message | null) => {
+        release();
+        return saveCancelledMessage({
+          conversationId,
+          messageId,
+          newMessageId,
+          partialMessage,
+          model,
+        });
+      };
+
       // Start streaming request
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${
-              (await supabase.auth.getSession()).data.session?.access_token
-            }`,
+      let response: Response;
+      try {
+        response = await fetch(
+          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${
+                (await supabase.auth.getSession()).data.session?.access_token
+              }`,
+            },
+            body: JSON.stringify({
+              conversationId,
+              messageId,
+              model,
+              newMessageId,
+            }),
+            // Aborting closes the connection, which stops the chat function
+            signal: abortController.signal,
           },
-          body: JSON.stringify({
-            conversationId,
-            messageId,
-            model,
-            newMessageId,
-          }),
-        },
-      );
+        );
+      } catch (error) {
+        if (abortController.signal.aborted) return await cancel(null);
+        release();
+        throw error;
+      }
 
       if (!response.ok) {
+        release();
         throw new Error(
           `Network response was not ok: ${response.status} ${response.statusText}`,
         );
       }
 
       if (response.headers.get('Content-Type')?.includes('application/json')) {
+        release();
         const data = await response.json();
         if (data.message) {
           return data.message;
@@ -263,6 +360,7 @@ export function useParametricChatMutation({
         }
       };
 
+      let isCancelled = false;
       try {
         while (true) {
           const { done, value } = await reader.read();
@@ -327,16 +425,36 @@ export function useParametricChatMutation({
             console.error('Error parsing final streaming data:', parseError);
           }
         }
+      } catch (error) {
+        if (!abortController.signal.aborted) throw error;
+        isCancelled = true;
       } finally {
         // Ensure any pending updates are flushed when stream ends
         flushPendingUpdate();
         reader.releaseLock();
+        release();
+      }
+
+      if (isCancelled) {
+        return await cancel(finalMessage);
       }
 
       if (!finalMessage) {
         throw new Error('No final message received');
       }
 
+      // The stream was cut off mid-generation, the function still saves the
+      // message so load the stored version instead of the partial draft
+      if (finalMessage.content.draft) {
+        await queryClient.invalidateQueries({
+          queryKey: ['messages', conversationId],
+        });
+        const storedMessage = queryClient
+          .getQueryData<Message[]>(['messages', conversationId])
+          ?.find((msg) => msg.id === newMessageId);
+        if (storedMessage) return storedMessage;
+      }
+
       return finalMessage;
     },
     onSuccess: async (newMessage) => {
@@ -597,56 +715,143 @@ export function useRestoreMessageMutation() {
   });
 }
 
+export function useSaveCodeVersionMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      message,
+      code,
+      version,
+    }: {
+      message: Message;
+      code: string;
+      version: string;
+    }) => {
+      const artifact = message.content.artifact;
+      if (!artifact) throw new Error('Message has no artifact');
+
+      // Hand edits become a new version next to the one they started from
+      const parameters = parseParameters(code);
+      const content: Content = {
+        text: 'Edited the code by hand.',
+        model: message.content.model ?? 'pierre',
+        artifact: {
+          ...artifact,
+          version,
+          code,
+          parameters,
+          presets: carryOverPresets(artifact.presets ?? [], parameters),
+        },
+      };
+
+      const { data, error } = await supabase
+        .from('messages')
+        .insert([
+          {
+            role: 'assistant',
+            content,
+            parent_message_id: message.id,
+            conversation_id: message.conversation_id,
+          },
+        ])
+        .select()
+        .single()
+        .overrideTypes<{ content: Content; role: 'user' | 'assistant' }>();
+
+      if (error) throw error;
+
+      return data;
+    },
+    onSuccess(newMessage) {
+      messageInsertedConversationUpdate(
+        queryClient,
+        newMessage,
+        newMessage.conversation_id,
+      );
+    },
+    onError: (error) => {
+      console.error(error);
+    },
+  });
+}
+
 export function useChangeParameters() {
   const { mutate: updateMessageOptimistic } =
     useUpdateMessageOptimisticMutation();
+  const { mutate: insertMessage } = useInsertMessageMutation();
   const queryClient = useQueryClient();
   const { conversation } = useConversation();
-
+  const { data: messages = [] } = useMessagesQuery();
+
+  // Applies all parameter changes (e.g. a whole preset) as one update. Pass
+  // `presets` to replace the artifact's saved presets in the same update.
+  // Changed values become a new minor version (v2.1) next to the message they
+  // started from, presets alone are updated in place. Values still being
+  // edited aren't saved, the viewer compiles them as `-D` overrides of the
+  // unchanged code.
   return useCallback(
-    (message: Message | null, updatedParameters: Parameter[]) => {
+    (
+      message: Message | null,
+      updatedParameters: Parameter[],
+      presets?: ParameterPreset[],
+    ) => {
       if (!message) return;
 
-      console.log('[useChangeParameters] Updating parameters:', {
-        messageId: message.id,
-        parameterCount: updatedParameters.length,
-        parameters: updatedParameters.map(p => ({ name: p.name, value: p.value })),
-      });
-
+      // Only values that differ from the code count as a change
       const originalCode = message.content.artifact?.code ?? '';
-      console.log('[useChangeParameters] Original code length:', originalCode.length);
-
-      let newCode = originalCode;
-      updatedParameters.forEach((param) => {
-        if (param.name.length > 0) {
-          console.log('[useChangeParameters] Updating param:', param.name);
-          newCode = updateParameter(newCode, param);
-        }
+      const currentValues = new Map(
+        parseParameters(originalCode).map((param) => [param.name, param.value]),
+      );
+      const changed = updatedParameters.filter((param) => {
+        const current = currentValues.get(param.name);
+        return current !== undefined && !isSameValue(current, param.value);
       });
+      const newCode = changed.reduce(
+        (code, param) => updateParameter(code, param),
+        originalCode,
+      );
 
-      console.log('[useChangeParameters] Updated code length:', newCode.length);
-      console.log('[useChangeParameters] Code changed:', originalCode !== newCode);
-
-      const newContent: Content = {
-        text: message.content.text ?? '',
-        model: message.content.model ?? 'pierre',
-        artifact: {
-          title: message.content.artifact?.title ?? '',
-          version: message.content.artifact?.version ?? '',
-          code: newCode,
-          parameters: updatedParameters,
-        },
+      const artifact: ParametricArtifact = {
+        ...message.content.artifact,
+        title: message.content.artifact?.title ?? '',
+        version: message.content.artifact?.version ?? '',
+        code: newCode,
+        parameters: updatedParameters,
+        presets: presets ?? message.content.artifact?.presets,
       };
 
-      console.log('[useChangeParameters] ✅ Updating message in database');
+      if (changed.length > 0) {
+        insertMessage({
+          role: 'assistant',
+          content: {
+            text: 'Changed the parameters.',
+            model: message.content.model ?? 'pierre',
+            artifact: {
+              ...artifact,
+              version: nextArtifactVersion(messages, message.id, newCode),
+            },
+          },
+          parent_message_id: message.id,
+          conversation_id: message.conversation_id,
+        });
+        return;
+      }
 
       updateMessageOptimistic(
         {
-          message: { ...message, content: newContent },
+          message: {
+            ...message,
+            content: {
+              text: message.content.text ?? '',
+              model: message.content.model ?? 'pierre',
+              artifact,
+            },
+          },
         },
         {
-          onError(_error, _variables, context) {
-            console.error('[useChangeParameters] ❌ Error updating message:', _error);
+          onError(error, _variables, context) {
+            console.error(error);
             if (context?.oldMessages) {
               queryClient.setQueryData(
                 ['messages', conversation.id],
@@ -657,7 +862,13 @@ export function useChangeParameters() {
         },
       );
     },
-    [updateMessageOptimistic, queryClient, conversation.id],
+    [
+      updateMessageOptimistic,
+      insertMessage,
+      queryClient,
+      conversation.id,
+      messages,
+    ],
   );
 }
 
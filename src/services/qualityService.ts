@@ -11,9 +11,11 @@ import {
   SuccessPattern,
   GenerationAnalytics,
   QualityScoreResult,
+  ExportType,
 } from '@shared/types';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/core/AuthContext';
+import { calculateQualityScore } from '@/lib/qualityCalculator';
 
 // ============================================================================
 // Quality Metrics Hooks
@@ -126,6 +128,65 @@ export function useUpdateQualityMetrics() {
   });
 }
 
+/**
+ * Mark a message's quality metrics as having degenerate geometry when the
+ * mesh check of its compiled model finds defects, and rescore them
+ */
+export function useRecordMeshDefects() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      messageId,
+      hasDefects,
+    }: {
+      messageId: string;
+      hasDefects: boolean;
+    }) => {
+      const { data: existing, error: fetchError } = await supabase
+        .from('quality_metrics')
+        .select('*')
+        .eq('message_id', messageId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      // Stderr warnings already flagged it, or nothing was recorded yet
+      if (!existing || !hasDefects || existing.has_degenerate_geometry) {
+        return null;
+      }
+
+      const metrics = {
+        ...(existing as QualityMetrics),
+        has_degenerate_geometry: true,
+        render_success: false,
+      };
+      const { breakdown: _breakdown, ...scores } = calculateQualityScore(metrics);
+
+      const { data, error } = await supabase
+        .from('quality_metrics')
+        .update({
+          has_degenerate_geometry: true,
+          render_success: false,
+          ...scores,
+        })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      if (!data) return;
+      queryClient.invalidateQueries({ queryKey: ['quality-metrics'] });
+      queryClient.invalidateQueries({ queryKey: ['quality-metrics', data.message_id] });
+    },
+    onError: (error) => {
+      console.error('[useRecordMeshDefects] Failed to record mesh defects:', error);
+    },
+  });
+}
+
 // ============================================================================
 // User Feedback Hooks
 // ============================================================================
@@ -168,6 +229,47 @@ export function useSubmitFeedback() {
   });
 }
 
+/**
+ * Record that the user exported a model: stores the export format as
+ * feedback and marks the message's quality metrics as exported
+ */
+export function useRecordExport() {
+  const queryClient = useQueryClient();
+  const submitFeedback = useSubmitFeedback();
+
+  return useMutation({
+    mutationFn: async ({
+      messageId,
+      conversationId,
+      exportType,
+    }: {
+      messageId: string;
+      conversationId: string;
+      exportType: ExportType;
+    }) => {
+      await submitFeedback.mutateAsync({
+        message_id: messageId,
+        conversation_id: conversationId,
+        feedback_type: 'export',
+        export_type: exportType,
+      });
+
+      const { error } = await supabase
+        .from('quality_metrics')
+        .update({ model_exported: true })
+        .eq('message_id', messageId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { messageId }) => {
+      queryClient.invalidateQueries({ queryKey: ['quality-metrics', messageId] });
+    },
+    onError: (error) => {
+      console.error('[useRecordExport] Failed to record export:', error);
+    },
+  });
+}
+
 /**
  * Get feedback for a specific message
  */
@@ -74,6 +74,7 @@ export type Database = {
       }
       conversations: {
         Row: {
+          compile_timeout_seconds: number | null
           created_at: string | null
           current_message_leaf_id: string | null
           id: string
@@ -82,6 +83,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          compile_timeout_seconds?: number | null
           created_at?: string | null
           current_message_leaf_id?: string | null
           id?: string
@@ -90,6 +92,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          compile_timeout_seconds?: number | null
           created_at?: string | null
           current_message_leaf_id?: string | null
           id?: string
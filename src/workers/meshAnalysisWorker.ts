@@ -0,0 +1,38 @@
+import { STLLoader } from 'three/addons/loaders/STLLoader.js';
+import {
+  analyzeMesh,
+  MeshAnalysis,
+  PrintabilityOptions,
+} from '@/lib/meshAnalysis';
+
+export type MeshAnalysisWorkerMessage = {
+  id: number;
+  stl: ArrayBuffer;
+  options: PrintabilityOptions;
+};
+
+export type MeshAnalysisWorkerResponse = {
+  id: number;
+  analysis?: MeshAnalysis;
+  error?: string;
+};
+
+self.onmessage = (event: MessageEvent<MeshAnalysisWorkerMessage>) => {
+  const { id, stl, options } = event.data;
+
+  let response: MeshAnalysisWorkerResponse;
+  try {
+    const geometry = new STLLoader().parse(stl);
+    response = {
+      id,
+      analysis: analyzeMesh(geometry.getAttribute('position').array, options),
+    };
+  } catch (error) {
+    response = {
+      id,
+      error: error instanceof Error ? error.message : 'Could not read STL',
+    };
+  }
+
+  self.postMessage(response);
+};
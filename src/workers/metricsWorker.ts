@@ -0,0 +1,35 @@
+import { STLLoader } from 'three/addons/loaders/STLLoader.js';
+import { measureMesh, MeshMeasurements } from '@/lib/geometryMetrics';
+
+export type MetricsWorkerMessage = {
+  id: number;
+  stl: ArrayBuffer;
+};
+
+export type MetricsWorkerResponse = {
+  id: number;
+  measurements?: MeshMeasurements;
+  error?: string;
+};
+
+// Measuring walks every triangle, which blocks for large meshes, so it runs
+// off the main thread
+self.onmessage = (event: MessageEvent<MetricsWorkerMessage>) => {
+  const { id, stl } = event.data;
+
+  let response: MetricsWorkerResponse;
+  try {
+    const geometry = new STLLoader().parse(stl);
+    response = {
+      id,
+      measurements: measureMesh(geometry.getAttribute('position').array),
+    };
+  } catch (error) {
+    response = {
+      id,
+      error: error instanceof Error ? error.message : 'Could not read STL',
+    };
+  }
+
+  self.postMessage(response);
+};
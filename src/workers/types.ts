@@ -1,15 +1,27 @@
-import { Parameter } from '@shared/types';
+import { Diagnostic, ExportType, Parameter } from '@shared/types';
 import WorkspaceFile from '../lib/WorkspaceFile.ts';
+import { MeshPart } from '../lib/meshParts.ts';
 
 // Credit
 // https://github.com/seasick/openscad-web-gui/blob/main/src/worker/types.ts
 
+// The OpenSCAD build. The bundler puts a content hash in asset URLs, so a new
+// build gets a new URL.
+export const OPENSCAD_WASM_URL = new URL(
+  '../../lib/openscad-wasm/openscad.wasm',
+  import.meta.url,
+);
+
 export const enum WorkerMessageType {
   PREVIEW = 'preview',
   EXPORT = 'export',
   FS_READ = 'fs.read',
   FS_WRITE = 'fs.write',
   FS_UNLINK = 'fs.unlink',
+  // Prepare the OpenSCAD instance for the first job ahead of time
+  WARMUP = 'warmup',
+  // Stop a job at the next point the worker can, see CancelWorkerMessageData
+  CANCEL = 'cancel',
 }
 
 type WorkerMessageDataMap = {
@@ -18,12 +30,17 @@ type WorkerMessageDataMap = {
   [WorkerMessageType.FS_READ]: FileSystemWorkerMessageData;
   [WorkerMessageType.FS_WRITE]: FileSystemWorkerMessageData;
   [WorkerMessageType.FS_UNLINK]: FileSystemWorkerMessageData;
+  [WorkerMessageType.WARMUP]: null;
+  [WorkerMessageType.CANCEL]: CancelWorkerMessageData;
 };
 
 export type WorkerMessage = {
+  // Job id, echoed in the response
   id?: string | number;
   type: WorkerMessageType;
   data: WorkerMessageDataMap[WorkerMessage['type']];
+  // Milliseconds the host lets the job run before it stops the worker
+  timeout?: number;
 };
 
 export type WorkerResponseMessage = {
@@ -37,10 +54,38 @@ export type WorkerResponseMessage = {
   err?: Error;
 };
 
+// Formats OpenSCAD itself can write. DXF and SVG require a 2D design.
+export type ExportFormat = Exclude<ExportType, 'scad' | 'png'>;
+
+// Units written to the 3MF model, OpenSCAD itself is unitless
+export type ExportUnit =
+  | 'micron'
+  | 'millimeter'
+  | 'centimeter'
+  | 'meter'
+  | 'inch'
+  | 'foot';
+
+export type ExportOptions = {
+  format: ExportFormat;
+  // 3MF only
+  unit?: ExportUnit;
+  objectName?: string;
+  // DXF/SVG of a 3D model: export the cross-section at this Z height
+  sliceHeight?: number;
+};
+
 export type OpenSCADWorkerMessageData = {
   code: string;
+  // 'stl' for 3D designs, 'svg' for 2D designs
   fileType: string;
   params: Parameter[];
+  // Only used by EXPORT, defaults to binary STL
+  export?: ExportOptions;
+  // Render a PREVIEW even if the design looks too complex
+  skipComplexityCheck?: boolean;
+  // Render a PREVIEW at draft quality, without parts
+  draft?: boolean;
 };
 
 export type OpenSCADWorkerResponseData = {
@@ -48,12 +93,22 @@ export type OpenSCADWorkerResponseData = {
     stdErr: string[];
     stdOut: string[];
   };
+  // Errors and warnings from `log.stdErr`
+  diagnostics: Diagnostic[];
   fileType: string;
   output: Uint8Array;
+  // Separate objects and colors of a 3D preview, together they make `output`
+  parts?: MeshPart[];
   exitCode: number;
   duration: number;
 };
 
+// OpenSCAD renders block the worker, so a job can only be cancelled before
+// its render starts. The host stops the worker to end a running render.
+export type CancelWorkerMessageData = {
+  jobId: string | number;
+};
+
 export type FileSystemWorkerMessageData = {
   path: string;
   content?: WorkspaceFile; // Content is only necessary when writing
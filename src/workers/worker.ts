@@ -1,10 +1,14 @@
 import OpenSCADError from '@/lib/OpenSCADError';
+import ComplexityError from '@/lib/ComplexityError';
+import { parseDiagnostics } from '@shared/openscad/diagnostics';
 import OpenSCADWrapper from './openSCAD';
 import {
+  CancelWorkerMessageData,
   FileSystemWorkerMessageData,
   OpenSCADWorkerMessageData,
   OpenSCADWorkerResponseData,
   WorkerMessage,
+  WorkerMessageType,
   WorkerResponseMessage,
 } from './types';
 
@@ -13,11 +17,18 @@ import {
 
 const openscad = new OpenSCADWrapper();
 
+// Jobs the host cancelled while they were still preparing
+const cancelledJobs = new Set<string | number>();
+
 // Handle messages from the main thread
 self.onmessage = async (
   event: MessageEvent<WorkerMessage & { id: string }>,
 ) => {
-  const { id, type, data } = event.data;
+  const { id, type, data, timeout } = event.data;
+  if (type !== WorkerMessageType.CANCEL) {
+    openscad.isCancelled = () => cancelledJobs.has(id);
+    openscad.timeout = timeout;
+  }
 
   try {
     let result:
@@ -41,6 +52,14 @@ self.onmessage = async (
       case 'fs.unlink':
         result = await openscad.unlinkFile(data as FileSystemWorkerMessageData);
         break;
+      case 'warmup':
+        await openscad.warmUp();
+        result = true;
+        break;
+      case 'cancel':
+        cancelledJobs.add((data as CancelWorkerMessageData).jobId);
+        result = true;
+        break;
     }
 
     const response: WorkerResponseMessage = {
@@ -51,13 +70,23 @@ self.onmessage = async (
 
     self.postMessage(response);
   } catch (error) {
-    let err: Error | OpenSCADError;
-    if (error instanceof OpenSCADError) {
+    let err: Error | OpenSCADError | ComplexityError;
+    if (error instanceof ComplexityError) {
+      err = {
+        name: 'ComplexityError',
+        message: error.message,
+        code: error.code,
+        stdErr: error.stdErr,
+        risks: error.risks,
+        diagnostics: parseDiagnostics(error.stdErr),
+      };
+    } else if (error instanceof OpenSCADError) {
       err = {
         name: 'OpenSCADError',
         message: error.message,
         code: error.code,
         stdErr: error.stdErr,
+        diagnostics: parseDiagnostics(error.stdErr),
       };
     } else {
       err = error instanceof Error ? error : new Error('Unknown error');
@@ -69,5 +98,7 @@ self.onmessage = async (
       err,
     };
     self.postMessage(response);
+  } finally {
+    cancelledJobs.delete(id);
   }
 };
@@ -1,4 +1,5 @@
 import { CoreMessage } from '@shared/types.ts';
+import { formatDiagnostics } from '@shared/openscad/diagnostics.ts';
 import { SupabaseClient } from './supabaseClient.ts';
 import { ContentBlockParam } from 'https://esm.sh/@anthropic-ai/sdk@0.53.0/resources/messages.d.mts';
 
@@ -65,7 +66,16 @@ export async function formatUserMessage(
     parts.push({ type: 'text', text: message.content.text });
   }
 
-  if (message.content.error) {
+  if (message.content.diagnostics?.length) {
+    parts.push({
+      type: 'text',
+      text: `The OpenSCAD code generated has failed to compile. OpenSCAD reported these problems, with line numbers in the code and the calls that led to them:
+
+${formatDiagnostics(message.content.diagnostics)}
+
+Fix any syntax, logic, parameter, library, or other issues.`,
+    });
+  } else if (message.content.error) {
     parts.push({
       type: 'text',
       text: `The OpenSCAD code generated has failed to compile and has given the following error, fix any syntax, logic, parameter, library, or other issues: ${message.content.error}`,
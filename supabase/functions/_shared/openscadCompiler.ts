@@ -0,0 +1,195 @@
+/**
+ * Headless OpenSCAD compiler (Deno-compatible)
+ *
+ * Used to check generated code before it is stored. Runs the OpenSCAD WASM
+ * build in a worker by default; set OPENSCAD_BINARY to the path of a local
+ * `openscad` executable to compile with that instead.
+ */
+
+import type { DesignMode } from '@shared/types.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CompileResult = {
+  ok: boolean;
+  // Compiler messages worth showing to the model (ERROR, WARNING, ...)
+  errors: string[];
+  duration: number;
+  // Set when the compiler itself failed (didn't start, crashed or timed
+  // out), the code could not be checked then
+  failure?: string;
+};
+
+export type RawResult = {
+  exitCode: number;
+  stdErr: string[];
+  failure?: string;
+};
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const COMPILE_TIMEOUT_MS = 60_000;
+
+const RELEVANT_LINE =
+  /^(ERROR|WARNING|TRACE|Current top level object|Can't parse)/;
+
+export function exportArgs(mode: DesignMode, input: string, output: string) {
+  return [
+    input,
+    '-o',
+    output,
+    mode === '2d' ? '--export-format=svg' : '--export-format=binstl',
+  ];
+}
+
+// ============================================================================
+// Compilers
+// ============================================================================
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function compileWithWasm(
+  code: string,
+  mode: DesignMode,
+  timeout: number,
+): Promise<RawResult> {
+  // The WASM build blocks while it compiles, only a worker can be stopped
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./openscadWorker.ts', import.meta.url).href, {
+      type: 'module',
+    });
+  } catch (error) {
+    return {
+      exitCode: 1,
+      stdErr: [],
+      failure: `Could not start OpenSCAD: ${describeError(error)}`,
+    };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await new Promise<RawResult>((resolve, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(`Timed out after ${Math.round(timeout / 1000)} seconds`),
+          ),
+        timeout,
+      );
+      worker.onmessage = (event: MessageEvent<RawResult>) =>
+        resolve(event.data);
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        reject(new Error(event.message));
+      };
+      worker.postMessage({ code, mode });
+    });
+  } catch (error) {
+    return {
+      exitCode: 1,
+      stdErr: [],
+      failure: `OpenSCAD did not finish: ${describeError(error)}`,
+    };
+  } finally {
+    clearTimeout(timer);
+    worker.terminate();
+  }
+}
+
+async function compileWithBinary(
+  binary: string,
+  code: string,
+  mode: DesignMode,
+  timeout: number,
+): Promise<RawResult> {
+  const dir = await Deno.makeTempDir();
+  try {
+    const input = `${dir}/input.scad`;
+    await Deno.writeTextFile(input, code);
+
+    const { code: exitCode, stderr } = await new Deno.Command(binary, {
+      args: exportArgs(
+        mode,
+        input,
+        `${dir}/${mode === '2d' ? 'out.svg' : 'out.stl'}`,
+      ),
+      stdout: 'null',
+      stderr: 'piped',
+      signal: AbortSignal.timeout(timeout),
+    }).output();
+
+    return {
+      exitCode,
+      stdErr: new TextDecoder().decode(stderr).split('\n'),
+    };
+  } catch (error) {
+    return {
+      exitCode: 1,
+      stdErr: [],
+      failure: `OpenSCAD did not finish: ${describeError(error)}`,
+    };
+  } finally {
+    try {
+      await Deno.remove(dir, { recursive: true });
+    } catch (error) {
+      // A leftover temp dir must not turn a finished compile into an error
+      console.warn('[OpenSCAD] Could not remove', dir, describeError(error));
+    }
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Libraries (BOSL2, MCAD, ...) are only available in the browser worker, so
+ * code that includes them cannot be checked here.
+ */
+export function usesLibraries(code: string): boolean {
+  return /^\s*(include|use)\s*</m.test(code);
+}
+
+/**
+ * Compile the code to STL (3D) or SVG (2D) and report whether it succeeded.
+ * Check `failure` first: when the compiler fails, `ok` says nothing about
+ * the code. `timeout` can only shorten the default compile time limit.
+ */
+export async function compileOpenSCAD(
+  code: string,
+  mode: DesignMode = '3d',
+  timeout: number = COMPILE_TIMEOUT_MS,
+): Promise<CompileResult> {
+  const start = Date.now();
+  const binary = Deno.env.get('OPENSCAD_BINARY');
+  const limit = Math.max(0, Math.min(timeout, COMPILE_TIMEOUT_MS));
+
+  const { exitCode, stdErr, failure } = binary
+    ? await compileWithBinary(binary, code, mode, limit)
+    : await compileWithWasm(code, mode, limit);
+
+  if (failure) {
+    return { ok: false, errors: [], duration: Date.now() - start, failure };
+  }
+
+  const relevant = stdErr.filter((line) => RELEVANT_LINE.test(line.trim()));
+  const ok =
+    exitCode === 0 && !relevant.some((line) => line.startsWith('ERROR'));
+
+  return {
+    ok,
+    errors: ok
+      ? relevant
+      : relevant.length > 0
+        ? relevant
+        : stdErr.filter(Boolean).slice(-5),
+    duration: Date.now() - start,
+  };
+}
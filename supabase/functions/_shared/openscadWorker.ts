@@ -0,0 +1,40 @@
+/**
+ * Runs one OpenSCAD WASM compile off the main thread, so the compiler can
+ * stop it when it takes too long. See openscadCompiler.ts.
+ */
+
+import { createOpenSCAD } from 'npm:openscad-wasm-prebuilt@1.2.0';
+import type { DesignMode } from '@shared/types.ts';
+import { exportArgs, type RawResult } from './openscadCompiler.ts';
+
+self.onmessage = async (
+  event: MessageEvent<{ code: string; mode: DesignMode }>,
+) => {
+  const { code, mode } = event.data;
+  const stdErr: string[] = [];
+  let result: RawResult;
+
+  try {
+    // main() can only run once per WASM instance, so every compile gets its own
+    const openscad = await createOpenSCAD({
+      noInitialRun: true,
+      print: () => {},
+      printErr: (text: string) => stdErr.push(text),
+    });
+    const instance = openscad.getInstance();
+    instance.FS.writeFile('/input.scad', code);
+
+    const exitCode = instance.callMain(
+      exportArgs(mode, '/input.scad', mode === '2d' ? '/out.svg' : '/out.stl'),
+    );
+    result = { exitCode, stdErr };
+  } catch (error) {
+    result = {
+      exitCode: 1,
+      stdErr,
+      failure: `OpenSCAD crashed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  self.postMessage(result);
+};
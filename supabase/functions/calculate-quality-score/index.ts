@@ -157,6 +157,8 @@ interface CompilationData {
   stderr?: string[];
   stdout?: string[];
   polygonCount?: number;
+  // Open, non-manifold or inverted faces found by the client's mesh check
+  hasMeshDefects?: boolean;
   generationTimeMs?: number;
   tokensUsed?: number;
 }
@@ -188,9 +190,10 @@ function buildQualityMetrics(input: {
   const compilation_warnings = compilationData.stderr
     ? countOpenSCADWarnings(compilationData.stderr)
     : 0;
-  const has_degenerate_geometry = compilationData.stderr
-    ? hasGeometryIssues(compilationData.stderr)
-    : false;
+  const has_degenerate_geometry =
+    (compilationData.stderr
+      ? hasGeometryIssues(compilationData.stderr)
+      : false) || (compilationData.hasMeshDefects ?? false);
 
   // Calculate individual scores
   const compilationScore = calculateCompilationScore({
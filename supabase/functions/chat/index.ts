@@ -9,31 +9,107 @@ import {
   Model,
   Content,
   CoreMessage,
+  DesignMode,
   ParametricArtifact,
+  ToolCall,
 } from '@shared/types.ts';
 import { getAnonSupabaseClient } from '../_shared/supabaseClient.ts';
 import Tree from '@shared/Tree.ts';
 import parseParameters from '../_shared/parseParameter.ts';
+import { carryOverPresets } from '@shared/openscad/presets.ts';
+import { nextArtifactVersion } from '@shared/versions.ts';
 import { formatUserMessage, reformatSignedUrl } from '../_shared/messageUtils.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { optimizeAIRequest } from '../_shared/aiOptimizer.ts';
+import {
+  compileOpenSCAD,
+  usesLibraries,
+} from '../_shared/openscadCompiler.ts';
+
+// How often the model may try to fix code that does not compile
+const MAX_REPAIR_ROUNDS = 3;
+
+// Total time for compiling and repairing, so the request stays within the
+// edge function's wall clock limit however many rounds it takes
+const VALIDATION_BUDGET_MS = 90_000;
+
+// A repair is only started when at least this much of the budget is left
+// for it and for compiling its result
+const MIN_REPAIR_ROUND_MS = 20_000;
 
 // Helper to stream updated assistant message rows
 function streamMessage(
   controller: ReadableStreamDefaultController,
   message: Message,
 ) {
-  controller.enqueue(new TextEncoder().encode(JSON.stringify(message) + '\n'));
+  try {
+    controller.enqueue(new TextEncoder().encode(JSON.stringify(message) + '\n'));
+  } catch {
+    // The client went away; the message is still saved to the database
+  }
 }
 
+// Minimum time between two streamed draft frames
+const DRAFT_FRAME_INTERVAL_MS = 150;
+
 // Helper to escape regex special characters
 function escapeRegExp(string: string): string {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+// Strip the markdown code fences the model sometimes wraps code in
+function extractCode(text: string): string {
+  const code = text.trim();
+  if (!code.startsWith('```')) return code;
+  return code
+    .replace(/```(?:openscad|scad)?\n?/g, '')
+    .replace(/```$/g, '')
+    .trim();
+}
+
+// Ask the model to fix code that failed to compile
+async function repairCode(
+  anthropic: Anthropic,
+  systemPrompt: string,
+  messagesToSend: MessageParam[],
+  code: string,
+  errors: string[],
+  signal: AbortSignal,
+): Promise<string> {
+  const response = await anthropic.messages.create(
+    {
+      model: 'claude-sonnet-4-5-20250929',
+      system: systemPrompt,
+      max_tokens: 16000,
+      messages: [
+        ...messagesToSend,
+        { role: 'assistant', content: code },
+        {
+          role: 'user',
+          content: `This code fails to compile in OpenSCAD:
+
+${errors.join('\n')}
+
+Fix these errors and return the complete corrected OpenSCAD code. Keep the parameters and the design otherwise unchanged.`,
+        },
+      ],
+    },
+    { signal },
+  );
+
+  let text = '';
+  for (const block of response.content) {
+    if (block.type === 'text') {
+      text += block.text;
+    }
+  }
+  return extractCode(text);
+}
+
 async function generateTitleFromMessages(
   anthropic: Anthropic,
   messagesToSend: MessageParam[],
+  signal: AbortSignal,
 ): Promise<string> {
   try {
     const titleSystemPrompt = `You are a helpful assistant that generates very concise, descriptive titles for 3D CAD conversations. Your titles should be:
@@ -52,19 +128,22 @@ Examples of good titles:
 - "Monitor Stand"
 - "Phone Holder"`;
 
-    const titleResponse = await anthropic.messages.create({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 30,
-      system: titleSystemPrompt,
-      messages: [
-        ...messagesToSend,
-        {
-          role: 'user',
-          content:
-            'Generate a very short title (max 30 characters) for this 3D design.',
-        },
-      ],
-    });
+    const titleResponse = await anthropic.messages.create(
+      {
+        model: 'claude-3-haiku-20240307',
+        max_tokens: 30,
+        system: titleSystemPrompt,
+        messages: [
+          ...messagesToSend,
+          {
+            role: 'user',
+            content:
+              'Generate a very short title (max 30 characters) for this 3D design.',
+          },
+        ],
+      },
+      { signal },
+    );
 
     if (
       Array.isArray(titleResponse.content) &&
@@ -144,13 +223,23 @@ Parameters MUST be declared in this exact format at the top of the file:
 - Format: parameter_name = value;
 - One parameter per line
 - No extra spaces around the equals sign (just one space on each side)
-- Optional comment after the semicolon
+- Optional OpenSCAD Customizer annotation after the semicolon
 - Examples:
-  height = 100;
-  radius = 25;
-  wall_thickness = 3; // Optional comment
+  height = 100; // [10:1:200]
+  radius = 25; // [5:50]
+  wall_thickness = 3; // 0.5
+  style = "round"; // [round:Round, square:Square]
+  label = "Hi"; // 12
+  size = [40, 20, 10]; // [1:100]
   use_base = true;
 
+CUSTOMIZER ANNOTATIONS:
+- // [min:max] or // [min:step:max] - slider range (applies to each vector component)
+- // 0.5 - step size for numbers, maximum length for strings
+- // [value:Label, value:Label] - dropdown with labels
+- /* [Group Name] */ on its own line - groups the parameters below it
+- /* [Hidden] */ - parameters below it are internal constants, not shown to the user
+
 CODE REQUIREMENTS:
 - Declare ALL adjustable values as parameters at the top
 - Use descriptive parameter names (width, height, radius, thickness, etc.)
@@ -345,6 +434,39 @@ difference() {
     sphere(r=1);
 }`;
 
+// Appended to the system prompt when the user asks for a 2D design
+const FLAT_DESIGN_PROMPT = `
+
+📐 2D DESIGN MODE (LASER CUTTING / CNC / PLOTTING):
+
+The user wants a FLAT design that is exported as DXF or SVG, not a 3D model.
+
+- Use ONLY 2D primitives and operations: square(), circle(), polygon(), text(), offset(), projection()
+- Combine shapes with union(), difference(), intersection() and position them with translate(), rotate(), mirror()
+- NEVER use cube(), sphere(), cylinder(), polyhedron(), linear_extrude() or rotate_extrude() - the top level result must be 2D
+- Dimensions are in millimeters, the design lies in the XY plane
+- Model holes, slots and cut-outs with difference()
+- For interlocking parts (tabs, finger joints), add a material_thickness parameter and size slots from it
+- Add a kerf parameter (default 0.1) when parts must fit together, and compensate with offset(delta=kerf/2)
+- Lay out multiple parts next to each other with a spacing parameter so they do not overlap
+
+Example:
+plate_width = 80; // [20:200]
+plate_height = 50; // [20:200]
+corner_radius = 5; // [0:20]
+hole_diameter = 4; // [2:10]
+hole_inset = 6;
+
+$fn = 64;
+
+difference() {
+    offset(r=corner_radius) offset(delta=-corner_radius)
+    square([plate_width, plate_height]);
+
+    for (x = [hole_inset, plate_width - hole_inset], y = [hole_inset, plate_height - hole_inset])
+    translate([x, y]) circle(d=hole_diameter);
+}`;
+
 // Enhanced system prompt specifically for image-to-CAD conversion
 const IMAGE_TO_CAD_SYSTEM_PROMPT = `You are Pierre, an AI CAD editor with advanced vision capabilities that creates parametric OpenSCAD models from reference images.
 
@@ -637,7 +759,15 @@ Deno.serve(async (req) => {
     console.log('[CAD Generation] Messages to send:', messagesToSend.length);
     console.log('[CAD Generation] User message:', newMessage.content.text?.substring(0, 100));
 
+    // Aborted when the client cancels or disconnects mid-stream
+    const abortController = new AbortController();
+    req.signal.addEventListener('abort', () => abortController.abort());
+
     const responseStream = new ReadableStream({
+      cancel() {
+        console.log('[CAD Generation] Client disconnected - stopping generation');
+        abortController.abort();
+      },
       async start(controller) {
         try {
           console.log('[CAD Generation] Making AI request...');
@@ -691,6 +821,14 @@ Deno.serve(async (req) => {
               : 'Multiple messages but no previous OpenSCAD code found - treating as v1'
           );
 
+          // 📐 DESIGN MODE: explicit request, otherwise keep the mode of the design being refined
+          const previousArtifact = currentMessageBranch
+            .filter((msg) => msg.role === 'assistant' && msg.content.artifact)
+            .pop()?.content.artifact;
+          const mode: DesignMode =
+            newMessage.content.mode ?? previousArtifact?.mode ?? '3d';
+          console.log('[CAD Generation] Design mode:', mode);
+
           // Use AI optimizer to determine best configuration
           const optimization = optimizeAIRequest({
             userPrompt: newMessage.content.text || '',
@@ -725,6 +863,11 @@ Deno.serve(async (req) => {
             console.log('[CAD Generation] Voice mode detected - using standard text-to-CAD prompting');
           }
 
+          if (mode === '2d') {
+            console.log('[CAD Generation] Adding 2D design instructions');
+            systemPrompt += FLAT_DESIGN_PROMPT;
+          }
+
           // 🛡️ SAFETY: Add refinement safety instructions to prevent WASM crashes
           if (isRefinement) {
             console.log('[CAD Generation] Adding refinement safety rules to system prompt');
@@ -821,6 +964,43 @@ You are modifying an EXISTING design. The user has requested changes to previous
             console.log('[CAD Generation] Extended thinking enabled with budget:', optimization.thinkingBudget);
           }
 
+          // Stream tokens so the client sees the code being written
+          let draftText = '';
+          let lastDraftFrame = 0;
+          const streamDraft = (status: 'thinking' | 'writing', force = false) => {
+            const now = Date.now();
+            if (!force && now - lastDraftFrame < DRAFT_FRAME_INTERVAL_MS) return;
+            lastDraftFrame = now;
+            content = { ...content, draft: { status, code: extractCode(draftText) } };
+            streamMessage(controller, { ...newMessageData, content });
+          };
+
+          // Run a request as a stream. With `showCode` its text is the draft
+          // code, otherwise the client only sees that the model is thinking.
+          const streamRequest = (
+            params: Parameters<typeof anthropic.messages.stream>[0],
+            showCode: boolean,
+          ) => {
+            const stream = anthropic.messages.stream(params, {
+              signal: abortController.signal,
+            });
+            stream.on('streamEvent', (event) => {
+              if (event.type === 'content_block_start') {
+                streamDraft(
+                  showCode && event.content_block.type !== 'thinking' ? 'writing' : 'thinking',
+                  true,
+                );
+              }
+            });
+            if (showCode) {
+              stream.on('text', (delta) => {
+                draftText += delta;
+                streamDraft('writing');
+              });
+            }
+            return stream.finalMessage();
+          };
+
           // 🎯 PHASE 4.4: Two-Stage Generation for Ultra-Complex Designs (DISABLED FOR SPEED)
           let codeResponse: PromiseFulfilledResult<any> | PromiseRejectedResult;
           const shouldUseTwoStage = false; // Disabled for maximum speed - was: optimization.shouldUseExtendedThinking && optimization.complexityScore >= 8
@@ -850,7 +1030,7 @@ COMPLEXITY: [counts]
 `;
 
             try {
-              const stage1Response = await anthropic.messages.create({
+              const stage1Response = await streamRequest({
                 model: aiRequestParams.model,
                 max_tokens: 8000,
                 system: stage1Prompt,
@@ -860,7 +1040,7 @@ COMPLEXITY: [counts]
                   budget_tokens: 8000,
                 },
                 temperature: aiRequestParams.temperature,
-              });
+              }, false);
 
               // Extract description from stage 1
               let description = '';
@@ -888,7 +1068,7 @@ Return ONLY OpenSCAD code following your plan. No additional explanations.
 Ensure all safety rules from STAGE 1 are followed.
 `;
 
-              const stage2Response = await anthropic.messages.create({
+              const stage2Response = await streamRequest({
                 model: aiRequestParams.model,
                 max_tokens: 16000,
                 system: stage2Prompt,
@@ -908,7 +1088,7 @@ Ensure all safety rules from STAGE 1 are followed.
                   budget_tokens: 7000,
                 },
                 temperature: aiRequestParams.temperature,
-              });
+              }, true);
 
               console.log('[CAD Generation] STAGE 2 complete, code generation done');
               codeResponse = { status: 'fulfilled', value: stage2Response } as PromiseFulfilledResult<any>;
@@ -922,14 +1102,15 @@ Ensure all safety rules from STAGE 1 are followed.
             // Standard single-stage generation
             console.log('[CAD Generation] Using SINGLE-STAGE generation (complexity:', optimization.complexityScore, ')');
 
-            const response = await anthropic.messages.create(aiRequestParams);
+            const response = await streamRequest(aiRequestParams, true);
             codeResponse = { status: 'fulfilled', value: response } as PromiseFulfilledResult<any>;
           }
+          content = { ...content, draft: undefined };
 
           // Make title generation request in parallel with final response processing
           const [, titleResponse] = await Promise.allSettled([
             Promise.resolve(codeResponse), // Already resolved/rejected above
-            generateTitleFromMessages(anthropic, messagesToSend),
+            generateTitleFromMessages(anthropic, messagesToSend, abortController.signal),
           ]);
 
           console.log('[CAD Generation] AI response status:', codeResponse.status);
@@ -964,19 +1145,13 @@ Ensure all safety rules from STAGE 1 are followed.
 
             // The AI should return pure OpenSCAD code
             // Clean it up if needed (remove markdown code blocks, etc.)
-            code = aiResponseText.trim();
-
-            // Remove markdown code blocks if present
-            if (code.startsWith('```')) {
-              console.log('[CAD Generation] Removing markdown code blocks...');
-              code = code.replace(/```(?:openscad|scad)?\n?/g, '').replace(/```$/g, '').trim();
-            }
+            code = extractCode(aiResponseText);
 
             console.log('[CAD Generation] Extracted code length:', code.length);
             console.log('[CAD Generation] Code preview:', code.substring(0, 200));
 
             // ✅ VALIDATION: Check if code looks like OpenSCAD
-            const hasOpenSCADKeywords = /\b(module|function|cube|sphere|cylinder|translate|rotate|union|difference|intersection)\b/.test(code);
+            const hasOpenSCADKeywords = /\b(module|function|cube|sphere|cylinder|square|circle|polygon|translate|rotate|union|difference|intersection)\b/.test(code);
             if (!hasOpenSCADKeywords && code.length > 0) {
               console.warn('[CAD Generation] ⚠️ Extracted text does not contain OpenSCAD keywords!');
               console.warn('[CAD Generation] Full extracted text:', aiResponseText.substring(0, 500));
@@ -998,17 +1173,129 @@ Ensure all safety rules from STAGE 1 are followed.
           }
           console.log('[CAD Generation] Generated title:', title);
 
+          // 🔧 COMPILE CHECK: only keep code that compiles, let the model repair it otherwise
+          let compileErrors: string[] = [];
+          if (code && usesLibraries(code)) {
+            console.log('[CAD Generation] Code uses libraries - skipping server-side compile check');
+          } else if (code) {
+            const toolCalls: ToolCall[] = [];
+            const reportToolCall = (toolCall: ToolCall) => {
+              const index = toolCalls.findIndex((call) => call.id === toolCall.id);
+              if (index === -1) {
+                toolCalls.push(toolCall);
+              } else {
+                toolCalls[index] = toolCall;
+              }
+              content = { ...content, toolCalls: [...toolCalls] };
+              streamMessage(controller, { ...newMessageData, content });
+            };
+
+            const deadline = Date.now() + VALIDATION_BUDGET_MS;
+            for (let round = 0; !abortController.signal.aborted; round++) {
+              const compileId = `compile-${round}`;
+              reportToolCall({ id: compileId, name: 'compile', status: 'pending' });
+
+              // Running out of budget mid-compile counts as a compiler failure
+              const result = await compileOpenSCAD(code, mode, deadline - Date.now());
+              console.log('[CAD Generation] Compile round', round, {
+                ok: result.ok,
+                duration: result.duration,
+                errors: result.errors.slice(0, 5),
+                failure: result.failure,
+              });
+
+              // The compiler failed, not the code: keep what the model wrote
+              if (result.failure) {
+                console.warn('[CAD Generation] Could not validate code:', result.failure);
+                compileErrors = [];
+                reportToolCall({
+                  id: compileId,
+                  name: 'compile',
+                  status: 'error',
+                  detail: 'Could not check the code, keeping it as is',
+                });
+                break;
+              }
+
+              if (result.ok) {
+                compileErrors = [];
+                reportToolCall({ id: compileId, name: 'compile', status: 'success' });
+                break;
+              }
+
+              compileErrors = result.errors;
+              reportToolCall({
+                id: compileId,
+                name: 'compile',
+                status: 'error',
+                detail: result.errors[0],
+              });
+              if (round >= MAX_REPAIR_ROUNDS) break;
+              // Without time to check a repair, report the errors we know of
+              if (deadline - Date.now() < MIN_REPAIR_ROUND_MS) {
+                console.warn('[CAD Generation] Validation budget used up, no more repairs');
+                break;
+              }
+
+              const repairId = `repair-${round + 1}`;
+              reportToolCall({ id: repairId, name: 'repair', status: 'pending' });
+              try {
+                const repaired = await repairCode(
+                  anthropic,
+                  systemPrompt,
+                  messagesToSend,
+                  code,
+                  result.errors,
+                  AbortSignal.any([
+                    abortController.signal,
+                    AbortSignal.timeout(deadline - Date.now()),
+                  ]),
+                );
+                if (!repaired) throw new Error('Empty repair response');
+                code = repaired;
+                reportToolCall({ id: repairId, name: 'repair', status: 'success' });
+              } catch (error) {
+                console.error('[CAD Generation] Repair request failed:', error);
+                reportToolCall({ id: repairId, name: 'repair', status: 'error' });
+                break;
+              }
+            }
+
+            // Progress is only shown while streaming
+            content = { ...content, toolCalls: undefined };
+          }
+
+          if (abortController.signal.aborted) {
+            throw new Error('Generation cancelled');
+          }
+
           // Create the artifact with code and parameters
-          if (code && code.length > 0) {
+          if (compileErrors.length > 0) {
+            console.error('[CAD Generation] ❌ Code still does not compile after repairs');
+            content = {
+              ...content,
+              text: `Sorry, I could not generate a ${title} that compiles. Please try rephrasing your request or simplifying the design.`,
+              error: compileErrors.join('\n'),
+            };
+          } else if (code && code.length > 0) {
             console.log('[CAD Generation] Parsing parameters from code...');
             const parameters = parseParameters(code);
             console.log('[CAD Generation] Found parameters:', parameters.length);
 
+            // Presets saved on the previous version still apply to the
+            // parameters that survived the regeneration
+            const presets = carryOverPresets(
+              previousArtifact?.presets ?? [],
+              parameters,
+            );
+
             const artifact: ParametricArtifact = {
               title,
-              version: 'v1',
+              version: nextArtifactVersion(messages, newMessage.id, code),
               code,
               parameters,
+              ...(presets.length > 0 && { presets }),
+              ...(mode === '2d' && { mode }),
             };
 
             content = {
@@ -1030,12 +1317,38 @@ Ensure all safety rules from STAGE 1 are followed.
           streamMessage(controller, { ...newMessageData, content });
 
         } catch (error) {
-          console.error('[CAD Generation] ❌ Error:', error);
-          content = {
-            ...content,
-            text: 'An error occurred while generating your model. Please try again.',
-          };
+          if (abortController.signal.aborted) {
+            console.log('[CAD Generation] Generation cancelled by the client');
+            content = {
+              ...content,
+              draft: undefined,
+              toolCalls: undefined,
+              text: 'Generation cancelled.',
+              cancelled: true,
+            };
+          } else {
+            console.error('[CAD Generation] ❌ Error:', error);
+            content = {
+              ...content,
+              draft: undefined,
+              toolCalls: undefined,
+              text: 'An error occurred while generating your model. Please try again.',
+            };
+          }
         } finally {
+          // The client marks the message as cancelled itself, in case the
+          // disconnect never reached us. Don't overwrite that with a result.
+          const { data: storedMessage } = await supabaseClient
+            .from('messages')
+            .select('content')
+            .eq('id', newMessageData.id)
+            .single()
+            .overrideTypes<{ content: Content }>();
+          if (storedMessage?.content.cancelled) {
+            console.log('[CAD Generation] Message was cancelled by the client - discarding result');
+            content = storedMessage.content;
+          }
+
           // Save to database
           const { data: finalMessageData } = await supabaseClient
             .from('messages')
@@ -1050,7 +1363,11 @@ Ensure all safety rules from STAGE 1 are followed.
           }
 
           console.log('[CAD Generation] Pipeline complete');
-          controller.close();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a client disconnect
+          }
         }
       },
     });
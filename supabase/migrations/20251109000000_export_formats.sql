@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Export Formats Migration
+-- ============================================================================
+-- The export menu supports every format the OpenSCAD worker can write, so
+-- user_feedback.export_type has to accept them for the model_exported signal.
+-- ============================================================================
+
+ALTER TABLE user_feedback
+  DROP CONSTRAINT IF EXISTS user_feedback_export_type_check;
+
+ALTER TABLE user_feedback
+  ADD CONSTRAINT user_feedback_export_type_check
+  CHECK (export_type IN ('stl', 'asciistl', '3mf', 'off', 'amf', 'dxf', 'svg', 'scad', 'png'));
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Compile Timeout Migration
+-- ============================================================================
+-- Renders running longer than a time limit are stopped. The default suits
+-- most designs, conversations about heavier ones can raise it. NULL keeps
+-- the default.
+-- ============================================================================
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS compile_timeout_seconds INTEGER
+  CHECK (compile_timeout_seconds BETWEEN 5 AND 600);